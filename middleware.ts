@@ -0,0 +1,27 @@
+import { next, rewrite } from '@vercel/functions/middleware'
+
+// Vercel Routing Middleware: serves the Frappe site from the app's own origin in
+// production, as the dev and preview servers do (see vite.config.ts), so the
+// session cookie is first-party. The site is per deployment: set
+// FRAPPE_PROXY_TARGET in the Vercel project's environment variables.
+
+export const config = {
+  matcher: ['/api/:path*', '/files/:path*', '/private/files/:path*', '/assets/:path*', '/portal/:path*'],
+}
+
+// Frappe's assets sit in per-app folders; the app's own are never nested
+const FRAPPE_ASSET_PATH = /^\/assets\/[^/]+\/./
+
+export default function middleware(request: Request): Response {
+  const url = new URL(request.url)
+  if (url.pathname.startsWith('/assets/') && !FRAPPE_ASSET_PATH.test(url.pathname)) return next()
+
+  const target = process.env.FRAPPE_PROXY_TARGET?.replace(/\/+$/, '')
+  if (!target) {
+    return new Response('FRAPPE_PROXY_TARGET is not set for this deployment', { status: 502 })
+  }
+
+  // Portal pages share their paths with the app's routes, so they're fetched under /portal
+  const path = url.pathname.replace(/^\/portal(?=\/|$)/, '') || '/'
+  return rewrite(`${target}${path}${url.search}`)
+}
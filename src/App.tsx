@@ -1,6 +1,11 @@
 import { AppRoutes } from '@/routes/AppRoutes'
+import { useSessionValidation } from '@/hooks/useSessionValidation'
+import { useOutboxReplay } from '@/hooks/useOutboxReplay'
 
 function App() {
+  useSessionValidation()
+  useOutboxReplay()
+
   return <AppRoutes />
 }
 
@@ -0,0 +1,101 @@
+import { getCount, getList } from '@/lib/frappe'
+import { toIsoDate } from '@/lib/calendar'
+import { overdueFilters } from '@/api/purchaseOrders'
+import { fetchQuotationLinks } from '@/api/rfq'
+
+// Documents can be in any currency, so amounts are only ever summed per currency
+export interface CurrencyAmount {
+  currency: string
+  amount: number
+}
+
+export interface SupplierKpis {
+  openPurchaseOrders: number
+  pendingRfqs: number | null
+  unpaidInvoices: number
+  // Largest first
+  outstanding: CurrencyAmount[]
+  overdueDeliveries: number
+  valueThisMonth: CurrencyAmount[]
+}
+
+const OPEN_PO_STATUSES = ['To Receive and Bill', 'To Receive', 'To Bill']
+
+const toCurrencyAmounts = (groups: { amount: number | null; currency: string }[]): CurrencyAmount[] => {
+  return groups
+    .map((group) => ({ currency: group.currency, amount: group.amount ?? 0 }))
+    .sort((a, b) => b.amount - a.amount)
+}
+
+const fetchPendingRfqCount = async (supplier: string, signal?: AbortSignal): Promise<number> => {
+  const rfqs = await getList<{ name: string }>(
+    'Request for Quotation',
+    {
+      fields: ['name'],
+      filters: [
+        ['docstatus', '=', 1],
+        ['status', '!=', 'Cancelled'],
+        ['Request for Quotation Supplier', 'supplier', '=', supplier],
+      ],
+      limitPageLength: 0,
+    },
+    signal
+  )
+  const links = await fetchQuotationLinks(
+    supplier,
+    rfqs.map((rfq) => rfq.name),
+    signal
+  )
+  const answered = new Set(links.filter((link) => link.docstatus === 1).map((link) => link.request_for_quotation))
+  return rfqs.filter((rfq) => !answered.has(rfq.name)).length
+}
+
+/** Headline numbers for the supplier home page. `supplier` is needed for RFQs, which aren't user-scoped. */
+export const fetchSupplierKpis = async (supplier: string | null, signal?: AbortSignal): Promise<SupplierKpis> => {
+  const today = new Date()
+  const monthStart = toIsoDate(new Date(today.getFullYear(), today.getMonth(), 1))
+
+  const [openPurchaseOrders, overdueDeliveries, unpaid, monthTotals, pendingRfqs] = await Promise.all([
+    getCount('Purchase Order', [
+      ['docstatus', '=', 1],
+      ['status', 'in', OPEN_PO_STATUSES],
+    ], signal),
+    getCount('Purchase Order', overdueFilters(), signal),
+    getList<{ count: number; amount: number | null; currency: string }>(
+      'Purchase Invoice',
+      {
+        fields: ['currency', 'count(name) as count', 'sum(outstanding_amount) as amount'],
+        filters: [
+          ['docstatus', '=', 1],
+          ['outstanding_amount', '>', 0],
+        ],
+        groupBy: 'currency',
+        limitPageLength: 0,
+      },
+      signal
+    ),
+    getList<{ amount: number | null; currency: string }>(
+      'Purchase Order',
+      {
+        fields: ['currency', 'sum(grand_total) as amount'],
+        filters: [
+          ['docstatus', '=', 1],
+          ['transaction_date', '>=', monthStart],
+        ],
+        groupBy: 'currency',
+        limitPageLength: 0,
+      },
+      signal
+    ),
+    supplier ? fetchPendingRfqCount(supplier, signal) : Promise.resolve(null),
+  ])
+
+  return {
+    openPurchaseOrders,
+    pendingRfqs,
+    unpaidInvoices: unpaid.reduce((total, group) => total + group.count, 0),
+    outstanding: toCurrencyAmounts(unpaid),
+    overdueDeliveries,
+    valueThisMonth: toCurrencyAmounts(monthTotals),
+  }
+}
@@ -0,0 +1,208 @@
+import {
+  callMethod,
+  getCount,
+  getList,
+  inChunks,
+  insertDoc,
+  uploadFile,
+  type FrappeFilter,
+  type PagedResult,
+  type UploadedFile,
+} from '@/lib/frappe'
+import type { PurchaseOrderSummary } from '@/api/purchaseOrders'
+
+export interface PurchaseInvoiceItem {
+  item_code: string
+  item_name: string
+  qty: number
+  uom: string
+  rate: number
+  amount: number
+  purchase_order: string | null
+  po_detail: string | null
+  [field: string]: unknown
+}
+
+// Unsaved Purchase Invoice as returned by ERPNext's PO → PI mapper
+export interface PurchaseInvoiceDraft {
+  supplier: string
+  company: string
+  currency: string
+  bill_no?: string
+  bill_date?: string
+  items: PurchaseInvoiceItem[]
+  [field: string]: unknown
+}
+
+export interface PurchaseInvoice extends PurchaseInvoiceDraft {
+  name: string
+  docstatus: 0 | 1 | 2
+  grand_total: number
+}
+
+export const PURCHASE_INVOICE_STATUSES = ['Unpaid', 'Overdue', 'Partly Paid', 'Paid', 'Return', 'Debit Note Issued'] as const
+
+export interface PurchaseInvoiceSummary {
+  name: string
+  bill_no: string | null
+  bill_date: string | null
+  posting_date: string
+  due_date: string | null
+  status: string
+  grand_total: number
+  outstanding_amount: number
+  currency: string
+}
+
+// One allocation of a submitted Payment Entry against an invoice
+export interface InvoicePayment {
+  name: string
+  posting_date: string
+  reference_no: string | null
+  reference_date: string | null
+  mode_of_payment: string | null
+  invoice: string
+  allocated_amount: number
+}
+
+export interface InvoiceListParams {
+  status?: string
+  search?: string
+  page: number
+  pageSize: number
+}
+
+const DOCTYPE = 'Purchase Invoice'
+
+const SUMMARY_FIELDS = [
+  'name',
+  'bill_no',
+  'bill_date',
+  'posting_date',
+  'due_date',
+  'status',
+  'grand_total',
+  'outstanding_amount',
+  'currency',
+]
+
+const buildInvoiceFilters = ({ status, search }: InvoiceListParams): FrappeFilter[] => {
+  const filters: FrappeFilter[] = [['docstatus', '=', 1]]
+  if (status) filters.push(['status', '=', status])
+  if (search?.trim()) filters.push(['bill_no', 'like', `%${search.trim()}%`])
+  return filters
+}
+
+export const fetchPurchaseInvoices = async (
+  params: InvoiceListParams,
+  signal?: AbortSignal
+): Promise<PagedResult<PurchaseInvoiceSummary>> => {
+  const filters = buildInvoiceFilters(params)
+  const [data, total] = await Promise.all([
+    getList<PurchaseInvoiceSummary>(
+      DOCTYPE,
+      {
+        fields: SUMMARY_FIELDS,
+        filters,
+        orderBy: 'posting_date desc, name desc',
+        limitStart: (params.page - 1) * params.pageSize,
+        limitPageLength: params.pageSize,
+      },
+      signal
+    ),
+    getCount(DOCTYPE, filters, signal),
+  ])
+  return { data, total }
+}
+
+/** Every submitted invoice that still has something to pay, for the ageing summary. */
+export const fetchOutstandingInvoices = (signal?: AbortSignal): Promise<PurchaseInvoiceSummary[]> => {
+  return getList<PurchaseInvoiceSummary>(
+    DOCTYPE,
+    {
+      fields: SUMMARY_FIELDS,
+      filters: [
+        ['docstatus', '=', 1],
+        ['outstanding_amount', '>', 0],
+      ],
+      limitPageLength: 0,
+    },
+    signal
+  )
+}
+
+// An export asks for a whole page of invoices at once
+export const fetchPaymentsForInvoices = (invoiceNames: string[], signal?: AbortSignal): Promise<InvoicePayment[]> => {
+  return inChunks(invoiceNames, (chunk) =>
+    getList<InvoicePayment>(
+      'Payment Entry',
+      {
+        fields: [
+          'name',
+          'posting_date',
+          'reference_no',
+          'reference_date',
+          'mode_of_payment',
+          '`tabPayment Entry Reference`.reference_name as invoice',
+          '`tabPayment Entry Reference`.allocated_amount as allocated_amount',
+        ],
+        filters: [
+          ['docstatus', '=', 1],
+          ['Payment Entry Reference', 'reference_doctype', '=', DOCTYPE],
+          ['Payment Entry Reference', 'reference_name', 'in', chunk],
+        ],
+        orderBy: 'posting_date asc',
+        limitPageLength: 0,
+      },
+      signal
+    )
+  )
+}
+
+/** Submitted orders with received goods that haven't been fully billed yet. */
+export const fetchBillablePurchaseOrders = (signal?: AbortSignal): Promise<PurchaseOrderSummary[]> => {
+  return getList<PurchaseOrderSummary>(
+    'Purchase Order',
+    {
+      fields: ['name', 'supplier', 'transaction_date', 'schedule_date', 'status', 'per_received', 'per_billed', 'grand_total', 'currency'],
+      filters: [
+        ['docstatus', '=', 1],
+        ['per_received', '>', 0],
+        ['per_billed', '<', 100],
+        ['status', 'not in', ['Closed', 'On Hold']],
+      ],
+      orderBy: 'transaction_date desc, name desc',
+      limitPageLength: 0,
+    },
+    signal
+  )
+}
+
+/** Maps a Purchase Order into an unsaved invoice with the not-yet-billed quantities. */
+export const makePurchaseInvoice = (purchaseOrder: string, signal?: AbortSignal): Promise<PurchaseInvoiceDraft> => {
+  return callMethod<PurchaseInvoiceDraft>(
+    'erpnext.buying.doctype.purchase_order.purchase_order.make_purchase_invoice',
+    { source_name: purchaseOrder },
+    { signal }
+  )
+}
+
+// The mapper's placeholder names would otherwise be taken as real document names
+const withoutLocalFields = <T extends Record<string, unknown>>(row: T): T => {
+  const copy = { ...row }
+  delete copy.name
+  delete copy.__islocal
+  return copy
+}
+
+export const createPurchaseInvoice = (draft: PurchaseInvoiceDraft): Promise<PurchaseInvoice> => {
+  return insertDoc<PurchaseInvoice>(DOCTYPE, {
+    ...withoutLocalFields(draft),
+    docstatus: 0,
+    items: draft.items.map(withoutLocalFields),
+  })
+}
+
+export const attachInvoicePdf = (invoiceName: string, file: File): Promise<UploadedFile> => {
+  return uploadFile(file, { doctype: DOCTYPE, docname: invoiceName, isPrivate: true })
+}
@@ -0,0 +1,72 @@
+import { FrappeError, callMethod } from '@/lib/frappe'
+
+// Frappe's own password flows, usable without a session: the reset email
+// links to `/update-password?key=...`, which the app serves itself. Invited
+// contacts get the same kind of link in their welcome email.
+
+const USER_MODULE = 'frappe.core.doctype.user.user'
+
+// Types
+export interface PasswordStrength {
+  // 0 (very weak) to 4 (strong), as rated by zxcvbn on the server
+  score: number
+  // Whether the site's password policy accepts it
+  passesPolicy: boolean
+  warning: string | null
+  suggestions: string[]
+}
+
+interface StrengthResponse {
+  score?: number
+  feedback?: {
+    password_policy_validation_passed?: boolean
+    warning?: string
+    suggestions?: string[]
+  }
+}
+
+/**
+ * Emails the user a reset link. Unknown addresses are not reported, so the
+ * form can't be used to find out who has an account.
+ */
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  try {
+    await callMethod(`${USER_MODULE}.reset_password`, { user: email })
+  } catch (error) {
+    if (error instanceof FrappeError && error.status === 404) return
+    throw error
+  }
+}
+
+/** The server's rating of a new password, or null when the site has no password policy. */
+export const testPasswordStrength = async (
+  password: string,
+  key: string | null,
+  signal?: AbortSignal
+): Promise<PasswordStrength | null> => {
+  const result = await callMethod<StrengthResponse>(
+    `${USER_MODULE}.test_password_strength`,
+    { new_password: password, key: key ?? undefined },
+    { signal }
+  )
+  if (!result?.feedback) return null
+  return {
+    score: result.score ?? 0,
+    passesPolicy: Boolean(result.feedback.password_policy_validation_passed),
+    warning: result.feedback.warning || null,
+    suggestions: result.feedback.suggestions ?? [],
+  }
+}
+
+/**
+ * Sets a new password with the key from a reset or welcome email. Frappe
+ * signs the user in on success and answers with their home page; a used or
+ * expired key comes back as a 410.
+ */
+export const updatePasswordWithKey = (key: string, newPassword: string): Promise<string> => {
+  return callMethod<string>(`${USER_MODULE}.update_password`, {
+    key,
+    new_password: newPassword,
+    logout_all_sessions: 1,
+  })
+}
@@ -0,0 +1,47 @@
+import { callMethod } from '@/lib/frappe'
+
+export type PermissionType = 'read' | 'write' | 'create' | 'submit' | 'cancel' | 'delete'
+
+// DocType → permission types the current user holds
+export type DocTypePermissions = Record<string, PermissionType[]>
+
+// Only what the app actually gates on is asked for, to keep login to a handful of requests
+const PERMISSION_CHECKS: Array<[doctype: string, permissions: PermissionType[]]> = [
+  ['Purchase Order', ['read']],
+  ['Request for Quotation', ['read']],
+  ['Supplier Quotation', ['read', 'create', 'write', 'submit']],
+  ['Purchase Invoice', ['read', 'create']],
+  ['Advance Shipping Notice', ['read', 'create']],
+  ['Item Price', ['read', 'create', 'write']],
+  ['Payment Entry', ['read']],
+]
+
+const hasDocTypePermission = async (doctype: string, permType: PermissionType): Promise<boolean> => {
+  // An empty docname makes Frappe check the DocType as a whole
+  const result = await callMethod<{ has_permission: boolean }>(
+    'frappe.client.has_permission',
+    { doctype, docname: '', perm_type: permType },
+    { httpMethod: 'GET' }
+  )
+  return Boolean(result?.has_permission)
+}
+
+/** The session user's DocType-level permissions for everything in `PERMISSION_CHECKS`. */
+export const fetchDocTypePermissions = async (): Promise<DocTypePermissions> => {
+  const results = await Promise.all(
+    PERMISSION_CHECKS.flatMap(([doctype, permTypes]) =>
+      permTypes.map(async (permType) => ({
+        doctype,
+        permType,
+        allowed: await hasDocTypePermission(doctype, permType).catch(() => false),
+      }))
+    )
+  )
+
+  const permissions: DocTypePermissions = {}
+  results.forEach(({ doctype, permType, allowed }) => {
+    if (!allowed) return
+    permissions[doctype] = [...(permissions[doctype] ?? []), permType]
+  })
+  return permissions
+}
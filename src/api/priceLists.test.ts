@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { fetchCurrentPrices, fetchItemUoms, saveItemPrice, type ItemPrice } from './priceLists'
+import { addDays, toIsoDate } from '@/lib/calendar'
+import { buildPriceRows, guessMapping } from '@/lib/priceUpload'
+import { MOCK_SUPPLIER } from '@/mocks/fixtures'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { MOCK_EMAIL, MOCK_PASSWORD, setupMockBackend } from '@/test/mockBackend'
+
+const inDays = (days: number): string => toIsoDate(addDays(new Date(), days))
+
+const CONTEXT = { priceList: 'Acme Buying', supplier: MOCK_SUPPLIER, currency: 'GBP' }
+
+describe('saveItemPrice', () => {
+  const backend = setupMockBackend()
+
+  const currentGlovePrice = async (): Promise<ItemPrice> => {
+    const [price] = await fetchCurrentPrices('Acme Buying', MOCK_SUPPLIER, ['MED-GLOVE-M'])
+    return price
+  }
+
+  it('adds a new price and ends the one it replaces the day before', async () => {
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    const existing = await currentGlovePrice()
+
+    await saveItemPrice({ item_code: 'MED-GLOVE-M', uom: 'Box', rate: 7, valid_from: inDays(10) }, { ...CONTEXT, existing })
+
+    const prices = backend().fixtures.docs['Item Price'].filter((price) => price.item_code === 'MED-GLOVE-M')
+    expect(prices).toHaveLength(2)
+    expect(prices[0]).toMatchObject({ name: 'IP-0001', price_list_rate: 6.5, valid_upto: inDays(9) })
+    expect(prices[1]).toMatchObject({ price_list_rate: 7, valid_from: inDays(10) })
+    expect(await currentGlovePrice()).toMatchObject({ name: prices[1].name })
+  })
+
+  it("corrects a price that hasn't started yet in place", async () => {
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    await saveItemPrice(
+      { item_code: 'MED-GLOVE-M', uom: 'Box', rate: 7, valid_from: inDays(10) },
+      { ...CONTEXT, existing: await currentGlovePrice() }
+    )
+
+    await saveItemPrice(
+      { item_code: 'MED-GLOVE-M', uom: 'Box', rate: 6.9, valid_from: inDays(10) },
+      { ...CONTEXT, existing: await currentGlovePrice() }
+    )
+
+    const prices = backend().fixtures.docs['Item Price'].filter((price) => price.item_code === 'MED-GLOVE-M')
+    expect(prices.map((price) => price.price_list_rate)).toEqual([6.5, 6.9])
+  })
+
+  it('counts the same rate from a new date as a change to save', async () => {
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    const existing = await currentGlovePrice()
+    const items = await fetchItemUoms(['MED-GLOVE-M'])
+    const header = ['Item Code', 'UOM', 'Rate', 'Valid From']
+    const changeFrom = (validFrom: string) => {
+      const sheet = [header, ['MED-GLOVE-M', 'Box', String(existing.price_list_rate), validFrom]]
+      return buildPriceRows(sheet, guessMapping(header), items, [existing])[0].change
+    }
+
+    expect(changeFrom('')).toBe('unchanged')
+    expect(changeFrom(existing.valid_from ?? '')).toBe('unchanged')
+    expect(changeFrom(inDays(10))).toBe('changed')
+  })
+})
@@ -0,0 +1,185 @@
+import { getList, inChunks, insertDoc, updateDoc } from '@/lib/frappe'
+import { addDays, toIsoDate } from '@/lib/calendar'
+import { parseDate } from '@/lib/format'
+
+// Where an uploaded price list goes: straight onto the supplier's buying price
+// list as `Item Price` records, or into a draft `Supplier Quotation` for the
+// buyers to review and accept.
+export const PRICE_UPLOAD_TARGETS = ['item-price', 'quotation'] as const
+
+export type PriceUploadTarget = (typeof PRICE_UPLOAD_TARGETS)[number]
+
+// Used when the Supplier has no default price list of its own
+export const DEFAULT_BUYING_PRICE_LIST = 'Standard Buying'
+
+// Types
+export interface ItemUoms {
+  item_code: string
+  item_name: string
+  stock_uom: string
+  // Stock UOM plus every UOM the item has a conversion factor for
+  uoms: string[]
+}
+
+export interface SupplierPricing {
+  price_list: string
+  currency: string | null
+}
+
+export interface ItemPrice {
+  name: string
+  item_code: string
+  uom: string
+  price_list_rate: number
+  currency: string
+  valid_from: string | null
+  valid_upto: string | null
+}
+
+export interface PriceChange {
+  item_code: string
+  uom: string
+  rate: number
+  valid_from: string | null
+}
+
+interface ItemUomRow {
+  name: string
+  item_name: string
+  stock_uom: string
+  uom: string | null
+}
+
+/** The items among `itemCodes` that exist and are enabled, with the UOMs each can be priced in. */
+export const fetchItemUoms = async (itemCodes: string[], signal?: AbortSignal): Promise<ItemUoms[]> => {
+  const rows = await inChunks(itemCodes, (chunk) =>
+    getList<ItemUomRow>(
+      'Item',
+      {
+        fields: ['name', 'item_name', 'stock_uom', '`tabUOM Conversion Detail`.uom as uom'],
+        filters: [
+          ['name', 'in', chunk],
+          ['disabled', '=', 0],
+        ],
+        limitPageLength: 0,
+      },
+      signal
+    )
+  )
+
+  // The child-table join gives one row per conversion
+  const items = new Map<string, ItemUoms>()
+  rows.forEach((row) => {
+    const item = items.get(row.name) ?? {
+      item_code: row.name,
+      item_name: row.item_name,
+      stock_uom: row.stock_uom,
+      uoms: [row.stock_uom],
+    }
+    if (row.uom && !item.uoms.includes(row.uom)) item.uoms.push(row.uom)
+    items.set(row.name, item)
+  })
+  return [...items.values()]
+}
+
+export const fetchSupplierPricing = async (supplier: string, signal?: AbortSignal): Promise<SupplierPricing> => {
+  const [row] = await getList<{ default_price_list: string | null; default_currency: string | null }>(
+    'Supplier',
+    { fields: ['default_price_list', 'default_currency'], filters: [['name', '=', supplier]], limitPageLength: 1 },
+    signal
+  )
+  return { price_list: row?.default_price_list || DEFAULT_BUYING_PRICE_LIST, currency: row?.default_currency ?? null }
+}
+
+/** The supplier's current and upcoming prices on `priceList` for the given items, newest first. */
+export const fetchCurrentPrices = (
+  priceList: string,
+  supplier: string,
+  itemCodes: string[],
+  signal?: AbortSignal
+): Promise<ItemPrice[]> => {
+  return inChunks(itemCodes, (chunk) =>
+    getList<ItemPrice>(
+      'Item Price',
+      {
+        fields: ['name', 'item_code', 'uom', 'price_list_rate', 'currency', 'valid_from', 'valid_upto'],
+        filters: [
+          ['price_list', '=', priceList],
+          ['supplier', '=', supplier],
+          ['item_code', 'in', chunk],
+        ],
+        orFilters: [
+          ['valid_upto', 'is', 'not set'],
+          ['valid_upto', '>=', toIsoDate(new Date())],
+        ],
+        orderBy: 'valid_from desc',
+        limitPageLength: 0,
+      },
+      signal
+    )
+  )
+}
+
+/** Companies the supplier sells to, most recent first, going by their purchase orders. */
+export const fetchBuyerCompanies = async (signal?: AbortSignal): Promise<string[]> => {
+  const rows = await getList<{ company: string }>(
+    'Purchase Order',
+    { fields: ['company'], filters: [['docstatus', '=', 1]], orderBy: 'transaction_date desc', limitPageLength: 100 },
+    signal
+  )
+  return [...new Set(rows.map((row) => row.company))]
+}
+
+/**
+ * Prices the item from `valid_from`, today when the sheet gives none. A new rate
+ * goes in as its own Item Price and the one it replaces ends the day before, so
+ * the price history stays intact. A price that doesn't start before the new one
+ * has never applied, and is corrected in place instead.
+ */
+export const saveItemPrice = async (
+  change: PriceChange,
+  context: { priceList: string; supplier: string; currency: string | null; existing?: ItemPrice | null }
+): Promise<ItemPrice> => {
+  const { existing } = context
+  const validFrom = change.valid_from || toIsoDate(new Date())
+  if (existing?.valid_from && existing.valid_from >= validFrom) {
+    return updateDoc<ItemPrice>('Item Price', existing.name, { price_list_rate: change.rate, valid_from: validFrom })
+  }
+
+  // Inserted first, so a failure part-way never leaves the item without a price
+  const created = await insertDoc<ItemPrice>('Item Price', {
+    price_list: context.priceList,
+    supplier: context.supplier,
+    item_code: change.item_code,
+    uom: change.uom,
+    price_list_rate: change.rate,
+    valid_from: validFrom,
+    ...(context.currency ? { currency: context.currency } : {}),
+  })
+  if (existing) {
+    await updateDoc<ItemPrice>('Item Price', existing.name, {
+      valid_upto: toIsoDate(addDays(parseDate(validFrom), -1)),
+    })
+  }
+  return created
+}
+
+/** A draft quotation pricing one unit of each item, for the buyers to review. */
+export const createPriceListQuotation = (draft: {
+  supplier: string
+  company: string
+  validTill: string | null
+  changes: PriceChange[]
+}): Promise<{ name: string }> => {
+  return insertDoc<{ name: string }>('Supplier Quotation', {
+    supplier: draft.supplier,
+    company: draft.company,
+    valid_till: draft.validTill,
+    items: draft.changes.map((change) => ({
+      item_code: change.item_code,
+      uom: change.uom,
+      qty: 1,
+      rate: change.rate,
+    })),
+  })
+}
@@ -0,0 +1,63 @@
+import { frappeBlob, getList } from '@/lib/frappe'
+
+// Frappe's built-in format, available for every DocType
+export const STANDARD_PRINT_FORMAT = 'Standard'
+
+export interface PrintOptions {
+  format: string
+  // null prints without a letterhead
+  letterhead: string | null
+}
+
+export interface LetterHead {
+  name: string
+  is_default: 0 | 1
+}
+
+/** Print formats for `doctype`, Standard first. Users who can't list formats just get Standard. */
+export const fetchPrintFormats = async (doctype: string, signal?: AbortSignal): Promise<string[]> => {
+  const rows = await getList<{ name: string }>(
+    'Print Format',
+    {
+      fields: ['name'],
+      filters: [
+        ['doc_type', '=', doctype],
+        ['disabled', '=', 0],
+      ],
+      orderBy: 'name asc',
+      limitPageLength: 0,
+    },
+    signal
+  ).catch(() => [])
+  return [STANDARD_PRINT_FORMAT, ...rows.map((row) => row.name).filter((name) => name !== STANDARD_PRINT_FORMAT)]
+}
+
+export const fetchLetterHeads = (signal?: AbortSignal): Promise<LetterHead[]> => {
+  return getList<LetterHead>(
+    'Letter Head',
+    { fields: ['name', 'is_default'], filters: [['disabled', '=', 0]], orderBy: 'is_default desc, name asc', limitPageLength: 0 },
+    signal
+  ).catch(() => [])
+}
+
+/** Renders one document through a print format, on the user's own session. */
+export const fetchDocumentPdf = (
+  doctype: string,
+  name: string,
+  options: PrintOptions,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  return frappeBlob('/api/method/frappe.utils.print_format.download_pdf', {
+    query: {
+      doctype,
+      name,
+      format: options.format,
+      no_letterhead: options.letterhead ? 0 : 1,
+      letterhead: options.letterhead ?? undefined,
+    },
+    signal,
+  })
+}
+
+// Document names like "ACC-PINV-2025/001" aren't valid file names everywhere
+export const pdfFileName = (name: string): string => `${name.replace(/[\\/:*?"<>|]/g, '-')}.pdf`
@@ -0,0 +1,204 @@
+import { getCount, getDoc, getList, type FrappeFilter, type PagedResult } from '@/lib/frappe'
+import { prefetch } from '@/lib/cache'
+import { toIsoDate } from '@/lib/calendar'
+
+export const PURCHASE_ORDER_STATUSES = [
+  'To Receive and Bill',
+  'To Receive',
+  'To Bill',
+  'Completed',
+  'On Hold',
+  'Closed',
+  'Cancelled',
+] as const
+
+export type PurchaseOrderStatus = (typeof PURCHASE_ORDER_STATUSES)[number] | 'Draft' | 'Delivered'
+
+export interface PurchaseOrderSummary {
+  name: string
+  supplier: string
+  transaction_date: string
+  schedule_date: string | null
+  status: PurchaseOrderStatus
+  per_received: number
+  per_billed: number
+  grand_total: number
+  currency: string
+}
+
+export interface PurchaseOrderItem {
+  name: string
+  idx: number
+  item_code: string
+  item_name: string
+  description: string | null
+  qty: number
+  received_qty: number
+  uom: string
+  rate: number
+  amount: number
+  billed_amt: number
+  schedule_date: string | null
+  warehouse: string | null
+}
+
+export interface PurchaseTaxRow {
+  name: string
+  idx: number
+  charge_type: string
+  account_head: string
+  description: string
+  rate: number
+  tax_amount: number
+  total: number
+}
+
+export interface PurchaseOrder extends PurchaseOrderSummary {
+  supplier_name: string
+  company: string
+  total: number
+  net_total: number
+  total_taxes_and_charges: number
+  discount_amount: number
+  // Whether the discount came off before taxes (Net Total) or after them (Grand Total)
+  apply_discount_on: 'Grand Total' | 'Net Total' | null
+  rounded_total: number
+  terms: string | null
+  items: PurchaseOrderItem[]
+  taxes: PurchaseTaxRow[]
+}
+
+export interface PurchaseOrderListParams {
+  status?: PurchaseOrderStatus | ''
+  search?: string
+  // Only orders with a line past its schedule date and goods still to come
+  overdue?: boolean
+  page: number
+  pageSize: number
+}
+
+const DOCTYPE = 'Purchase Order'
+
+const SUMMARY_FIELDS = [
+  'name',
+  'supplier',
+  'transaction_date',
+  'schedule_date',
+  'status',
+  'per_received',
+  'per_billed',
+  'grand_total',
+  'currency',
+]
+
+// Orders that still have something to deliver
+const OPEN_FOR_DELIVERY_STATUSES: PurchaseOrderStatus[] = ['To Receive and Bill', 'To Receive']
+
+/** Open orders with at least one line due before today, shared with the home page's count. */
+export const overdueFilters = (): FrappeFilter[] => [
+  ['docstatus', '=', 1],
+  ['per_received', '<', 100],
+  ['status', 'in', OPEN_FOR_DELIVERY_STATUSES],
+  ['Purchase Order Item', 'schedule_date', '<', toIsoDate(new Date())],
+]
+
+// Drafts are internal to purchasing; suppliers only ever see submitted orders
+const buildFilters = ({ status, search, overdue }: PurchaseOrderListParams): FrappeFilter[] => {
+  const filters: FrappeFilter[] = [['docstatus', '!=', 0]]
+  if (status) filters.push(['status', '=', status])
+  if (search?.trim()) filters.push(['name', 'like', `%${search.trim()}%`])
+  if (overdue) filters.push(...overdueFilters())
+  return filters
+}
+
+export const fetchPurchaseOrders = async (
+  params: PurchaseOrderListParams,
+  signal?: AbortSignal
+): Promise<PagedResult<PurchaseOrderSummary>> => {
+  const filters = buildFilters(params)
+  const [data, total] = await Promise.all([
+    getList<PurchaseOrderSummary>(
+      DOCTYPE,
+      {
+        fields: SUMMARY_FIELDS,
+        filters,
+        orderBy: 'transaction_date desc, name desc',
+        // The overdue filter joins the items, which would list an order once per late line
+        groupBy: params.overdue ? '`tabPurchase Order`.name' : undefined,
+        limitStart: (params.page - 1) * params.pageSize,
+        limitPageLength: params.pageSize,
+      },
+      signal
+    ),
+    getCount(DOCTYPE, filters, signal),
+  ])
+  return { data, total }
+}
+
+export const fetchPurchaseOrder = (name: string, signal?: AbortSignal): Promise<PurchaseOrder> => {
+  return getDoc<PurchaseOrder>(DOCTYPE, name, signal)
+}
+
+// One pending PO line, as shown on the delivery schedule
+export interface DeliveryLine {
+  purchase_order: string
+  line: string
+  item_code: string
+  item_name: string
+  schedule_date: string
+  qty: number
+  received_qty: number
+  uom: string
+  warehouse: string | null
+}
+
+/** Every line of an open PO that hasn't been fully received, oldest due date first. */
+export const fetchOpenDeliveryLines = async (signal?: AbortSignal): Promise<DeliveryLine[]> => {
+  const lines = await getList<DeliveryLine>(
+    DOCTYPE,
+    {
+      fields: [
+        'name as purchase_order',
+        '`tabPurchase Order Item`.name as line',
+        '`tabPurchase Order Item`.item_code',
+        '`tabPurchase Order Item`.item_name',
+        '`tabPurchase Order Item`.schedule_date',
+        '`tabPurchase Order Item`.qty',
+        '`tabPurchase Order Item`.received_qty',
+        '`tabPurchase Order Item`.uom',
+        '`tabPurchase Order Item`.warehouse',
+      ],
+      filters: [
+        ['docstatus', '=', 1],
+        ['status', 'in', OPEN_FOR_DELIVERY_STATUSES],
+      ],
+      orderBy: '`tabPurchase Order Item`.schedule_date asc',
+      // 0 lifts Frappe's default page size of 20
+      limitPageLength: 0,
+    },
+    signal
+  )
+  // Frappe filters can't compare two columns, so part-received lines are sorted out here
+  return lines.filter((line) => line.received_qty < line.qty)
+}
+
+// Cache keys, shared by the screens and by hover prefetching
+export const purchaseOrdersKey = (params: PurchaseOrderListParams): string => {
+  return `purchase-orders:${JSON.stringify(params)}`
+}
+
+export const purchaseOrderKey = (name: string): string => `purchase-order:${name}`
+
+export const DELIVERY_LINES_KEY = 'delivery-lines'
+
+export const prefetchDeliveryLines = (): void => {
+  prefetch(DELIVERY_LINES_KEY, fetchOpenDeliveryLines, { persist: true })
+}
+
+export const prefetchPurchaseOrders = (params: PurchaseOrderListParams): void => {
+  prefetch(purchaseOrdersKey(params), (signal) => fetchPurchaseOrders(params, signal), { persist: true })
+}
+
+export const prefetchPurchaseOrder = (name: string): void => {
+  prefetch(purchaseOrderKey(name), (signal) => fetchPurchaseOrder(name, signal), { persist: true })
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { fetchQuotationLinks } from './rfq'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { MOCK_EMAIL, MOCK_PASSWORD, setupMockBackend } from '@/test/mockBackend'
+
+describe('RFQ quotations', () => {
+  const backend = setupMockBackend()
+
+  it('links a quotation to an RFQ once however many of its lines were quoted', async () => {
+    const [quotation] = backend().fixtures.docs['Supplier Quotation']
+    const items = quotation.items as Array<Record<string, unknown>>
+    items.push({
+      ...items[0],
+      name: 'PUR-SQTN-0001-item-2',
+      request_for_quotation_item: 'PUR-RFQ-0001-item-2',
+    })
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+
+    await expect(fetchQuotationLinks('Acme Medical Supplies', ['PUR-RFQ-0001'])).resolves.toEqual([
+      { name: 'PUR-SQTN-0001', docstatus: 1, request_for_quotation: 'PUR-RFQ-0001' },
+    ])
+  })
+})
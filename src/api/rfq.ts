@@ -0,0 +1,172 @@
+import { getCount, getDoc, getList, inChunks, insertDoc, updateDoc, type FrappeFilter, type PagedResult } from '@/lib/frappe'
+
+export interface RequestForQuotationSummary {
+  name: string
+  transaction_date: string
+  schedule_date: string | null
+  status: string
+  company: string
+}
+
+export interface RequestForQuotationItem {
+  name: string
+  idx: number
+  item_code: string
+  item_name: string
+  description: string | null
+  qty: number
+  uom: string
+  schedule_date: string | null
+  warehouse: string | null
+}
+
+export interface RequestForQuotation extends RequestForQuotationSummary {
+  message_for_supplier: string | null
+  items: RequestForQuotationItem[]
+}
+
+export interface SupplierQuotationItem {
+  name?: string
+  item_code: string
+  qty: number
+  uom: string
+  rate: number
+  lead_time_days: number
+  description: string | null
+  request_for_quotation: string
+  request_for_quotation_item: string
+}
+
+export interface SupplierQuotation {
+  name: string
+  docstatus: 0 | 1 | 2
+  supplier: string
+  valid_till: string | null
+  terms: string | null
+  items: SupplierQuotationItem[]
+}
+
+// Which of the supplier's quotations answer which RFQ
+export interface RfqQuotationLink {
+  name: string
+  docstatus: 0 | 1 | 2
+  request_for_quotation: string
+}
+
+export interface QuotationDraft {
+  supplier: string
+  company: string
+  valid_till: string | null
+  terms: string | null
+  items: SupplierQuotationItem[]
+}
+
+export interface RfqListParams {
+  supplier: string
+  search?: string
+  page: number
+  pageSize: number
+}
+
+const RFQ_DOCTYPE = 'Request for Quotation'
+const QUOTATION_DOCTYPE = 'Supplier Quotation'
+
+const buildRfqFilters = ({ supplier, search }: RfqListParams): FrappeFilter[] => {
+  const filters: FrappeFilter[] = [
+    ['docstatus', '=', 1],
+    ['Request for Quotation Supplier', 'supplier', '=', supplier],
+  ]
+  if (search?.trim()) filters.push(['name', 'like', `%${search.trim()}%`])
+  return filters
+}
+
+export const fetchRequestsForQuotation = async (
+  params: RfqListParams,
+  signal?: AbortSignal
+): Promise<PagedResult<RequestForQuotationSummary>> => {
+  const filters = buildRfqFilters(params)
+  const [data, total] = await Promise.all([
+    getList<RequestForQuotationSummary>(
+      RFQ_DOCTYPE,
+      {
+        fields: ['name', 'transaction_date', 'schedule_date', 'status', 'company'],
+        filters,
+        orderBy: 'transaction_date desc, name desc',
+        limitStart: (params.page - 1) * params.pageSize,
+        limitPageLength: params.pageSize,
+      },
+      signal
+    ),
+    getCount(RFQ_DOCTYPE, filters, signal),
+  ])
+  return { data, total }
+}
+
+export const fetchRequestForQuotation = (name: string, signal?: AbortSignal): Promise<RequestForQuotation> => {
+  return getDoc<RequestForQuotation>(RFQ_DOCTYPE, name, signal)
+}
+
+/** The supplier's non-cancelled quotations for the given RFQs, one row per RFQ answered. */
+export const fetchQuotationLinks = async (
+  supplier: string,
+  rfqNames: string[],
+  signal?: AbortSignal
+): Promise<RfqQuotationLink[]> => {
+  const rows = await inChunks(rfqNames, (chunk) =>
+    getList<RfqQuotationLink>(
+      QUOTATION_DOCTYPE,
+      {
+        fields: ['name', 'docstatus', '`tabSupplier Quotation Item`.request_for_quotation as request_for_quotation'],
+        filters: [
+          ['supplier', '=', supplier],
+          ['docstatus', '!=', 2],
+          ['Supplier Quotation Item', 'request_for_quotation', 'in', chunk],
+        ],
+        limitPageLength: 0,
+      },
+      signal
+    )
+  )
+  // The child join returns a row per quoted item, so a quotation repeats for each line of the RFQ
+  const links = new Map(rows.map((row) => [`${row.name}\n${row.request_for_quotation}`, row]))
+  return [...links.values()]
+}
+
+export const fetchQuotationForRfq = async (
+  supplier: string,
+  rfqName: string,
+  signal?: AbortSignal
+): Promise<SupplierQuotation | null> => {
+  const [link] = await fetchQuotationLinks(supplier, [rfqName], signal)
+  return link ? getDoc<SupplierQuotation>(QUOTATION_DOCTYPE, link.name, signal) : null
+}
+
+/**
+ * Creates or updates the supplier's quotation. With `submit` the document is
+ * saved with docstatus 1, which submits it in the same request.
+ */
+export const saveQuotation = (
+  draft: QuotationDraft,
+  options: { name?: string; submit?: boolean } = {}
+): Promise<SupplierQuotation> => {
+  const doc = options.submit ? { ...draft, docstatus: 1 } : { ...draft }
+  return options.name
+    ? updateDoc<SupplierQuotation>(QUOTATION_DOCTYPE, options.name, doc)
+    : insertDoc<SupplierQuotation>(QUOTATION_DOCTYPE, doc)
+}
+
+/**
+ * `saveQuotation` for a save queued while offline. The first attempt may have
+ * reached the server before the connection dropped, so the supplier's current
+ * quotation for the RFQ is looked up first: a draft is updated rather than a
+ * second one inserted, and a submitted one means the save already went through.
+ */
+export const replayQuotation = async (
+  draft: QuotationDraft,
+  options: { name?: string; submit?: boolean } = {}
+): Promise<void> => {
+  const rfqName = draft.items[0]?.request_for_quotation
+  const [existing] = rfqName ? await fetchQuotationLinks(draft.supplier, [rfqName]) : []
+  if (existing?.docstatus === 1) return
+  await saveQuotation(draft, { ...options, name: existing?.name ?? options.name })
+}
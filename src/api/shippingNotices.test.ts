@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { createShippingNotice, fetchNotifiedQty } from './shippingNotices'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { MOCK_EMAIL, MOCK_PASSWORD, setupMockBackend } from '@/test/mockBackend'
+
+describe('shipping notices', () => {
+  const backend = setupMockBackend()
+
+  it('sums the qty on open notices per PO line, leaving out cancelled ones', async () => {
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+
+    await expect(fetchNotifiedQty('PUR-ORD-0003')).resolves.toEqual({ 'PUR-ORD-0003-item-1': 100 })
+  })
+
+  it('explains a site without the Advance Shipping Notice DocType', async () => {
+    delete backend().fixtures.docs['Advance Shipping Notice']
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+
+    await expect(fetchNotifiedQty('PUR-ORD-0003')).rejects.toThrow("Shipping notices aren't set up on this site yet")
+    await expect(
+      createShippingNotice({
+        supplier: 'Acme Medical Supplies',
+        purchase_order: 'PUR-ORD-0003',
+        carrier: 'DPD',
+        tracking_number: '',
+        shipment_date: '2026-01-01',
+        expected_arrival: '2026-01-02',
+        notes: '',
+        items: [],
+      })
+    ).rejects.toThrow("Shipping notices aren't set up on this site yet")
+  })
+})
@@ -0,0 +1,99 @@
+import { FrappeError, getList, insertDoc } from '@/lib/frappe'
+import type { PurchaseOrderSummary } from '@/api/purchaseOrders'
+
+// "Advance Shipping Notice" is a custom DocType on the GeriCare site (ERPNext
+// has none): the supplier's heads-up of what is on its way against a PO. It is
+// created as a draft; the receiving team submits it when the goods arrive.
+// Its definition and the permissions it needs are in frappe/README.md.
+export const SHIPPING_NOTICE_DOCTYPE = 'Advance Shipping Notice'
+
+const NOT_SET_UP_MESSAGE = "Shipping notices aren't set up on this site yet. Please email the shipment details to your GeriCare buyer."
+
+// Sites without the custom DocType answer every request for it with a 404
+const explainMissingDocType = (error: unknown): never => {
+  if (error instanceof FrappeError && error.status === 404 && error.excType === 'DoesNotExistError') {
+    throw new FrappeError(NOT_SET_UP_MESSAGE, error.status, error.excType, error.serverMessages)
+  }
+  throw error
+}
+
+// Types
+export interface ShippingNoticeItem {
+  purchase_order_item: string
+  item_code: string
+  item_name: string
+  qty: number
+  uom: string
+  batch_no: string
+  // One serial number per line, as Frappe's Small Text serial fields expect
+  serial_nos: string
+  expiry_date: string | null
+}
+
+export interface ShippingNoticeDraft {
+  supplier: string
+  purchase_order: string
+  carrier: string
+  tracking_number: string
+  shipment_date: string
+  expected_arrival: string
+  notes: string
+  items: ShippingNoticeItem[]
+}
+
+export interface ShippingNotice extends ShippingNoticeDraft {
+  name: string
+  docstatus: 0 | 1 | 2
+}
+
+/** Submitted POs that still have goods to deliver. */
+export const fetchShippableOrders = (signal?: AbortSignal): Promise<PurchaseOrderSummary[]> => {
+  return getList<PurchaseOrderSummary>(
+    'Purchase Order',
+    {
+      fields: ['name', 'supplier', 'transaction_date', 'schedule_date', 'status', 'per_received', 'per_billed', 'grand_total', 'currency'],
+      filters: [
+        ['docstatus', '=', 1],
+        ['per_received', '<', 100],
+        ['status', 'not in', ['Closed', 'On Hold']],
+      ],
+      orderBy: 'schedule_date asc, name asc',
+      limitPageLength: 0,
+    },
+    signal
+  )
+}
+
+/**
+ * Qty per PO line already announced on open (draft) notices. Submitted notices
+ * are left out: they are submitted on arrival, when the receipt has already
+ * moved their qty into the line's `received_qty`.
+ */
+export const fetchNotifiedQty = async (purchaseOrder: string, signal?: AbortSignal): Promise<Record<string, number>> => {
+  const rows = await getList<{ purchase_order_item: string; qty: number }>(
+    SHIPPING_NOTICE_DOCTYPE,
+    {
+      fields: [
+        '`tabAdvance Shipping Notice Item`.purchase_order_item as purchase_order_item',
+        '`tabAdvance Shipping Notice Item`.qty as qty',
+      ],
+      filters: [
+        ['purchase_order', '=', purchaseOrder],
+        ['docstatus', '=', 0],
+      ],
+      limitPageLength: 0,
+    },
+    signal
+  ).catch(explainMissingDocType)
+
+  const notified: Record<string, number> = {}
+  rows.forEach((row) => {
+    if (!row.purchase_order_item) return
+    notified[row.purchase_order_item] = (notified[row.purchase_order_item] ?? 0) + (row.qty || 0)
+  })
+  return notified
+}
+
+export const createShippingNotice = (draft: ShippingNoticeDraft): Promise<ShippingNotice> => {
+  return insertDoc<ShippingNotice>(SHIPPING_NOTICE_DOCTYPE, { ...draft, docstatus: 0 }).catch(explainMissingDocType)
+}
@@ -0,0 +1,25 @@
+import { FrappeError, frappeFetch, portalPagePath } from '@/lib/frappe'
+
+/**
+ * The URL that starts signing in with `provider`, read off Frappe's own login
+ * page. The OAuth `state` in it is issued by the site and expires after two
+ * minutes, so it is fetched just before redirecting. `redirectTo` is where the
+ * site's callback sends the user once the session has started.
+ */
+export const fetchSocialLoginUrl = async (provider: string, redirectTo: string): Promise<string> => {
+  const response = await frappeFetch(portalPagePath(`/login?redirect-to=${encodeURIComponent(redirectTo)}`), {
+    headers: { Accept: 'text/html' },
+  })
+  if (!response.ok) {
+    throw new FrappeError(`Could not start signing in: ${response.status} ${response.statusText}`.trim(), response.status, null, [])
+  }
+
+  // Each Social Login Key renders as `<a class="btn-login-option btn-<name>" href="<auth_url>">`
+  const page = new DOMParser().parseFromString(await response.text(), 'text/html')
+  const link = [...page.querySelectorAll('a.btn-login-option')].find((candidate) =>
+    candidate.classList.contains(`btn-${provider}`)
+  )
+  const href = link?.getAttribute('href')
+  if (!href) throw new FrappeError('This sign-in option is not set up on the site', 404, null, [])
+  return href
+}
@@ -0,0 +1,27 @@
+import { getList } from '@/lib/frappe'
+
+interface ContactSupplierRow {
+  name: string
+  supplier: string
+}
+
+/**
+ * Finds the Supplier the logged-in user belongs to, through the Contact whose
+ * `user` is them and which links to a Supplier. Returns null for users that
+ * aren't a supplier contact (e.g. internal buyers).
+ */
+export const fetchSupplierForUser = async (email: string, signal?: AbortSignal): Promise<string | null> => {
+  const rows = await getList<ContactSupplierRow>(
+    'Contact',
+    {
+      fields: ['name', '`tabDynamic Link`.link_name as supplier'],
+      filters: [
+        ['user', '=', email],
+        ['Dynamic Link', 'link_doctype', '=', 'Supplier'],
+      ],
+      limitPageLength: 1,
+    },
+    signal
+  )
+  return rows[0]?.supplier ?? null
+}
@@ -0,0 +1,124 @@
+import { useCallback } from 'react'
+import { Outlet, useNavigate, useLocation } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import { NativeSelect } from '@/components/ui/native-select'
+import { PendingChanges } from '@/components/ui/offline/PendingChanges'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { getNavigation, isNavEntryActive, prefetchNavEntry } from '@/routes/navigation'
+import { CURRENT_SITE, SITES, switchSite } from '@/lib/sites'
+
+export function AppLayout() {
+  const { user, roles, permissions, logout } = useAuthStore()
+  const navigate = useNavigate()
+  const location = useLocation()
+
+  const navigation = getNavigation(roles, permissions)
+
+  // Handle sidebar link click
+  const handleSidebarClick = useCallback(
+    (href: string, e: React.MouseEvent<HTMLAnchorElement>) => {
+      e.preventDefault()
+      navigate(href, { replace: false })
+    },
+    [navigate]
+  )
+
+  const handleLogout = async () => {
+    await logout()
+    navigate('/login')
+  }
+
+  return (
+    <div className="h-screen flex flex-col bg-background overflow-hidden">
+      {/* Header */}
+      <div className="fixed top-0 left-0 right-0 z-50">
+        <header className="border-b border-border bg-background">
+          <div className="h-14 flex items-center px-4 w-full">
+            <div className="flex-1 flex items-center gap-4 min-w-0">
+              <h1 className="text-lg leading-7 font-semibold m-0 p-0 text-foreground">
+                GeriCare Supplier
+              </h1>
+            </div>
+            <div className="flex items-center gap-4 flex-shrink-0">
+              {/* Sessions are per site; the other site opens on its own login (or session) */}
+              {SITES.length > 1 && (
+                <NativeSelect
+                  aria-label="Site"
+                  className="h-8 w-auto"
+                  value={CURRENT_SITE.id}
+                  onChange={(e) => switchSite(e.target.value)}
+                >
+                  {SITES.map((site) => (
+                    <option key={site.id} value={site.id}>
+                      {site.label}
+                    </option>
+                  ))}
+                </NativeSelect>
+              )}
+              {user?.full_name && (
+                <span className="text-sm leading-5 text-muted-foreground whitespace-nowrap">
+                  Welcome, {user.full_name}
+                </span>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleLogout}
+                className="flex-shrink-0"
+              >
+                Logout
+              </Button>
+            </div>
+          </div>
+        </header>
+      </div>
+
+      {/* Main Layout */}
+      <div className="flex flex-1 pt-14 overflow-hidden">
+        {/* Sidebar */}
+        <aside className="w-64 border-r bg-muted/40 flex-shrink-0 overflow-hidden flex flex-col">
+          <div className="flex-1 overflow-y-auto p-4">
+            <nav className="space-y-4">
+              {navigation.map((section) => (
+                <div key={section.id} className="space-y-1">
+                  <div className="px-3 pb-1 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                    {section.label}
+                  </div>
+                  {section.entries.map((entry) => {
+                    const isActive = isNavEntryActive(entry, location.pathname)
+                    const Icon = entry.icon
+                    return (
+                      <div key={entry.id} className="sidebar-item">
+                        <a
+                          href={entry.href}
+                          onClick={(e) => handleSidebarClick(entry.href, e)}
+                          onMouseEnter={() => prefetchNavEntry(entry)}
+                          onFocus={() => prefetchNavEntry(entry)}
+                          className={`flex items-center gap-2 px-3 py-2 rounded-md text-sm font-medium transition-colors duration-150 ${isActive
+                              ? 'bg-blue-500 text-white'
+                              : 'text-gray-700 hover:bg-gray-100 hover:text-gray-900'
+                            }`}
+                        >
+                          <Icon className="size-4 shrink-0" />
+                          {entry.label}
+                        </a>
+                      </div>
+                    )
+                  })}
+                </div>
+              ))}
+            </nav>
+          </div>
+        </aside>
+
+        {/* Content Area */}
+        <main className="flex-1 overflow-hidden flex flex-col">
+          <PendingChanges />
+          <div className="flex-1 min-h-0 relative">
+            <Outlet />
+          </div>
+        </main>
+      </div>
+    </div>
+  )
+}
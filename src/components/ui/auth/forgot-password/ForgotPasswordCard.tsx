@@ -0,0 +1,87 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { requestPasswordReset } from '@/api/password'
+import { getErrorMessage } from '@/lib/frappe'
+
+export function ForgotPasswordCard() {
+  const [email, setEmail] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      await requestPasswordReset(email)
+      setSentTo(email)
+    } catch (err) {
+      setError(getErrorMessage(err))
+    }
+
+    setIsLoading(false)
+  }
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader>
+        <CardTitle>Reset your password</CardTitle>
+        <CardDescription>
+          Enter the email you log in with and we'll send you a link to choose a new password
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {sentTo ? (
+          // Worded the same whether or not the account exists
+          <div className="p-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-md">
+            If an account exists for {sentTo}, a password reset link is on its way. Check your inbox.
+          </div>
+        ) : (
+          <form id="forgot-password-form" onSubmit={handleSubmit}>
+            <div className="flex flex-col gap-6">
+              {error && (
+                <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+                  {error}
+                </div>
+              )}
+              <div className="grid gap-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="m@example.com"
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </div>
+            </div>
+          </form>
+        )}
+      </CardContent>
+      <CardFooter className="flex-col gap-2">
+        {!sentTo && (
+          <Button type="submit" form="forgot-password-form" className="w-full" disabled={isLoading}>
+            {isLoading ? 'Sending...' : 'Send reset link'}
+          </Button>
+        )}
+        <Button variant="outline" className="w-full" asChild>
+          <Link to="/login">Back to login</Link>
+        </Button>
+      </CardFooter>
+    </Card>
+  )
+}
@@ -1,5 +1,5 @@
-import { useState } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useEffect, useRef, useState } from 'react'
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom'
 import { Button } from '@/components/ui/button'
 import {
   Card,
@@ -11,14 +11,37 @@ import {
 } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { NativeSelect } from '@/components/ui/native-select'
+import { CURRENT_SITE, MOCK_BACKEND, SITES, switchSite } from '@/lib/sites'
+import { SOCIAL_LOGIN_PARAM, SOCIAL_LOGIN_PROVIDERS, socialLoginLabel } from '@/lib/socialLogin'
 import { useAuthStore } from '@/stores/useAuthStore'
+import { APP_HOME_PATH, getReturnPath } from '@/routes/returnPath'
 
 export function SigninCard() {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
-  const [isLoading, setIsLoading] = useState(false)
-  const { login, error, clearError } = useAuthStore()
+  const { login, startSocialLogin, completeSocialLogin, error, clearError } = useAuthStore()
   const navigate = useNavigate()
+  const location = useLocation()
+  const [searchParams] = useSearchParams()
+  // Set when Frappe's social login callback has sent the user back here
+  const returningProvider = searchParams.get(SOCIAL_LOGIN_PARAM)
+  const [isLoading, setIsLoading] = useState(Boolean(returningProvider))
+  const hasCompletedSocialLogin = useRef(false)
+
+  useEffect(() => {
+    if (!returningProvider || hasCompletedSocialLogin.current) return
+    hasCompletedSocialLogin.current = true
+    completeSocialLogin(returningProvider).then((result) => {
+      if (result.success) {
+        navigate(result.returnTo ?? APP_HOME_PATH, { replace: true })
+        return
+      }
+      // Keep the error, drop the parameter so a reload doesn't try again
+      navigate('/login', { replace: true })
+      setIsLoading(false)
+    })
+  }, [returningProvider, completeSocialLogin, navigate])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -28,19 +51,35 @@ export function SigninCard() {
     const result = await login(email, password)
     
     if (result.success) {
-      // Redirect to the resolved home page (normalised in the auth store, defaults to /me)
-      navigate(result.homePage || '/me', { replace: true })
+      // Return to the page the session expired on, else the supplier home
+      navigate(getReturnPath(location.state, APP_HOME_PATH), { replace: true })
     }
     
     setIsLoading(false)
   }
 
+  const handleSocialLogin = async (provider: string) => {
+    setIsLoading(true)
+    clearError()
+
+    // Frappe and the provider take over from here and come back to this page
+    const url = await startSocialLogin(provider, getReturnPath(location.state, APP_HOME_PATH))
+    if (url) {
+      window.location.assign(url)
+      return
+    }
+
+    setIsLoading(false)
+  }
+
   return (
     <Card className="w-full max-w-sm">
       <CardHeader>
         <CardTitle>Login to your account</CardTitle>
         <CardDescription>
-          Enter your email below to login to your account
+          {MOCK_BACKEND
+            ? 'Mock backend: log in as supplier@example.com with password supplier'
+            : 'Enter your email below to login to your account'}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -51,6 +90,19 @@ export function SigninCard() {
                 {error}
               </div>
             )}
+            {SITES.length > 1 && (
+              <div className="grid gap-2">
+                <Label htmlFor="site">Site</Label>
+                {/* Each site has its own login, so switching reloads the app against it */}
+                <NativeSelect id="site" value={CURRENT_SITE.id} onChange={(e) => switchSite(e.target.value)}>
+                  {SITES.map((site) => (
+                    <option key={site.id} value={site.id}>
+                      {site.label}
+                    </option>
+                  ))}
+                </NativeSelect>
+              </div>
+            )}
             <div className="grid gap-2">
               <Label htmlFor="email">Email</Label>
               <Input
@@ -63,7 +115,15 @@ export function SigninCard() {
               />
             </div>
             <div className="grid gap-2">
-              <Label htmlFor="password">Password</Label>
+              <div className="flex items-center">
+                <Label htmlFor="password">Password</Label>
+                <Link
+                  to="/forgot-password"
+                  className="ml-auto text-sm underline-offset-4 hover:underline"
+                >
+                  Forgot password?
+                </Link>
+              </div>
               <Input
                 id="password"
                 type="password"
@@ -82,11 +142,23 @@ export function SigninCard() {
           onClick={handleSubmit}
           disabled={isLoading}
         >
-          {isLoading ? 'Logging in...' : 'Login'}
-        </Button>
-        <Button variant="outline" className="w-full">
-          Login with Google
+          {returningProvider && isLoading
+            ? `Signing in with ${socialLoginLabel(returningProvider)}...`
+            : isLoading
+              ? 'Logging in...'
+              : 'Login'}
         </Button>
+        {SOCIAL_LOGIN_PROVIDERS.map((provider) => (
+          <Button
+            key={provider.id}
+            variant="outline"
+            className="w-full"
+            onClick={() => handleSocialLogin(provider.id)}
+            disabled={isLoading}
+          >
+            Login with {provider.label}
+          </Button>
+        ))}
       </CardFooter>
     </Card>
   )
@@ -0,0 +1,38 @@
+import type { PasswordStrength } from '@/api/password'
+import { STRENGTH_LABELS } from '@/lib/password'
+import { cn } from '@/lib/utils'
+
+interface PasswordStrengthMeterProps {
+  strength: PasswordStrength
+}
+
+const SCORE_COLORS = ['bg-red-500', 'bg-red-500', 'bg-amber-500', 'bg-lime-500', 'bg-green-600']
+
+export function PasswordStrengthMeter({ strength }: PasswordStrengthMeterProps) {
+  const score = Math.max(0, Math.min(4, strength.score))
+
+  return (
+    <div className="grid gap-1.5" aria-live="polite">
+      <div className="flex gap-1">
+        {STRENGTH_LABELS.map((label, index) => (
+          <div
+            key={label}
+            className={cn('h-1.5 flex-1 rounded-full', index <= score ? SCORE_COLORS[score] : 'bg-muted')}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Strength: <span className="font-medium text-foreground">{STRENGTH_LABELS[score]}</span>
+        {!strength.passesPolicy && ' — not accepted by the password policy'}
+      </p>
+      {strength.warning && <p className="text-xs text-amber-700">{strength.warning}</p>}
+      {strength.suggestions.length > 0 && (
+        <ul className="list-disc pl-4 text-xs text-muted-foreground">
+          {strength.suggestions.map((suggestion) => (
+            <li key={suggestion}>{suggestion}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
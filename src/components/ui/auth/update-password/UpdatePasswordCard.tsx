@@ -0,0 +1,132 @@
+import { useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { PasswordStrengthMeter } from './PasswordStrengthMeter'
+import { updatePasswordWithKey } from '@/api/password'
+import { usePasswordStrength } from '@/hooks/usePasswordStrength'
+import { getErrorMessage } from '@/lib/frappe'
+import { MIN_PASSWORD_LENGTH } from '@/lib/password'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { APP_HOME_PATH } from '@/routes/returnPath'
+
+interface UpdatePasswordCardProps {
+  // The key from the emailed link; null when the link was cut short
+  resetKey: string | null
+  // First login of an invited contact rather than a reset
+  isWelcome: boolean
+}
+
+export function UpdatePasswordCard({ resetKey, isWelcome }: UpdatePasswordCardProps) {
+  const [password, setPassword] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const resumeSession = useAuthStore((state) => state.resumeSession)
+  const { strength, isChecking } = usePasswordStrength(password, resetKey)
+  const navigate = useNavigate()
+
+  const isTooShort = password.length < MIN_PASSWORD_LENGTH
+  const isMismatched = confirmation !== '' && confirmation !== password
+  const canSubmit =
+    Boolean(resetKey) && !isTooShort && confirmation === password && strength.passesPolicy && !isChecking
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!resetKey || !canSubmit) return
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      // Frappe signs the user in once the password is set
+      const homePage = await updatePasswordWithKey(resetKey, password)
+      const result = await resumeSession(homePage)
+      if (result.success) {
+        navigate(isWelcome ? '/welcome' : APP_HOME_PATH, { replace: true })
+        return
+      }
+      // The password is set, but the session it started didn't stick
+      setError(useAuthStore.getState().error)
+    } catch (err) {
+      setError(getErrorMessage(err))
+    }
+
+    setIsLoading(false)
+  }
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader>
+        <CardTitle>{isWelcome ? 'Set up your account' : 'Choose a new password'}</CardTitle>
+        <CardDescription>
+          {isWelcome
+            ? 'Welcome to the GeriCare supplier portal. Choose a password to finish setting up your account.'
+            : `Use at least ${MIN_PASSWORD_LENGTH} characters. You'll be logged out everywhere else.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!resetKey ? (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            This link is incomplete. Open the link from your email again, or request a new one.
+          </div>
+        ) : (
+          <form id="update-password-form" onSubmit={handleSubmit}>
+            <div className="flex flex-col gap-6">
+              {error && (
+                <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+                  {error}
+                </div>
+              )}
+              <div className="grid gap-2">
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  required
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+                {password && <PasswordStrengthMeter strength={strength} />}
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="confirm-password">Confirm password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  required
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  aria-invalid={isMismatched}
+                />
+                {isMismatched && <p className="text-xs text-red-600">The passwords don't match</p>}
+              </div>
+            </div>
+          </form>
+        )}
+      </CardContent>
+      <CardFooter className="flex-col gap-2">
+        {resetKey && (
+          <Button type="submit" form="update-password-form" className="w-full" disabled={!canSubmit || isLoading}>
+            {isLoading ? 'Saving...' : isWelcome ? 'Set password and continue' : 'Update password'}
+          </Button>
+        )}
+        {(!resetKey || error) && (
+          <Button variant="outline" className="w-full" asChild>
+            <Link to="/forgot-password">Request a new link</Link>
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  )
+}
@@ -0,0 +1,167 @@
+import { Link } from 'react-router-dom'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { StatusBadge } from '@/components/ui/list/StatusBadge'
+import { toIsoDate, type CalendarView } from '@/lib/calendar'
+import { formatNumber } from '@/lib/format'
+import { cn } from '@/lib/utils'
+import type { DeliveryLine } from '@/api/purchaseOrders'
+
+// Month cells stay compact; the rest is one click away in the day view
+const MONTH_CELL_LIMIT = 3
+
+const WEEKDAY_FORMAT = new Intl.DateTimeFormat(undefined, { weekday: 'short' })
+
+interface DeliveryCalendarProps {
+  view: CalendarView
+  days: Date[]
+  // Month whose days are shown in full; days from neighbouring months are dimmed
+  month: number
+  linesByDay: Map<string, DeliveryLine[]>
+  today: string
+  onSelectDay: (day: Date) => void
+}
+
+const pendingQty = (line: DeliveryLine): number => line.qty - line.received_qty
+
+const orderPath = (line: DeliveryLine): string => `/purchase-orders/${encodeURIComponent(line.purchase_order)}`
+
+function DeliveryLineChip({ line, isOverdue }: { line: DeliveryLine; isOverdue: boolean }) {
+  return (
+    <Link
+      to={orderPath(line)}
+      title={`${line.item_name} (${line.item_code})`}
+      className={cn(
+        'block rounded-md border px-2 py-1 text-xs leading-tight hover:bg-accent',
+        isOverdue ? 'border-red-200 bg-red-50 text-red-700' : 'border-border bg-background'
+      )}
+    >
+      <div className="font-medium truncate">{line.item_name || line.item_code}</div>
+      <div className="text-muted-foreground truncate">
+        {formatNumber(pendingQty(line))} {line.uom} · {line.purchase_order}
+      </div>
+    </Link>
+  )
+}
+
+function DayHeading({ day, today, onSelectDay }: { day: Date; today: string; onSelectDay: (day: Date) => void }) {
+  const isToday = toIsoDate(day) === today
+  return (
+    <button
+      type="button"
+      onClick={() => onSelectDay(day)}
+      className={cn(
+        'flex size-7 items-center justify-center rounded-full text-sm hover:bg-accent',
+        isToday && 'bg-primary text-primary-foreground hover:bg-primary/90'
+      )}
+    >
+      {day.getDate()}
+    </button>
+  )
+}
+
+export function DeliveryCalendar({ view, days, month, linesByDay, today, onSelectDay }: DeliveryCalendarProps) {
+  if (view === 'day') {
+    const lines = linesByDay.get(toIsoDate(days[0])) ?? []
+    return (
+      <Card className="py-0">
+        <CardContent className="px-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="pl-4">Purchase Order</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Warehouse</TableHead>
+                <TableHead className="text-right">Ordered</TableHead>
+                <TableHead className="text-right">Still Due</TableHead>
+                <TableHead className="pr-4">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.length ? (
+                lines.map((line) => (
+                  <TableRow key={line.line}>
+                    <TableCell className="pl-4 font-medium">
+                      <Link to={orderPath(line)} className="text-primary hover:underline">
+                        {line.purchase_order}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{line.item_name}</div>
+                      <div className="text-xs text-muted-foreground">{line.item_code}</div>
+                    </TableCell>
+                    <TableCell>{line.warehouse || '—'}</TableCell>
+                    <TableCell className="text-right">
+                      {formatNumber(line.qty)} {line.uom}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatNumber(pendingQty(line))} {line.uom}
+                    </TableCell>
+                    <TableCell className="pr-4">
+                      <StatusBadge status={line.schedule_date < today ? 'Overdue' : 'Due'} />
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+                    Nothing is due on this day.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-7 overflow-hidden rounded-xl border bg-border gap-px">
+      {days.slice(0, 7).map((day) => (
+        <div key={`heading-${day.getDay()}`} className="bg-muted px-2 py-1 text-xs font-medium text-muted-foreground">
+          {WEEKDAY_FORMAT.format(day)}
+        </div>
+      ))}
+      {days.map((day) => {
+        const isoDate = toIsoDate(day)
+        const lines = linesByDay.get(isoDate) ?? []
+        const isOverdueDay = isoDate < today
+        const visibleLines = view === 'month' ? lines.slice(0, MONTH_CELL_LIMIT) : lines
+        const hiddenCount = lines.length - visibleLines.length
+
+        return (
+          <div
+            key={isoDate}
+            className={cn(
+              'bg-background p-1.5 space-y-1',
+              view === 'month' ? 'min-h-28' : 'min-h-64',
+              view === 'month' && day.getMonth() !== month && 'bg-muted/40 text-muted-foreground'
+            )}
+          >
+            <DayHeading day={day} today={today} onSelectDay={onSelectDay} />
+            {visibleLines.map((line) => (
+              <DeliveryLineChip key={line.line} line={line} isOverdue={isOverdueDay} />
+            ))}
+            {hiddenCount > 0 && (
+              <button
+                type="button"
+                onClick={() => onSelectDay(day)}
+                className="px-2 text-xs text-muted-foreground hover:text-foreground"
+              >
+                +{hiddenCount} more
+              </button>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from 'react'
+import { Download, Printer, Settings2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { PrintOptionsFields } from '@/components/ui/documents/PrintOptionsFields'
+import { useClickOutside } from '@/hooks/useClickOutside'
+import { usePrintOptions } from '@/hooks/usePrintOptions'
+import { fetchDocumentPdf, pdfFileName } from '@/api/printing'
+import { downloadBlob } from '@/lib/export'
+import { getErrorMessage, isAbortError } from '@/lib/frappe'
+import { printPdf } from '@/lib/print'
+
+interface DocumentPrintActionsProps {
+  doctype: string
+  name: string
+}
+
+export function DocumentPrintActions({ doctype, name }: DocumentPrintActionsProps) {
+  const { formats, letterHeads, options, setOptions } = usePrintOptions(doctype)
+  const [isOpen, setIsOpen] = useState(false)
+  const [pending, setPending] = useState<'download' | 'print' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  useClickOutside(containerRef, isOpen || Boolean(error), () => {
+    setIsOpen(false)
+    setError(null)
+  })
+
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const run = async (action: 'download' | 'print') => {
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setPending(action)
+    setError(null)
+    try {
+      const pdf = await fetchDocumentPdf(doctype, name, options, controller.signal)
+      if (action === 'download') downloadBlob(pdf, pdfFileName(name))
+      else printPdf(pdf)
+    } catch (printError) {
+      if (!isAbortError(printError)) setError(getErrorMessage(printError, 'The PDF could not be generated.'))
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null
+      setPending(null)
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative flex gap-2">
+      <Button variant="outline" size="sm" disabled={Boolean(pending)} onClick={() => run('download')}>
+        <Download />
+        {pending === 'download' ? 'Preparing...' : 'Download PDF'}
+      </Button>
+      <Button variant="outline" size="sm" disabled={Boolean(pending)} onClick={() => run('print')}>
+        <Printer />
+        {pending === 'print' ? 'Preparing...' : 'Print'}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon-sm"
+        aria-label="Print settings"
+        aria-expanded={isOpen}
+        onClick={() => setIsOpen((open) => !open)}
+      >
+        <Settings2 />
+      </Button>
+
+      {(isOpen || error) && (
+        <Card className="absolute right-0 top-full z-20 mt-2 w-72 py-4 shadow-lg">
+          <CardContent className="space-y-4 px-4">
+            {error && (
+              <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+            )}
+            {isOpen && (
+              <PrintOptionsFields
+                id={doctype.replace(/\s+/g, '-').toLowerCase()}
+                formats={formats}
+                letterHeads={letterHeads}
+                options={options}
+                onChange={setOptions}
+              />
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from 'react'
+import { FileArchive } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { PrintOptionsFields } from '@/components/ui/documents/PrintOptionsFields'
+import { useClickOutside } from '@/hooks/useClickOutside'
+import { usePrintOptions } from '@/hooks/usePrintOptions'
+import { fetchDocumentPdf, pdfFileName } from '@/api/printing'
+import { toIsoDate } from '@/lib/calendar'
+import { downloadBlob } from '@/lib/export'
+import { getErrorMessage, isAbortError } from '@/lib/frappe'
+import { createZip } from '@/lib/zip'
+
+interface PdfBundleMenuProps {
+  doctype: string
+  names: string[]
+  // Zip name without extension; the date is appended
+  fileName: string
+}
+
+/** Downloads the PDFs of several documents as one zip, or a lone document's PDF as is. */
+export function PdfBundleMenu({ doctype, names, fileName }: PdfBundleMenuProps) {
+  const { formats, letterHeads, options, setOptions } = usePrintOptions(doctype)
+  const [isOpen, setIsOpen] = useState(false)
+  const [progress, setProgress] = useState<number | null>(null)
+  const [failures, setFailures] = useState<string[]>([])
+  const containerRef = useRef<HTMLDivElement>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  useClickOutside(containerRef, isOpen, () => setIsOpen(false))
+
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const handleDownload = async () => {
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setFailures([])
+    setProgress(0)
+    const files: Array<{ name: string; pdf: Blob }> = []
+    const failed: string[] = []
+    try {
+      // One at a time: PDF rendering is heavy on the server
+      for (const [index, name] of names.entries()) {
+        try {
+          const pdf = await fetchDocumentPdf(doctype, name, options, controller.signal)
+          files.push({ name: pdfFileName(name), pdf })
+        } catch (pdfError) {
+          if (isAbortError(pdfError)) throw pdfError
+          failed.push(`${name}: ${getErrorMessage(pdfError, 'The PDF could not be generated.')}`)
+        }
+        setProgress(index + 1)
+      }
+      // A single document needs no zip around it
+      if (names.length === 1 && files.length === 1) {
+        downloadBlob(files[0].pdf, files[0].name)
+      } else if (files.length > 0) {
+        const entries = await Promise.all(
+          files.map(async (file) => ({ name: file.name, data: new Uint8Array(await file.pdf.arrayBuffer()) }))
+        )
+        downloadBlob(createZip(entries), `${fileName}-${toIsoDate(new Date())}.zip`)
+      }
+      setFailures(failed)
+      if (failed.length === 0) setIsOpen(false)
+    } catch (bundleError) {
+      if (!isAbortError(bundleError)) setFailures([getErrorMessage(bundleError)])
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null
+      setProgress(null)
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="outline"
+        disabled={names.length === 0}
+        aria-expanded={isOpen}
+        onClick={() => setIsOpen((open) => !open)}
+      >
+        <FileArchive />
+        Download PDFs{names.length > 0 && ` (${names.length})`}
+      </Button>
+
+      {isOpen && (
+        <Card className="absolute right-0 top-full z-20 mt-2 w-72 py-4 shadow-lg">
+          <CardContent className="space-y-4 px-4">
+            <PrintOptionsFields
+              id={`${fileName}-bundle`}
+              formats={formats}
+              letterHeads={letterHeads}
+              options={options}
+              onChange={setOptions}
+            />
+
+            {failures.length > 0 && (
+              <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md space-y-1">
+                <p>These could not be generated:</p>
+                <ul className="list-disc pl-5">
+                  {failures.map((failure) => (
+                    <li key={failure}>{failure}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {progress !== null ? (
+              <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                <span>
+                  Generated {progress} of {names.length}...
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => controllerRef.current?.abort()}>
+                  Cancel
+                </Button>
+              </div>
+            ) : (
+              <Button className="w-full" onClick={handleDownload}>
+                {names.length === 1 ? 'Download PDF' : 'Download zip'}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
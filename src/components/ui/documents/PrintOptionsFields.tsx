@@ -0,0 +1,47 @@
+import { Label } from '@/components/ui/label'
+import { NativeSelect } from '@/components/ui/native-select'
+import type { LetterHead, PrintOptions } from '@/api/printing'
+
+interface PrintOptionsFieldsProps {
+  id: string
+  formats: string[]
+  letterHeads: LetterHead[]
+  options: PrintOptions
+  onChange: (options: PrintOptions) => void
+}
+
+export function PrintOptionsFields({ id, formats, letterHeads, options, onChange }: PrintOptionsFieldsProps) {
+  return (
+    <>
+      <div className="grid gap-2">
+        <Label htmlFor={`${id}-print-format`}>Print Format</Label>
+        <NativeSelect
+          id={`${id}-print-format`}
+          value={options.format}
+          onChange={(e) => onChange({ ...options, format: e.target.value })}
+        >
+          {formats.map((format) => (
+            <option key={format} value={format}>
+              {format}
+            </option>
+          ))}
+        </NativeSelect>
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor={`${id}-letterhead`}>Letterhead</Label>
+        <NativeSelect
+          id={`${id}-letterhead`}
+          value={options.letterhead ?? ''}
+          onChange={(e) => onChange({ ...options, letterhead: e.target.value || null })}
+        >
+          <option value="">No letterhead</option>
+          {letterHeads.map((letterHead) => (
+            <option key={letterHead.name} value={letterHead.name}>
+              {letterHead.name}
+            </option>
+          ))}
+        </NativeSelect>
+      </div>
+    </>
+  )
+}
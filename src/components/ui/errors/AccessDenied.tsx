@@ -0,0 +1,25 @@
+import { Link } from 'react-router-dom'
+import { ShieldX } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { APP_HOME_PATH } from '@/routes/returnPath'
+
+interface AccessDeniedProps {
+  message?: string
+}
+
+export function AccessDenied({ message }: AccessDeniedProps) {
+  return (
+    <div className="flex flex-col items-center justify-center h-full gap-4 p-6 text-center">
+      <ShieldX className="size-10 text-muted-foreground" />
+      <div className="space-y-1">
+        <h2 className="text-lg font-semibold">You don't have access to this page</h2>
+        <p className="text-sm text-muted-foreground max-w-md">
+          {message || 'Your account is missing the role or permission this page needs. Contact your GeriCare buyer if you think this is a mistake.'}
+        </p>
+      </div>
+      <Button asChild variant="outline">
+        <Link to={APP_HOME_PATH}>Back to Home</Link>
+      </Button>
+    </div>
+  )
+}
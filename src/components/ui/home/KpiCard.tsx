@@ -0,0 +1,32 @@
+import { Link } from 'react-router-dom'
+import { ArrowRight, type LucideIcon } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { cn } from '@/lib/utils'
+
+interface KpiCardProps {
+  title: string
+  value: string
+  description?: string
+  icon: LucideIcon
+  to: string
+  highlight?: boolean
+}
+
+export function KpiCard({ title, value, description, icon: Icon, to, highlight = false }: KpiCardProps) {
+  return (
+    <Card className="gap-3">
+      <CardHeader className="grid-cols-[1fr_auto]">
+        <CardDescription>{title}</CardDescription>
+        <Icon className="size-4 text-muted-foreground" />
+        <CardTitle className={cn('text-2xl', highlight && 'text-red-600')}>{value}</CardTitle>
+      </CardHeader>
+      {description && <CardContent className="text-xs text-muted-foreground">{description}</CardContent>}
+      <CardFooter className="mt-auto">
+        <Link to={to} className="inline-flex items-center gap-1 text-sm text-primary hover:underline">
+          View
+          <ArrowRight className="size-3" />
+        </Link>
+      </CardFooter>
+    </Card>
+  )
+}
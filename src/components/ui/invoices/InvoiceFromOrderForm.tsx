@@ -0,0 +1,217 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { toIsoDate } from '@/lib/calendar'
+import { getErrorMessage } from '@/lib/frappe'
+import { formatCurrency, formatNumber } from '@/lib/format'
+import type { PurchaseOrder } from '@/api/purchaseOrders'
+import {
+  attachInvoicePdf,
+  createPurchaseInvoice,
+  type PurchaseInvoice,
+  type PurchaseInvoiceDraft,
+  type PurchaseInvoiceItem,
+} from '@/api/invoices'
+
+const MAX_PDF_BYTES = 10 * 1024 * 1024
+
+interface InvoiceLine {
+  item: PurchaseInvoiceItem
+  billableQty: number
+}
+
+interface InvoiceFromOrderFormProps {
+  order: PurchaseOrder
+  draft: PurchaseInvoiceDraft
+  onCreated: (invoice: PurchaseInvoice, attachmentError: string | null) => void
+}
+
+// Only goods that have been received can be billed: received qty minus what's already invoiced
+const toInvoiceLines = (order: PurchaseOrder, draft: PurchaseInvoiceDraft): InvoiceLine[] => {
+  return draft.items
+    .map((item) => {
+      const orderItem = order.items.find((row) => row.name === item.po_detail)
+      const billedQty = orderItem && orderItem.rate ? orderItem.billed_amt / orderItem.rate : 0
+      const receivedUnbilled = orderItem ? orderItem.received_qty - billedQty : item.qty
+      return { item, billableQty: Math.max(0, Math.min(item.qty, receivedUnbilled)) }
+    })
+    .filter((line) => line.billableQty > 0)
+}
+
+export function InvoiceFromOrderForm({ order, draft, onCreated }: InvoiceFromOrderFormProps) {
+  const lines = toInvoiceLines(order, draft)
+  const [quantities, setQuantities] = useState<Record<number, string>>(() =>
+    Object.fromEntries(lines.map((line, index) => [index, String(line.billableQty)]))
+  )
+  const [billNo, setBillNo] = useState('')
+  const [billDate, setBillDate] = useState(() => toIsoDate(new Date()))
+  const [pdf, setPdf] = useState<File | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const qtyFor = (index: number) => Number(quantities[index]) || 0
+  const total = lines.reduce((sum, line, index) => sum + qtyFor(index) * line.item.rate, 0)
+
+  const validate = (): string | null => {
+    if (!billNo.trim()) return 'Enter your invoice number.'
+    if (!pdf) return 'Attach the invoice PDF.'
+    if (pdf.type !== 'application/pdf') return 'The attachment must be a PDF.'
+    if (pdf.size > MAX_PDF_BYTES) return 'The PDF must be 10 MB or smaller.'
+    const invalid = lines.findIndex((line, index) => qtyFor(index) < 0 || qtyFor(index) > line.billableQty)
+    if (invalid >= 0) {
+      return `Qty for ${lines[invalid].item.item_code} must be between 0 and ${formatNumber(lines[invalid].billableQty)}.`
+    }
+    if (total <= 0) return 'Bill at least one item.'
+    return null
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const validationError = validate()
+    setError(validationError)
+    if (validationError || !pdf) return
+
+    setIsSubmitting(true)
+    try {
+      const invoice = await createPurchaseInvoice({
+        ...draft,
+        bill_no: billNo.trim(),
+        bill_date: billDate,
+        items: lines
+          .map((line, index) => ({ ...line.item, qty: qtyFor(index) }))
+          .filter((item) => item.qty > 0),
+      })
+
+      // The draft exists at this point; a failed upload is reported but doesn't undo it
+      let attachmentError: string | null = null
+      try {
+        await attachInvoicePdf(invoice.name, pdf)
+      } catch (uploadError) {
+        attachmentError = getErrorMessage(uploadError)
+      }
+      onCreated(invoice, attachmentError)
+    } catch (submitError) {
+      setError(getErrorMessage(submitError))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (lines.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-sm text-muted-foreground">
+          Everything received against {order.name} has already been billed.
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <Card>
+        <CardHeader>
+          <CardTitle>Invoice for {order.name}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="grid gap-2">
+              <Label htmlFor="bill-no">Your Invoice Number</Label>
+              <Input id="bill-no" required value={billNo} onChange={(e) => setBillNo(e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="bill-date">Invoice Date</Label>
+              <Input
+                id="bill-date"
+                type="date"
+                required
+                value={billDate}
+                onChange={(e) => setBillDate(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="invoice-pdf">Invoice PDF</Label>
+              <Input
+                id="invoice-pdf"
+                type="file"
+                accept="application/pdf"
+                required
+                onChange={(e) => setPdf(e.target.files?.[0] ?? null)}
+              />
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">To Bill</TableHead>
+                <TableHead className="w-32">Qty</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((line, index) => (
+                <TableRow key={line.item.po_detail ?? index}>
+                  <TableCell>
+                    <div className="font-medium">{line.item.item_code}</div>
+                    {line.item.item_name !== line.item.item_code && (
+                      <div className="text-muted-foreground">{line.item.item_name}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatNumber(line.billableQty)} {line.item.uom}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={line.billableQty}
+                      step="any"
+                      aria-label={`Qty for ${line.item.item_code}`}
+                      value={quantities[index]}
+                      onChange={(e) => setQuantities((previous) => ({ ...previous, [index]: e.target.value }))}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(line.item.rate, draft.currency)}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(qtyFor(index) * line.item.rate, draft.currency)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={4} className="text-right">
+                  Net Total (before taxes)
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(total, draft.currency)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </CardContent>
+        <CardFooter className="justify-end">
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? 'Submitting...' : 'Create Draft Invoice'}
+          </Button>
+        </CardFooter>
+      </Card>
+    </form>
+  )
+}
@@ -0,0 +1,147 @@
+import { useEffect, useRef, useState } from 'react'
+import { Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { NativeSelect } from '@/components/ui/native-select'
+import { useClickOutside } from '@/hooks/useClickOutside'
+import {
+  EXPORT_FORMATS,
+  exportRows,
+  fetchAllPages,
+  type ExportColumn,
+  type ExportFormat,
+  type PageFetcher,
+} from '@/lib/export'
+import { getErrorMessage, isAbortError } from '@/lib/frappe'
+import { formatNumber } from '@/lib/format'
+
+const FORMAT_LABELS: Record<ExportFormat, string> = { csv: 'CSV', xlsx: 'Excel (XLSX)' }
+
+interface ExportMenuProps<T> {
+  columns: ExportColumn<T>[]
+  // File name without extension; the date is appended
+  fileName: string
+  // Fetches one page of the list with the screen's current filters
+  fetchPage: PageFetcher<T>
+  disabled?: boolean
+}
+
+export function ExportMenu<T>({ columns, fileName, fetchPage, disabled }: ExportMenuProps<T>) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [format, setFormat] = useState<ExportFormat>('xlsx')
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(columns.map((column) => column.key)))
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  useClickOutside(containerRef, isOpen, () => setIsOpen(false))
+
+  // An export still running when the screen goes away is abandoned
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const toggleColumn = (key: string) => {
+    setSelected((previous) => {
+      const next = new Set(previous)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const handleExport = async () => {
+    const controller = new AbortController()
+    controllerRef.current = controller
+    setError(null)
+    setProgress({ loaded: 0, total: 0 })
+    try {
+      const rows = await fetchAllPages(fetchPage, {
+        signal: controller.signal,
+        onProgress: (loaded, total) => setProgress({ loaded, total }),
+      })
+      exportRows(
+        rows,
+        columns.filter((column) => selected.has(column.key)),
+        format,
+        fileName
+      )
+      setIsOpen(false)
+    } catch (exportError) {
+      if (!isAbortError(exportError)) setError(getErrorMessage(exportError))
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null
+      setProgress(null)
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="outline"
+        disabled={disabled}
+        aria-expanded={isOpen}
+        onClick={() => setIsOpen((open) => !open)}
+      >
+        <Download />
+        Export
+      </Button>
+
+      {isOpen && (
+        <Card className="absolute right-0 top-full z-20 mt-2 w-72 py-4 shadow-lg">
+          <CardContent className="space-y-4 px-4">
+            <div className="grid gap-2">
+              <Label htmlFor={`${fileName}-export-format`}>Format</Label>
+              <NativeSelect
+                id={`${fileName}-export-format`}
+                value={format}
+                onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              >
+                {EXPORT_FORMATS.map((option) => (
+                  <option key={option} value={option}>
+                    {FORMAT_LABELS[option]}
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium mb-2">Columns</legend>
+              {columns.map((column) => (
+                <label key={column.key} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    className="size-4 accent-primary"
+                    checked={selected.has(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </fieldset>
+
+            {error && (
+              <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+            )}
+
+            {progress ? (
+              <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                <span>
+                  Fetched {formatNumber(progress.loaded, 0)}
+                  {progress.total > 0 && ` of ${formatNumber(progress.total, 0)}`}...
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => controllerRef.current?.abort()}>
+                  Cancel
+                </Button>
+              </div>
+            ) : (
+              <Button className="w-full" disabled={selected.size === 0} onClick={handleExport}>
+                Download
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+
+type StatusTone = 'pending' | 'done' | 'danger' | 'muted'
+
+// Frappe status strings shared across doctypes, grouped by how urgent they are for a supplier
+const STATUS_TONES: Record<string, StatusTone> = {
+  'To Receive and Bill': 'pending',
+  'To Receive': 'pending',
+  'To Bill': 'pending',
+  Unpaid: 'pending',
+  'Partly Paid': 'pending',
+  Submitted: 'pending',
+  Due: 'pending',
+  'Awaiting Response': 'danger',
+  Draft: 'muted',
+  Completed: 'done',
+  Delivered: 'done',
+  Paid: 'done',
+  Overdue: 'danger',
+  'On Hold': 'danger',
+  Cancelled: 'muted',
+  Closed: 'muted',
+}
+
+const TONE_CLASSES: Record<StatusTone, string> = {
+  pending: 'border-amber-200 bg-amber-50 text-amber-800',
+  done: 'border-green-200 bg-green-50 text-green-800',
+  danger: 'border-red-200 bg-red-50 text-red-700',
+  muted: 'border-border bg-muted text-muted-foreground',
+}
+
+interface StatusBadgeProps {
+  status: string
+  className?: string
+}
+
+export function StatusBadge({ status, className }: StatusBadgeProps) {
+  const tone = STATUS_TONES[status] ?? 'muted'
+  return (
+    <Badge variant="outline" className={cn(TONE_CLASSES[tone], className)}>
+      {status}
+    </Badge>
+  )
+}
@@ -0,0 +1,23 @@
+import { WifiOff } from 'lucide-react'
+import { useOnlineStatus } from '@/hooks/useOnlineStatus'
+import { formatDateTime } from '@/lib/format'
+
+interface OfflineBannerProps {
+  // When the data on screen was fetched; null if nothing has loaded
+  updatedAt: number | null
+}
+
+/** Tells the user the screen can't refresh and how old what they're looking at is. Renders nothing when online. */
+export function OfflineBanner({ updatedAt }: OfflineBannerProps) {
+  const isOnline = useOnlineStatus()
+  if (isOnline) return null
+
+  return (
+    <div className="flex items-center gap-2 p-3 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md">
+      <WifiOff className="size-4 shrink-0" />
+      {updatedAt
+        ? `Offline — showing data from ${formatDateTime(updatedAt)}`
+        : "Offline — this page hasn't been opened on this device before, so there is nothing to show yet."}
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import { CloudUpload, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { useOutboxStore } from '@/stores/useOutboxStore'
+
+/** Lists changes made offline that are waiting to be sent, and any the server rejected on replay. */
+export function PendingChanges() {
+  const { entries: allEntries, isReplaying, dismiss } = useOutboxStore()
+  const email = useAuthStore((state) => state.user?.email)
+  const entries = allEntries.filter((entry) => entry.owner === email)
+  if (entries.length === 0) return null
+
+  const queued = entries.filter((entry) => !entry.error)
+  const failed = entries.filter((entry) => entry.error)
+
+  return (
+    <div className="space-y-2 px-6 pt-4">
+      {queued.length > 0 && (
+        <div className="flex items-center gap-2 p-3 text-sm text-blue-800 bg-blue-50 border border-blue-200 rounded-md">
+          <CloudUpload className="size-4 shrink-0" />
+          {isReplaying
+            ? 'Sending changes made while offline...'
+            : `${queued.length} change${queued.length === 1 ? '' : 's'} waiting to be sent: ${queued
+                .map((entry) => entry.label)
+                .join(', ')}. They will be sent when you're back online.`}
+        </div>
+      )}
+      {failed.map((entry) => (
+        <div
+          key={entry.id}
+          className="flex items-start gap-2 p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md"
+        >
+          <div className="flex-1">
+            {entry.label} could not be sent: {entry.error}
+          </div>
+          <Button variant="ghost" size="icon" className="size-6" onClick={() => dismiss(entry.id)} aria-label="Dismiss">
+            <X className="size-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { formatCurrency } from '@/lib/format'
+import { cn } from '@/lib/utils'
+import type { AgeingBucket } from '@/lib/ageing'
+
+interface AgeingSummaryProps {
+  buckets: AgeingBucket[]
+  currency: string | null
+  // Names the currency above the cards when the summary is one of several
+  showCurrency?: boolean
+}
+
+export function AgeingSummary({ buckets, currency, showCurrency = false }: AgeingSummaryProps) {
+  return (
+    <div className="space-y-2">
+      {showCurrency && <h3 className="text-sm font-medium">{currency}</h3>}
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {buckets.map((bucket) => (
+          <Card key={bucket.label} className="gap-2 py-4">
+            <CardHeader className="px-4">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{bucket.label}</CardTitle>
+            </CardHeader>
+            <CardContent className="px-4">
+              <div className={cn('text-lg font-semibold', bucket.minDays > 60 && bucket.amount > 0 && 'text-red-600')}>
+                {formatCurrency(bucket.amount, currency)}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {bucket.count} {bucket.count === 1 ? 'invoice' : 'invoices'}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+import { useEffect, useRef } from 'react'
+
+interface PortalContentProps {
+  html: string
+  styles: string
+  stylesheetUrls: string[]
+  onClick?: (e: MouseEvent) => void
+  className?: string
+}
+
+/**
+ * Renders proxied portal markup inside a shadow root, so the portal's
+ * Bootstrap CSS only applies to the content pane and the app's Tailwind
+ * styles don't reach into it either. `html` must already be sanitized.
+ */
+export function PortalContent({ html, styles, stylesheetUrls, onClick, className }: PortalContentProps) {
+  const hostRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const host = hostRef.current
+    if (!host) return
+
+    // The root survives re-renders (and StrictMode's double effects); only its children are swapped
+    const root = host.shadowRoot ?? host.attachShadow({ mode: 'open' })
+
+    // Linked stylesheets load inside the root too, so they are scoped the same way
+    const links = stylesheetUrls.map((url) => {
+      const link = document.createElement('link')
+      link.rel = 'stylesheet'
+      link.href = url
+      return link
+    })
+
+    const style = document.createElement('style')
+    style.textContent = styles
+
+    const content = document.createElement('div')
+    content.className = 'portal-content'
+    content.innerHTML = html
+
+    root.replaceChildren(...links, style, content)
+  }, [html, styles, stylesheetUrls])
+
+  // Listening on the root keeps the original target; the host only sees itself after retargeting
+  useEffect(() => {
+    const root = hostRef.current?.shadowRoot
+    if (!root || !onClick) return
+
+    const handleClick = (e: Event) => onClick(e as MouseEvent)
+    root.addEventListener('click', handleClick)
+    return () => root.removeEventListener('click', handleClick)
+  }, [html, onClick])
+
+  return <div ref={hostRef} className={className} />
+}
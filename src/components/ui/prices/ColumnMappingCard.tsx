@@ -0,0 +1,86 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { NativeSelect } from '@/components/ui/native-select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { PRICE_FIELDS, type ColumnMapping, type PriceField } from '@/lib/priceUpload'
+
+// Enough sample rows to recognise the columns without scrolling
+const SAMPLE_ROWS = 3
+
+interface ColumnMappingCardProps {
+  headers: string[]
+  rows: string[][]
+  mapping: ColumnMapping
+  onChange: (mapping: ColumnMapping) => void
+}
+
+export function ColumnMappingCard({ headers, rows, mapping, onChange }: ColumnMappingCardProps) {
+  const samples = rows.filter((row) => row.some(Boolean)).slice(0, SAMPLE_ROWS)
+
+  const setColumn = (field: PriceField, value: string) => {
+    onChange({ ...mapping, [field]: value === '' ? null : Number(value) })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Match your columns</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-4">
+          {PRICE_FIELDS.map((field) => (
+            <div key={field.key} className="grid gap-2">
+              <Label htmlFor={`mapping-${field.key}`}>
+                {field.label}
+                {!field.required && <span className="text-muted-foreground font-normal">(optional)</span>}
+              </Label>
+              <NativeSelect
+                id={`mapping-${field.key}`}
+                value={mapping[field.key] ?? ''}
+                onChange={(e) => setColumn(field.key, e.target.value)}
+              >
+                <option value="">{field.required ? 'Select a column' : 'Not in my file'}</option>
+                {headers.map((header, index) => (
+                  <option key={index} value={index}>
+                    {header || `Column ${index + 1}`}
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+          ))}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {PRICE_FIELDS.map((field) => (
+                <TableHead key={field.key}>{field.label}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {samples.map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {PRICE_FIELDS.map((field) => {
+                  const column = mapping[field.key]
+                  return (
+                    <TableCell key={field.key} className={column === null ? 'text-muted-foreground' : undefined}>
+                      {column === null ? '—' : row[column] || '—'}
+                    </TableCell>
+                  )
+                })}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
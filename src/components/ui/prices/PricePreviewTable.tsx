@@ -0,0 +1,100 @@
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Badge } from '@/components/ui/badge'
+import { formatCurrency, formatDate, formatNumber } from '@/lib/format'
+import { cn } from '@/lib/utils'
+import type { PriceRow, PriceRowChange } from '@/lib/priceUpload'
+
+const CHANGE_LABELS: Record<PriceRowChange, string> = { new: 'New', changed: 'Changed', unchanged: 'Unchanged' }
+
+interface PricePreviewTableProps {
+  rows: PriceRow[]
+  currency: string | null
+}
+
+const changePercent = (row: PriceRow): string | null => {
+  if (row.change !== 'changed' || !row.current?.price_list_rate || row.rate === null) return null
+  const percent = ((row.rate - row.current.price_list_rate) / row.current.price_list_rate) * 100
+  return `${percent > 0 ? '+' : ''}${formatNumber(percent, 1)}%`
+}
+
+export function PricePreviewTable({ rows, currency }: PricePreviewTableProps) {
+  return (
+    <Card className="py-0">
+      <CardContent className="px-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="pl-4 w-16">Row</TableHead>
+              <TableHead>Item</TableHead>
+              <TableHead>UOM</TableHead>
+              <TableHead className="text-right">Current</TableHead>
+              <TableHead className="text-right">New</TableHead>
+              <TableHead className="text-right">Change</TableHead>
+              <TableHead>Valid From</TableHead>
+              <TableHead className="pr-4">Result</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => {
+              const percent = changePercent(row)
+              return (
+                <TableRow
+                  key={row.rowNumber}
+                  className={cn('align-top', row.errors.length > 0 && 'bg-red-50 hover:bg-red-50')}
+                >
+                  <TableCell className="pl-4 text-muted-foreground">{row.rowNumber}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{row.item_code || '—'}</div>
+                    {row.item_name && row.item_name !== row.item_code && (
+                      <div className="text-muted-foreground">{row.item_name}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{row.uom || '—'}</TableCell>
+                  <TableCell className="text-right">
+                    {row.current ? formatCurrency(row.current.price_list_rate, row.current.currency) : '—'}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {row.rate === null ? '—' : formatCurrency(row.rate, row.current?.currency ?? currency)}
+                  </TableCell>
+                  <TableCell
+                    className={cn(
+                      'text-right',
+                      percent?.startsWith('+') && 'text-red-700',
+                      percent?.startsWith('-') && 'text-green-700'
+                    )}
+                  >
+                    {percent ?? '—'}
+                  </TableCell>
+                  <TableCell>{formatDate(row.valid_from)}</TableCell>
+                  <TableCell className="pr-4 whitespace-normal">
+                    {row.errors.length > 0 ? (
+                      <ul className="space-y-1 text-red-700">
+                        {row.errors.map((error) => (
+                          <li key={error}>{error}</li>
+                        ))}
+                      </ul>
+                    ) : (
+                      row.change && (
+                        <Badge variant={row.change === 'unchanged' ? 'outline' : 'secondary'}>
+                          {CHANGE_LABELS[row.change]}
+                        </Badge>
+                      )
+                    )}
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
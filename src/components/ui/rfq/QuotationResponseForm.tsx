@@ -0,0 +1,294 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { useAccess } from '@/hooks/useAccess'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { useOutboxStore } from '@/stores/useOutboxStore'
+import { FrappeError, getErrorMessage } from '@/lib/frappe'
+import { formatDate, formatNumber } from '@/lib/format'
+import {
+  saveQuotation,
+  type QuotationDraft,
+  type RequestForQuotation,
+  type SupplierQuotation,
+} from '@/api/rfq'
+
+interface ItemResponse {
+  rate: string
+  leadTimeDays: string
+  notes: string
+}
+
+interface QuotationResponseFormProps {
+  rfq: RequestForQuotation
+  supplier: string
+  quotation: SupplierQuotation | null
+  onSaved: (quotation: SupplierQuotation) => void
+  // Called instead of `onSaved` when there was no connection and the save was queued
+  onQueued: (submit: boolean) => void
+}
+
+// Frappe prefixes child-table validation messages with "Row #<idx>:"
+const ROW_MESSAGE_PATTERN = /^Row\s*#?\s*(\d+)\s*:?\s*/i
+
+const splitServerErrors = (error: unknown): { rows: Record<number, string>; general: string[] } => {
+  const rows: Record<number, string> = {}
+  const general: string[] = []
+  const messages =
+    error instanceof FrappeError && error.serverMessages.length > 0
+      ? error.serverMessages
+      : [getErrorMessage(error)]
+
+  messages.forEach((message) => {
+    const match = message.match(ROW_MESSAGE_PATTERN)
+    if (match) {
+      rows[Number(match[1])] = message.slice(match[0].length)
+    } else {
+      general.push(message)
+    }
+  })
+  return { rows, general }
+}
+
+const initialResponses = (
+  rfq: RequestForQuotation,
+  quotation: SupplierQuotation | null
+): Record<string, ItemResponse> => {
+  const responses: Record<string, ItemResponse> = {}
+  rfq.items.forEach((item) => {
+    const quoted = quotation?.items.find((row) => row.request_for_quotation_item === item.name)
+    // The quotation row's description doubles as the supplier's notes once it differs from the RFQ's
+    const notes = quoted?.description && quoted.description !== item.description ? quoted.description : ''
+    responses[item.name] = {
+      rate: quoted ? String(quoted.rate) : '',
+      leadTimeDays: quoted ? String(quoted.lead_time_days ?? '') : '',
+      notes,
+    }
+  })
+  return responses
+}
+
+export function QuotationResponseForm({ rfq, supplier, quotation, onSaved, onQueued }: QuotationResponseFormProps) {
+  const [responses, setResponses] = useState(() => initialResponses(rfq, quotation))
+  const [validTill, setValidTill] = useState(quotation?.valid_till ?? '')
+  const [terms, setTerms] = useState(quotation?.terms ?? '')
+  const [rowErrors, setRowErrors] = useState<Record<number, string>>({})
+  const [formErrors, setFormErrors] = useState<string[]>([])
+  const [savingAction, setSavingAction] = useState<'draft' | 'submit' | null>(null)
+
+  const { can } = useAccess()
+  const enqueue = useOutboxStore((state) => state.enqueue)
+  const userEmail = useAuthStore((state) => state.user?.email ?? '')
+  const canSave = can('Supplier Quotation', quotation ? 'write' : 'create')
+  const canSubmit = canSave && can('Supplier Quotation', 'submit')
+  // Read-only contacts see the RFQ and any existing quotation, but can't change it
+  const isReadOnly = quotation?.docstatus === 1 || !canSave
+
+  const updateResponse = (itemName: string, changes: Partial<ItemResponse>) => {
+    setResponses((previous) => ({ ...previous, [itemName]: { ...previous[itemName], ...changes } }))
+  }
+
+  // Drafts may be incomplete; submitting needs a valid rate on every line
+  const validate = (submit: boolean): Record<number, string> => {
+    const errors: Record<number, string> = {}
+    rfq.items.forEach((item) => {
+      const response = responses[item.name]
+      const rate = Number(response.rate)
+      const leadTime = Number(response.leadTimeDays)
+      if (response.rate && (Number.isNaN(rate) || rate < 0)) {
+        errors[item.idx] = 'Rate must be a positive number'
+      } else if (submit && !(rate > 0)) {
+        errors[item.idx] = 'Enter a rate before submitting'
+      } else if (response.leadTimeDays && (!Number.isInteger(leadTime) || leadTime < 0)) {
+        errors[item.idx] = 'Lead time must be a whole number of days'
+      }
+    })
+    return errors
+  }
+
+  const buildDraft = (): QuotationDraft => ({
+    supplier,
+    company: rfq.company,
+    valid_till: validTill || null,
+    terms: terms || null,
+    items: rfq.items.map((item) => {
+      const response = responses[item.name]
+      return {
+        item_code: item.item_code,
+        qty: item.qty,
+        uom: item.uom,
+        rate: Number(response.rate) || 0,
+        lead_time_days: Number(response.leadTimeDays) || 0,
+        description: response.notes.trim() || item.description,
+        request_for_quotation: rfq.name,
+        request_for_quotation_item: item.name,
+      }
+    }),
+  })
+
+  const queueSave = (submit: boolean) => {
+    enqueue(userEmail, `Quotation for ${rfq.name}`, {
+      kind: 'save-quotation',
+      draft: buildDraft(),
+      name: quotation?.name,
+      submit,
+    })
+    onQueued(submit)
+  }
+
+  const handleSave = async (submit: boolean) => {
+    const errors = validate(submit)
+    setRowErrors(errors)
+    setFormErrors([])
+    if (Object.keys(errors).length > 0) return
+
+    if (!navigator.onLine) {
+      queueSave(submit)
+      return
+    }
+
+    setSavingAction(submit ? 'submit' : 'draft')
+    try {
+      const saved = await saveQuotation(buildDraft(), { name: quotation?.name, submit })
+      onSaved(saved)
+    } catch (error) {
+      // Went offline mid-request. The server may still have saved it, which the replay checks for
+      if (error instanceof TypeError && !navigator.onLine) {
+        queueSave(submit)
+        return
+      }
+      const { rows, general } = splitServerErrors(error)
+      setRowErrors(rows)
+      setFormErrors(general)
+    } finally {
+      setSavingAction(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{quotation?.docstatus === 1 ? 'Your Quotation' : 'Your Response'}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {formErrors.length > 0 && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md space-y-1">
+            {formErrors.map((message) => (
+              <p key={message}>{message}</p>
+            ))}
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead className="text-right">Qty</TableHead>
+              <TableHead>Required By</TableHead>
+              <TableHead className="w-32">Rate</TableHead>
+              <TableHead className="w-28">Lead Time (days)</TableHead>
+              <TableHead>Notes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rfq.items.map((item) => {
+              const response = responses[item.name]
+              const rowError = rowErrors[item.idx]
+              return (
+                <TableRow key={item.name} className="align-top">
+                  <TableCell>
+                    <div className="font-medium">{item.item_code}</div>
+                    {item.item_name !== item.item_code && (
+                      <div className="text-muted-foreground">{item.item_name}</div>
+                    )}
+                    {rowError && <div className="mt-1 text-xs text-red-600 whitespace-normal">{rowError}</div>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatNumber(item.qty)} {item.uom}
+                  </TableCell>
+                  <TableCell>{formatDate(item.schedule_date)}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="any"
+                      aria-label={`Rate for ${item.item_code}`}
+                      aria-invalid={Boolean(rowError)}
+                      disabled={isReadOnly}
+                      value={response.rate}
+                      onChange={(e) => updateResponse(item.name, { rate: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="1"
+                      aria-label={`Lead time for ${item.item_code}`}
+                      disabled={isReadOnly}
+                      value={response.leadTimeDays}
+                      onChange={(e) => updateResponse(item.name, { leadTimeDays: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      aria-label={`Notes for ${item.item_code}`}
+                      disabled={isReadOnly}
+                      value={response.notes}
+                      onChange={(e) => updateResponse(item.name, { notes: e.target.value })}
+                    />
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+
+        <div className="grid gap-4 md:grid-cols-[12rem_1fr]">
+          <div className="grid gap-2">
+            <Label htmlFor="valid-till">Valid Till</Label>
+            <Input
+              id="valid-till"
+              type="date"
+              disabled={isReadOnly}
+              value={validTill}
+              onChange={(e) => setValidTill(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="terms">Terms and Notes</Label>
+            <Textarea
+              id="terms"
+              disabled={isReadOnly}
+              value={terms}
+              onChange={(e) => setTerms(e.target.value)}
+            />
+          </div>
+        </div>
+      </CardContent>
+      {!isReadOnly && (
+        <CardFooter className="justify-end gap-2">
+          <Button variant="outline" disabled={savingAction !== null} onClick={() => handleSave(false)}>
+            {savingAction === 'draft' ? 'Saving...' : 'Save Draft'}
+          </Button>
+          {canSubmit && (
+            <Button disabled={savingAction !== null} onClick={() => handleSave(true)}>
+              {savingAction === 'submit' ? 'Submitting...' : 'Submit Quotation'}
+            </Button>
+          )}
+        </CardFooter>
+      )}
+    </Card>
+  )
+}
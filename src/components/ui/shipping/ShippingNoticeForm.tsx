@@ -0,0 +1,268 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { getErrorMessage } from '@/lib/frappe'
+import { formatDate, formatNumber } from '@/lib/format'
+import { toIsoDate } from '@/lib/calendar'
+import type { PurchaseOrder, PurchaseOrderItem } from '@/api/purchaseOrders'
+import { createShippingNotice, type ShippingNotice } from '@/api/shippingNotices'
+
+interface LineInput {
+  qty: string
+  batchNo: string
+  serialNos: string
+  expiryDate: string
+}
+
+interface ShippingNoticeFormProps {
+  order: PurchaseOrder
+  // PO line → qty on open notices, which mustn't be announced twice
+  notifiedQty: Record<string, number>
+  onCreated: (notice: ShippingNotice) => void
+}
+
+// Suppliers paste serial numbers from spreadsheets and labels, so any separator goes
+const parseSerialNos = (value: string): string[] => {
+  return value
+    .split(/[\s,;]+/)
+    .map((serial) => serial.trim())
+    .filter(Boolean)
+}
+
+export function ShippingNoticeForm({ order, notifiedQty, onCreated }: ShippingNoticeFormProps) {
+  const pendingQty = (item: PurchaseOrderItem): number =>
+    Math.max(0, item.qty - item.received_qty - (notifiedQty[item.name] ?? 0))
+  const items = order.items.filter((item) => pendingQty(item) > 0)
+  const [lines, setLines] = useState<Record<string, LineInput>>(() =>
+    Object.fromEntries(
+      items.map((item) => [item.name, { qty: String(pendingQty(item)), batchNo: '', serialNos: '', expiryDate: '' }])
+    )
+  )
+  const [carrier, setCarrier] = useState('')
+  const [trackingNumber, setTrackingNumber] = useState('')
+  const [shipmentDate, setShipmentDate] = useState(() => toIsoDate(new Date()))
+  const [expectedArrival, setExpectedArrival] = useState('')
+  const [notes, setNotes] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const qtyFor = (item: PurchaseOrderItem) => Number(lines[item.name].qty) || 0
+
+  const updateLine = (itemName: string, changes: Partial<LineInput>) => {
+    setLines((previous) => ({ ...previous, [itemName]: { ...previous[itemName], ...changes } }))
+  }
+
+  const validate = (): string | null => {
+    if (!carrier.trim()) return 'Enter the carrier.'
+    if (!expectedArrival) return 'Enter the expected arrival date.'
+    if (expectedArrival < shipmentDate) return 'The expected arrival cannot be before the shipment date.'
+
+    for (const item of items) {
+      const qty = qtyFor(item)
+      const line = lines[item.name]
+      if (qty < 0 || qty > pendingQty(item)) {
+        return `Qty for ${item.item_code} must be between 0 and ${formatNumber(pendingQty(item))}.`
+      }
+      if (qty === 0) continue
+      const serialCount = parseSerialNos(line.serialNos).length
+      if (serialCount > 0 && serialCount !== qty) {
+        return `${item.item_code} has ${serialCount} serial numbers for a qty of ${formatNumber(qty)}.`
+      }
+      // Short-dated stock is rejected at the door, so catch it before it ships
+      if (line.expiryDate && line.expiryDate <= expectedArrival) {
+        return `${item.item_code} expires on ${formatDate(line.expiryDate)}, before it arrives.`
+      }
+    }
+    if (!items.some((item) => qtyFor(item) > 0)) return 'Ship at least one item.'
+    return null
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const validationError = validate()
+    setError(validationError)
+    if (validationError) return
+
+    setIsSubmitting(true)
+    try {
+      const notice = await createShippingNotice({
+        supplier: order.supplier,
+        purchase_order: order.name,
+        carrier: carrier.trim(),
+        tracking_number: trackingNumber.trim(),
+        shipment_date: shipmentDate,
+        expected_arrival: expectedArrival,
+        notes: notes.trim(),
+        items: items
+          .filter((item) => qtyFor(item) > 0)
+          .map((item) => ({
+            purchase_order_item: item.name,
+            item_code: item.item_code,
+            item_name: item.item_name,
+            qty: qtyFor(item),
+            uom: item.uom,
+            batch_no: lines[item.name].batchNo.trim(),
+            serial_nos: parseSerialNos(lines[item.name].serialNos).join('\n'),
+            expiry_date: lines[item.name].expiryDate || null,
+          })),
+      })
+      onCreated(notice)
+    } catch (submitError) {
+      setError(getErrorMessage(submitError))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (items.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-sm text-muted-foreground">
+          Everything ordered on {order.name} has already been received or announced on an open shipping notice.
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <Card>
+        <CardHeader>
+          <CardTitle>Shipment against {order.name}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {error && (
+            <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="grid gap-2">
+              <Label htmlFor="carrier">Carrier</Label>
+              <Input id="carrier" required value={carrier} onChange={(e) => setCarrier(e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="tracking-number">Tracking Number</Label>
+              <Input
+                id="tracking-number"
+                value={trackingNumber}
+                onChange={(e) => setTrackingNumber(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="shipment-date">Shipped On</Label>
+              <Input
+                id="shipment-date"
+                type="date"
+                required
+                value={shipmentDate}
+                onChange={(e) => setShipmentDate(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="expected-arrival">Expected Arrival</Label>
+              <Input
+                id="expected-arrival"
+                type="date"
+                required
+                min={shipmentDate}
+                value={expectedArrival}
+                onChange={(e) => setExpectedArrival(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Still Due</TableHead>
+                <TableHead className="w-28">Qty Shipped</TableHead>
+                <TableHead className="w-36">Batch No</TableHead>
+                <TableHead className="w-48">Serial Numbers</TableHead>
+                <TableHead className="w-40">Expiry Date</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => {
+                const line = lines[item.name]
+                return (
+                  <TableRow key={item.name}>
+                    <TableCell>
+                      <div className="font-medium">{item.item_code}</div>
+                      {item.item_name !== item.item_code && (
+                        <div className="text-muted-foreground">{item.item_name}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatNumber(pendingQty(item))} {item.uom}
+                      {notifiedQty[item.name] > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatNumber(notifiedQty[item.name])} on open notices
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        max={pendingQty(item)}
+                        step="any"
+                        aria-label={`Qty shipped for ${item.item_code}`}
+                        value={line.qty}
+                        onChange={(e) => updateLine(item.name, { qty: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        aria-label={`Batch number for ${item.item_code}`}
+                        value={line.batchNo}
+                        onChange={(e) => updateLine(item.name, { batchNo: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        aria-label={`Serial numbers for ${item.item_code}`}
+                        placeholder="Separate with commas"
+                        value={line.serialNos}
+                        onChange={(e) => updateLine(item.name, { serialNos: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="date"
+                        aria-label={`Expiry date for ${item.item_code}`}
+                        value={line.expiryDate}
+                        onChange={(e) => updateLine(item.name, { expiryDate: e.target.value })}
+                      />
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+
+          <div className="grid gap-2">
+            <Label htmlFor="shipment-notes">Notes for Receiving</Label>
+            <Textarea id="shipment-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </CardContent>
+        <CardFooter className="justify-end">
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? 'Sending...' : 'Send Shipping Notice'}
+          </Button>
+        </CardFooter>
+      </Card>
+    </form>
+  )
+}
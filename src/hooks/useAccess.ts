@@ -0,0 +1,18 @@
+import { useCallback } from 'react'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { hasAccess, hasPermission, type AccessRule } from '@/routes/access'
+import type { PermissionType } from '@/api/permissions'
+
+/** Role and DocType permission checks against the logged-in user. */
+export function useAccess() {
+  const roles = useAuthStore((state) => state.roles)
+  const permissions = useAuthStore((state) => state.permissions)
+
+  const can = useCallback(
+    (doctype: string, permType: PermissionType) => hasPermission(permissions, doctype, permType),
+    [permissions]
+  )
+  const canAccess = useCallback((rule?: AccessRule) => hasAccess(rule, roles, permissions), [roles, permissions])
+
+  return { can, canAccess }
+}
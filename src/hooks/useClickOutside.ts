@@ -0,0 +1,19 @@
+import { useEffect, useRef, type RefObject } from 'react'
+
+/** Calls `onOutside` for pointer presses outside `ref` while `isActive`, e.g. to close a menu. */
+export function useClickOutside(ref: RefObject<HTMLElement | null>, isActive: boolean, onOutside: () => void) {
+  // Kept in a ref so an inline callback doesn't resubscribe on every render
+  const onOutsideRef = useRef(onOutside)
+  useEffect(() => {
+    onOutsideRef.current = onOutside
+  })
+
+  useEffect(() => {
+    if (!isActive) return
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!ref.current?.contains(event.target as Node)) onOutsideRef.current()
+    }
+    document.addEventListener('pointerdown', handlePointerDown)
+    return () => document.removeEventListener('pointerdown', handlePointerDown)
+  }, [ref, isActive])
+}
@@ -0,0 +1,12 @@
+import { useAuthStore } from '@/stores/useAuthStore'
+import { useFrappeQuery } from '@/hooks/useFrappeQuery'
+import { fetchSupplierForUser } from '@/api/supplier'
+
+/** The Supplier linked to the logged-in user's Contact, or null if there is none. */
+export function useCurrentSupplier() {
+  const email = useAuthStore((state) => state.user?.email ?? null)
+  const { data, error, isLoading } = useFrappeQuery(email ? `supplier-for-user:${email}` : null, (signal) =>
+    fetchSupplierForUser(email as string, signal), { persist: true }
+  )
+  return { supplier: data, error, isLoading }
+}
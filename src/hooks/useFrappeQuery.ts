@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { getErrorMessage, isAbortError } from '@/lib/frappe'
+import { DEFAULT_STALE_TIME, fetchCached, getCached, invalidateCache, isFresh } from '@/lib/cache'
+
+interface QueryState<T> {
+  data: T | null
+  // When `data` was fetched from the server
+  updatedAt: number | null
+  error: string | null
+  isLoading: boolean
+}
+
+interface QueryOptions {
+  // How long a cached response is served without refetching, in ms
+  staleTime?: number
+  // Keep the response across reloads so the screen still works offline
+  persist?: boolean
+}
+
+/**
+ * Loads data for a screen and re-runs whenever `key` changes. The key should
+ * encode every input of `fetcher` (doctype, filters, page, ...) and doubles as
+ * the cache key: cached data shows immediately and is refreshed in the
+ * background once stale. Pass null to skip loading. The request for a
+ * superseded key is cancelled (unless another screen still waits on it) and
+ * its response ignored.
+ */
+export function useFrappeQuery<T>(
+  key: string | null,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  options: QueryOptions = {}
+) {
+  const { staleTime = DEFAULT_STALE_TIME, persist = false } = options
+  const [state, setState] = useState<QueryState<T>>(() => {
+    const cached = key === null ? undefined : getCached<T>(key)
+    return {
+      data: cached ? cached.data : null,
+      updatedAt: cached ? cached.updatedAt : null,
+      error: null,
+      isLoading: key !== null && !cached,
+    }
+  })
+  const [reloadCount, setReloadCount] = useState(0)
+  const fetcherRef = useRef(fetcher)
+
+  useEffect(() => {
+    fetcherRef.current = fetcher
+  })
+
+  useEffect(() => {
+    if (key === null) return
+
+    const controller = new AbortController()
+    const load = async () => {
+      const cached = getCached<T>(key)
+      if (cached) {
+        setState({ data: cached.data, updatedAt: cached.updatedAt, error: null, isLoading: false })
+        if (isFresh(cached, staleTime)) return
+      } else {
+        setState((previous) => ({ ...previous, error: null, isLoading: true }))
+      }
+
+      try {
+        const data = await fetchCached(key, fetcherRef.current, { signal: controller.signal, persist })
+        if (!controller.signal.aborted) {
+          setState({ data, updatedAt: getCached(key)?.updatedAt ?? Date.now(), error: null, isLoading: false })
+        }
+      } catch (error) {
+        // A failed background refresh keeps showing the cached data
+        if (!controller.signal.aborted && !cached && !isAbortError(error)) {
+          setState((previous) => ({ ...previous, error: getErrorMessage(error), isLoading: false }))
+        }
+      }
+    }
+
+    load()
+    return () => controller.abort()
+  }, [key, staleTime, persist, reloadCount])
+
+  // Bypasses the cache, e.g. after the screen has saved changes
+  const reload = useCallback(() => {
+    if (key !== null) invalidateCache({ key })
+    setReloadCount((count) => count + 1)
+  }, [key])
+
+  return { ...state, reload }
+}
@@ -0,0 +1,26 @@
+import { useSearchParams } from 'react-router-dom'
+
+/**
+ * A list screen's search, page and filters. They live in the URL so back/forward
+ * and shared links keep them; `updateParams` sets each given key, or removes it
+ * for an empty value.
+ */
+export function useListParams() {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const updateParams = (changes: Record<string, string>) => {
+    const next = new URLSearchParams(searchParams)
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) next.set(key, value)
+      else next.delete(key)
+    })
+    setSearchParams(next)
+  }
+
+  return {
+    searchParams,
+    search: searchParams.get('q') || '',
+    page: Number(searchParams.get('page')) || 1,
+    updateParams,
+  }
+}
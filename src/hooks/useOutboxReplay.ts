@@ -0,0 +1,21 @@
+import { useEffect } from 'react'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { useOutboxStore } from '@/stores/useOutboxStore'
+
+/** Sends changes queued while offline, on startup and whenever the connection comes back. */
+export function useOutboxReplay() {
+  const email = useAuthStore((state) => (state.isAuthenticated ? (state.user?.email ?? null) : null))
+  const replay = useOutboxStore((state) => state.replay)
+
+  useEffect(() => {
+    if (!email) return
+
+    const handleOnline = () => {
+      replay(email)
+    }
+
+    if (navigator.onLine) replay(email)
+    window.addEventListener('online', handleOnline)
+    return () => window.removeEventListener('online', handleOnline)
+  }, [email, replay])
+}
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react'
+import { testPasswordStrength, type PasswordStrength } from '@/api/password'
+import { MIN_PASSWORD_LENGTH, estimatePasswordScore } from '@/lib/password'
+
+// Wait for a pause in typing before asking the server
+const DEBOUNCE_MS = 300
+
+interface Rating {
+  password: string
+  strength: PasswordStrength | null
+}
+
+/**
+ * Rates a new password as it is typed: the site's password policy when it has
+ * one, otherwise a local estimate. `key` is the reset key, which lets Guests
+ * have their password checked against the account's details.
+ */
+export function usePasswordStrength(password: string, key: string | null) {
+  const [rating, setRating] = useState<Rating | null>(null)
+
+  useEffect(() => {
+    if (!password) return
+    const controller = new AbortController()
+    const timer = setTimeout(() => {
+      testPasswordStrength(password, key, controller.signal)
+        .then((strength) => setRating({ password, strength }))
+        .catch(() => {
+          // The server checks again on submit, so a failed check falls back to the estimate
+          if (!controller.signal.aborted) setRating({ password, strength: null })
+        })
+    }, DEBOUNCE_MS)
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [password, key])
+
+  const current = rating?.password === password ? rating : null
+  const strength: PasswordStrength = current?.strength ?? {
+    score: estimatePasswordScore(password),
+    passesPolicy: password.length >= MIN_PASSWORD_LENGTH,
+    warning: null,
+    suggestions: [],
+  }
+
+  return {
+    strength,
+    // Until the latest password has been rated, whether it passes the policy is unknown
+    isChecking: Boolean(password) && !current,
+  }
+}
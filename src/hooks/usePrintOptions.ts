@@ -0,0 +1,24 @@
+import { useFrappeQuery } from '@/hooks/useFrappeQuery'
+import { usePrintSettingsStore } from '@/stores/usePrintSettingsStore'
+import { STANDARD_PRINT_FORMAT, fetchLetterHeads, fetchPrintFormats, type PrintOptions } from '@/api/printing'
+
+/** The print formats and letterheads on offer for `doctype`, and the ones the user last chose. */
+export function usePrintOptions(doctype: string) {
+  const saved = usePrintSettingsStore((state) => state.settings[doctype])
+  const setSettings = usePrintSettingsStore((state) => state.setSettings)
+  const formats = useFrappeQuery(`print-formats:${doctype}`, (signal) => fetchPrintFormats(doctype, signal))
+  const letterHeads = useFrappeQuery('letter-heads', fetchLetterHeads)
+
+  // Until the user picks, print the way the desk would: Standard on the default letterhead
+  const options: PrintOptions = saved ?? {
+    format: STANDARD_PRINT_FORMAT,
+    letterhead: letterHeads.data?.find((letterHead) => letterHead.is_default)?.name ?? null,
+  }
+
+  return {
+    formats: formats.data ?? [STANDARD_PRINT_FORMAT],
+    letterHeads: letterHeads.data ?? [],
+    options,
+    setOptions: (next: PrintOptions) => setSettings(doctype, next),
+  }
+}
@@ -0,0 +1,34 @@
+import { useState } from 'react'
+
+/**
+ * Documents ticked on a list screen. The selection is kept across pages and
+ * filters, so documents can be gathered from several pages; `pageNames` are the
+ * ones on screen, which the select-all box covers.
+ */
+export function useSelection(pageNames: string[]) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set())
+
+  const toggleSelected = (name: string) => {
+    setSelected((previous) => {
+      const next = new Set(previous)
+      if (next.has(name)) next.delete(name)
+      else next.add(name)
+      return next
+    })
+  }
+
+  const selectPage = (isSelected: boolean) => {
+    setSelected((previous) => {
+      const next = new Set(previous)
+      pageNames.forEach((name) => (isSelected ? next.add(name) : next.delete(name)))
+      return next
+    })
+  }
+
+  return {
+    selected,
+    isPageSelected: pageNames.length > 0 && pageNames.every((name) => selected.has(name)),
+    toggleSelected,
+    selectPage,
+  }
+}
@@ -0,0 +1,35 @@
+import { useEffect } from 'react'
+import { useAuthStore } from '@/stores/useAuthStore'
+
+// Don't hit the server on every alt-tab
+const FOCUS_CHECK_INTERVAL_MS = 60_000
+
+/**
+ * Re-validates the persisted login against the Frappe session on startup and
+ * whenever the window regains focus, logging out if the server has dropped it.
+ */
+export function useSessionValidation() {
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const validateSession = useAuthStore((state) => state.validateSession)
+
+  useEffect(() => {
+    if (!isAuthenticated) return
+
+    let lastCheck = Date.now()
+    validateSession()
+
+    const handleFocus = () => {
+      if (document.visibilityState === 'hidden') return
+      if (Date.now() - lastCheck < FOCUS_CHECK_INTERVAL_MS) return
+      lastCheck = Date.now()
+      validateSession()
+    }
+
+    window.addEventListener('focus', handleFocus)
+    document.addEventListener('visibilitychange', handleFocus)
+    return () => {
+      window.removeEventListener('focus', handleFocus)
+      document.removeEventListener('visibilitychange', handleFocus)
+    }
+  }, [isAuthenticated, validateSession])
+}
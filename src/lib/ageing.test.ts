@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { computeAgeing } from './ageing'
+
+const TODAY = new Date(2026, 5, 30)
+
+const invoice = (currency: string, billDate: string, outstanding: number) => ({
+  posting_date: billDate,
+  bill_date: billDate,
+  outstanding_amount: outstanding,
+  currency,
+})
+
+describe('computeAgeing', () => {
+  it('keeps each currency in its own buckets', () => {
+    const ageing = computeAgeing(
+      [
+        invoice('GBP', '2026-06-20', 100),
+        invoice('EUR', '2026-06-25', 40),
+        invoice('GBP', '2026-03-01', 250),
+        invoice('EUR', '2026-05-15', 60),
+      ],
+      TODAY
+    )
+
+    expect(ageing.map((group) => group.currency)).toEqual(['GBP', 'EUR'])
+    const amounts = (currency: string) =>
+      ageing.find((group) => group.currency === currency)?.buckets.map((bucket) => bucket.amount)
+    expect(amounts('GBP')).toEqual([100, 0, 0, 250])
+    expect(amounts('EUR')).toEqual([40, 60, 0, 0])
+  })
+
+  it('shows empty buckets when nothing is outstanding', () => {
+    const [group, ...rest] = computeAgeing([], TODAY)
+
+    expect(rest).toEqual([])
+    expect(group.currency).toBeNull()
+    expect(group.buckets.every((bucket) => bucket.amount === 0 && bucket.count === 0)).toBe(true)
+  })
+})
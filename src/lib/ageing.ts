@@ -0,0 +1,58 @@
+import { parseDate } from '@/lib/format'
+
+export interface AgeingBucket {
+  label: string
+  // Inclusive lower bound in days; the upper bound is the next bucket's minimum
+  minDays: number
+  amount: number
+  count: number
+}
+
+interface AgeableInvoice {
+  posting_date: string
+  bill_date: string | null
+  outstanding_amount: number
+  currency: string
+}
+
+export interface CurrencyAgeing {
+  currency: string | null
+  buckets: AgeingBucket[]
+}
+
+const BUCKETS: Array<Pick<AgeingBucket, 'label' | 'minDays'>> = [
+  { label: '0–30 days', minDays: 0 },
+  { label: '31–60 days', minDays: 31 },
+  { label: '61–90 days', minDays: 61 },
+  { label: '90+ days', minDays: 91 },
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Whole days between `date` and `today`, never negative. */
+export const daysSince = (date: string, today: Date = new Date()): number => {
+  const start = parseDate(date)
+  const end = new Date(today.getFullYear(), today.getMonth(), today.getDate())
+  return Math.max(0, Math.round((end.getTime() - start.getTime()) / DAY_MS))
+}
+
+const emptyBuckets = (): AgeingBucket[] => BUCKETS.map((bucket) => ({ ...bucket, amount: 0, count: 0 }))
+
+/**
+ * Groups outstanding amounts by currency, then by invoice age. Age counts from the
+ * supplier's own invoice date when known, else from the posting date. With nothing
+ * outstanding there is a single group of empty buckets, so the summary still shows.
+ */
+export const computeAgeing = (invoices: AgeableInvoice[], today: Date = new Date()): CurrencyAgeing[] => {
+  const groups = new Map<string, AgeingBucket[]>()
+  invoices.forEach((invoice) => {
+    const buckets = groups.get(invoice.currency) ?? emptyBuckets()
+    groups.set(invoice.currency, buckets)
+    const age = daysSince(invoice.bill_date || invoice.posting_date, today)
+    const bucket = [...buckets].reverse().find((candidate) => age >= candidate.minDays) ?? buckets[0]
+    bucket.amount += invoice.outstanding_amount
+    bucket.count += 1
+  })
+  if (groups.size === 0) return [{ currency: null, buckets: emptyBuckets() }]
+  return [...groups].map(([currency, buckets]) => ({ currency, buckets }))
+}
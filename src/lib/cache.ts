@@ -0,0 +1,166 @@
+// In-memory cache for API responses and parsed portal pages. Cached entries
+// are served straight away and refetched in the background once stale
+// (stale-while-revalidate); concurrent loads of one key share a single request.
+// Entries fetched with `persist` also go to localStorage, so the last-viewed
+// documents can still be shown after a reload without a connection.
+
+import { siteStorageKey } from '@/lib/sites'
+
+export const DEFAULT_STALE_TIME = 30_000
+
+const STORAGE_KEY = siteStorageKey('query-cache')
+// localStorage is small; only the most recently fetched persistent entries are kept
+const PERSIST_LIMIT = 30
+
+// Types
+export interface CacheEntry<T> {
+  data: T
+  updatedAt: number
+}
+
+export type CacheFetcher<T> = (signal: AbortSignal) => Promise<T>
+
+export interface FetchOptions {
+  signal?: AbortSignal
+  // Keep the response across reloads for offline use
+  persist?: boolean
+}
+
+interface InFlightRequest {
+  promise: Promise<unknown>
+  controller: AbortController
+  // Callers still waiting; the request is aborted once the last one cancels
+  waiters: number
+}
+
+const entries = new Map<string, CacheEntry<unknown>>()
+const inFlight = new Map<string, InFlightRequest>()
+const persistedKeys = new Set<string>()
+
+// Bumped by `clearCache` so responses that were already on their way aren't stored afterwards
+let generation = 0
+
+// Storage
+const readPersisted = (): void => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') as Record<string, CacheEntry<unknown>>
+    Object.entries(stored).forEach(([key, entry]) => {
+      entries.set(key, entry)
+      persistedKeys.add(key)
+    })
+  } catch {
+    localStorage.removeItem(STORAGE_KEY)
+  }
+}
+
+const writePersisted = (): void => {
+  const recent = [...persistedKeys]
+    .flatMap((key) => {
+      const entry = entries.get(key)
+      return entry ? [[key, entry] as const] : []
+    })
+    .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+    .slice(0, PERSIST_LIMIT)
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(recent)))
+  } catch {
+    // Over quota: the entries stay cached in memory for this visit
+  }
+}
+
+readPersisted()
+
+export const getCached = <T>(key: string): CacheEntry<T> | undefined => {
+  return entries.get(key) as CacheEntry<T> | undefined
+}
+
+export const isFresh = (entry: CacheEntry<unknown>, staleTime = DEFAULT_STALE_TIME): boolean => {
+  return Date.now() - entry.updatedAt < staleTime
+}
+
+const startRequest = <T>(key: string, fetcher: CacheFetcher<T>): InFlightRequest => {
+  const controller = new AbortController()
+  const startedIn = generation
+  const promise = fetcher(controller.signal)
+    .then((data) => {
+      if (startedIn === generation) {
+        entries.set(key, { data, updatedAt: Date.now() })
+        if (persistedKeys.has(key)) writePersisted()
+      }
+      return data
+    })
+    .finally(() => {
+      if (inFlight.get(key)?.promise === promise) inFlight.delete(key)
+    })
+
+  const request = { promise, controller, waiters: 0 }
+  inFlight.set(key, request)
+  return request
+}
+
+const leaveRequest = (key: string, request: InFlightRequest): void => {
+  request.waiters -= 1
+  if (request.waiters > 0) return
+  request.controller.abort()
+  if (inFlight.get(key) === request) inFlight.delete(key)
+}
+
+/**
+ * Fetches `key` and stores the result, joining the request already in flight
+ * for it if there is one. Aborting `signal` rejects this caller's promise at
+ * once; the shared request itself is only cancelled when nobody else waits on it.
+ */
+export const fetchCached = <T>(key: string, fetcher: CacheFetcher<T>, options: FetchOptions = {}): Promise<T> => {
+  const { signal, persist } = options
+  if (signal?.aborted) return Promise.reject(signal.reason)
+  if (persist) persistedKeys.add(key)
+
+  const request = inFlight.get(key) ?? startRequest(key, fetcher)
+  request.waiters += 1
+  const shared = request.promise as Promise<T>
+  if (!signal) return shared
+
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = () => {
+      leaveRequest(key, request)
+      reject(signal.reason)
+    }
+    signal.addEventListener('abort', handleAbort, { once: true })
+    shared.then(resolve, reject).finally(() => signal.removeEventListener('abort', handleAbort))
+  })
+}
+
+/** Warms the cache for `key` unless it already holds a fresh entry or a request is under way. */
+export const prefetch = <T>(
+  key: string,
+  fetcher: CacheFetcher<T>,
+  options: { persist?: boolean; staleTime?: number } = {}
+): void => {
+  const { persist, staleTime = DEFAULT_STALE_TIME } = options
+  const entry = entries.get(key)
+  if ((entry && isFresh(entry, staleTime)) || inFlight.has(key)) return
+  fetchCached(key, fetcher, { persist }).catch(() => {
+    // A failed prefetch is simply retried by the real load
+  })
+}
+
+/** Drops cached entries so their next load goes to the server: `key` exactly, or every key starting with `prefix`. */
+export const invalidateCache = (match: { key: string } | { prefix: string }): void => {
+  const keys = 'key' in match ? [match.key] : [...entries.keys()].filter((key) => key.startsWith(match.prefix))
+  keys.forEach((key) => {
+    entries.delete(key)
+    persistedKeys.delete(key)
+  })
+  writePersisted()
+}
+
+/** Forgets everything and cancels pending requests, e.g. when the user signs out. */
+export const clearCache = (): void => {
+  generation += 1
+  inFlight.forEach(({ controller }) => controller.abort())
+  inFlight.clear()
+  entries.clear()
+  persistedKeys.clear()
+  localStorage.removeItem(STORAGE_KEY)
+}
@@ -0,0 +1,77 @@
+// Date arithmetic for the calendar screens. Everything works on local
+// midnights, matching how `parseDate` reads Frappe's `YYYY-MM-DD` dates.
+
+export const CALENDAR_VIEWS = ['day', 'week', 'month'] as const
+
+export type CalendarView = (typeof CALENDAR_VIEWS)[number]
+
+export interface DateRange {
+  start: Date
+  // Exclusive
+  end: Date
+}
+
+export const toIsoDate = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+// Weeks start on Monday
+export const startOfWeek = (date: Date): Date => addDays(date, -((date.getDay() + 6) % 7))
+
+export const startOfMonth = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), 1)
+
+/** The days a view shows around `anchor`; month views cover whole weeks, so they spill into the next and previous months. */
+export const getViewRange = (view: CalendarView, anchor: Date): DateRange => {
+  switch (view) {
+    case 'day':
+      return { start: anchor, end: addDays(anchor, 1) }
+    case 'week': {
+      const start = startOfWeek(anchor)
+      return { start, end: addDays(start, 7) }
+    }
+    case 'month': {
+      const firstDay = startOfMonth(anchor)
+      const lastDay = new Date(firstDay.getFullYear(), firstDay.getMonth() + 1, 0)
+      return { start: startOfWeek(firstDay), end: addDays(startOfWeek(lastDay), 7) }
+    }
+  }
+}
+
+export const eachDay = ({ start, end }: DateRange): Date[] => {
+  const days: Date[] = []
+  for (let day = start; day < end; day = addDays(day, 1)) {
+    days.push(day)
+  }
+  return days
+}
+
+/** Moves `anchor` one view back (-1) or forward (1). */
+export const shiftAnchor = (view: CalendarView, anchor: Date, direction: -1 | 1): Date => {
+  switch (view) {
+    case 'day':
+      return addDays(anchor, direction)
+    case 'week':
+      return addDays(anchor, 7 * direction)
+    case 'month':
+      return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1)
+  }
+}
+
+export const formatViewTitle = (view: CalendarView, anchor: Date): string => {
+  switch (view) {
+    case 'day':
+      return new Intl.DateTimeFormat(undefined, { dateStyle: 'full' }).format(anchor)
+    case 'week': {
+      const { start, end } = getViewRange('week', anchor)
+      return new Intl.DateTimeFormat(undefined, { dateStyle: 'medium' }).formatRange(start, addDays(end, -1))
+    }
+    case 'month':
+      return new Intl.DateTimeFormat(undefined, { month: 'long', year: 'numeric' }).format(anchor)
+  }
+}
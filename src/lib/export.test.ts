@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { toCsv, type ExportColumn } from './export'
+
+interface Row {
+  reference: string
+  amount: number
+}
+
+const COLUMNS: ExportColumn<Row>[] = [
+  { key: 'reference', label: 'Reference', value: (row) => row.reference },
+  { key: 'amount', label: 'Amount', type: 'number', value: (row) => row.amount },
+]
+
+const bodyLines = (csv: string): string[] => csv.replace(/^\uFEFF/, '').split('\r\n').slice(1)
+
+describe('toCsv', () => {
+  it('keeps text that looks like a formula as text', () => {
+    const rows = ['=HYPERLINK("http://evil")', '+1', '-1', '@SUM(A1)', 'BILL-1'].map((reference) => ({ reference, amount: 1 }))
+
+    expect(bodyLines(toCsv(rows, COLUMNS)).map((line) => line.split(',')[0])).toEqual([
+      `"'=HYPERLINK(""http://evil"")"`,
+      "'+1",
+      "'-1",
+      "'@SUM(A1)",
+      'BILL-1',
+    ])
+  })
+
+  it('leaves negative numbers alone', () => {
+    expect(bodyLines(toCsv([{ reference: 'CN-1', amount: -12.5 }], COLUMNS))).toEqual(['CN-1,-12.5'])
+  })
+})
@@ -0,0 +1,222 @@
+import { createZip } from '@/lib/zip'
+import { toIsoDate } from '@/lib/calendar'
+import { parseDate } from '@/lib/format'
+import type { PagedResult } from '@/lib/frappe'
+
+// Spreadsheet export for the list screens. CSV follows the user's locale
+// (decimal separator, date order, and `;` where `,` is the decimal mark, as
+// Excel expects); XLSX stores real numbers and dates and lets Excel format them.
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+export type ExportValue = string | number | null | undefined
+
+export interface ExportColumn<T> {
+  key: string
+  label: string
+  // `date` values are Frappe `YYYY-MM-DD` strings
+  type?: 'text' | 'number' | 'date'
+  value: (row: T) => ExportValue
+}
+
+// Large enough to keep the request count down, small enough that Frappe answers quickly
+export const EXPORT_PAGE_SIZE = 500
+
+export type PageFetcher<T> = (page: number, pageSize: number, signal?: AbortSignal) => Promise<PagedResult<T>>
+
+/** Pages through a list until every matching record is loaded, reporting progress as it goes. */
+export const fetchAllPages = async <T>(
+  fetchPage: PageFetcher<T>,
+  options: { signal?: AbortSignal; onProgress?: (loaded: number, total: number) => void } = {}
+): Promise<T[]> => {
+  const rows: T[] = []
+  for (let page = 1; ; page++) {
+    const result = await fetchPage(page, EXPORT_PAGE_SIZE, options.signal)
+    rows.push(...result.data)
+    options.onProgress?.(rows.length, result.total)
+    if (result.data.length < EXPORT_PAGE_SIZE || rows.length >= result.total) return rows
+  }
+}
+
+// CSV
+const decimalSeparator = (): string => {
+  return new Intl.NumberFormat().formatToParts(1.5).find((part) => part.type === 'decimal')?.value ?? '.'
+}
+
+// Spreadsheets run text starting with one of these as a formula; a leading `'` keeps it text
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/
+
+const escapeFormula = (value: string): string => (FORMULA_TRIGGER.test(value) ? `'${value}` : value)
+
+const quoteCsv = (value: string, delimiter: string): string => {
+  return /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export const toCsv = <T>(rows: T[], columns: ExportColumn<T>[]): string => {
+  const delimiter = decimalSeparator() === ',' ? ';' : ','
+  // No grouping: thousands separators make spreadsheets read numbers as text
+  const numberFormat = new Intl.NumberFormat(undefined, { useGrouping: false, maximumFractionDigits: 6 })
+  const dateFormat = new Intl.DateTimeFormat(undefined, { year: 'numeric', month: '2-digit', day: '2-digit' })
+
+  const formatCell = (column: ExportColumn<T>, row: T): string => {
+    const value = column.value(row)
+    if (value === null || value === undefined || value === '') return ''
+    if (column.type === 'number' && typeof value === 'number') return numberFormat.format(value)
+    if (column.type === 'date' && typeof value === 'string') return dateFormat.format(parseDate(value))
+    return escapeFormula(String(value))
+  }
+
+  const lines = [
+    columns.map((column) => quoteCsv(column.label, delimiter)),
+    ...rows.map((row) => columns.map((column) => quoteCsv(formatCell(column, row), delimiter))),
+  ]
+  // The BOM tells Excel the file is UTF-8
+  return '\uFEFF' + lines.map((line) => line.join(delimiter)).join('\r\n')
+}
+
+// XLSX
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+// Indexes into `cellXfs` in the styles part below
+const HEADER_STYLE = 1
+const DATE_STYLE = 2
+const NUMBER_STYLE = 3
+
+const escapeXml = (value: string): string => {
+  return Array.from(value)
+    // XML 1.0 has no way to write most control characters, even escaped
+    .filter((char) => char.charCodeAt(0) >= 0x20 || char === '\t' || char === '\n' || char === '\r')
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+const columnName = (index: number): string => {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+// Excel counts days from 1899-12-30
+const toExcelDate = (value: string): number => {
+  const date = parseDate(value)
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / 86_400_000 + 25_569
+}
+
+const stringCell = (ref: string, value: string, style?: number): string => {
+  return `<c r="${ref}" t="inlineStr"${style ? ` s="${style}"` : ''}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+}
+
+const worksheetXml = <T>(rows: T[], columns: ExportColumn<T>[]): string => {
+  const header = columns.map((column, index) => stringCell(`${columnName(index)}1`, column.label, HEADER_STYLE))
+  const body = rows.map((row, rowIndex) => {
+    const cells = columns.map((column, index) => {
+      const ref = `${columnName(index)}${rowIndex + 2}`
+      const value = column.value(row)
+      if (value === null || value === undefined || value === '') return ''
+      if (column.type === 'number' && typeof value === 'number') return `<c r="${ref}" s="${NUMBER_STYLE}"><v>${value}</v></c>`
+      if (column.type === 'date' && typeof value === 'string') {
+        return `<c r="${ref}" s="${DATE_STYLE}"><v>${toExcelDate(value)}</v></c>`
+      }
+      return stringCell(ref, String(value))
+    })
+    return `<row r="${rowIndex + 2}">${cells.join('')}</row>`
+  })
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData><row r="1">${header.join('')}</row>${body.join('')}</sheetData>` +
+    '</worksheet>'
+  )
+}
+
+// Built-in number format 14 is the short date of whatever locale opens the file
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="4">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs>' +
+  '</styleSheet>'
+
+export const toXlsx = <T>(rows: T[], columns: ExportColumn<T>[], sheetName = 'Sheet1'): Blob => {
+  // Sheet names are capped at 31 characters and can't contain []:*?/\
+  const safeSheetName = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31))
+  const zip = createZip([
+    {
+      name: '[Content_Types].xml',
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        '</Relationships>',
+    },
+    { name: 'xl/worksheets/sheet1.xml', data: worksheetXml(rows, columns) },
+    { name: 'xl/styles.xml', data: STYLES_XML },
+  ])
+  return new Blob([zip], { type: XLSX_MIME_TYPE })
+}
+
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Give the browser a moment to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/** Builds the file in the chosen format and hands it to the browser. */
+export const exportRows = <T>(rows: T[], columns: ExportColumn<T>[], format: ExportFormat, baseName: string): void => {
+  const stamp = toIsoDate(new Date())
+  if (format === 'csv') {
+    downloadBlob(new Blob([toCsv(rows, columns)], { type: 'text/csv;charset=utf-8' }), `${baseName}-${stamp}.csv`)
+  } else {
+    downloadBlob(toXlsx(rows, columns, baseName), `${baseName}-${stamp}.xlsx`)
+  }
+}
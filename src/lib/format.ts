@@ -0,0 +1,35 @@
+// Display formatting shared by the native screens. Values come straight from
+// Frappe, where dates are `YYYY-MM-DD` strings and currency is a separate field.
+
+export const formatCurrency = (value: number | null | undefined, currency?: string | null): string => {
+  const amount = value ?? 0
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency: currency || 'INR',
+    }).format(amount)
+  } catch {
+    // Unknown currency codes make Intl throw
+    return `${currency ?? ''} ${amount.toFixed(2)}`.trim()
+  }
+}
+
+export const formatNumber = (value: number | null | undefined, maximumFractionDigits = 2): string => {
+  return new Intl.NumberFormat(undefined, { maximumFractionDigits }).format(value ?? 0)
+}
+
+// Frappe dates have no time zone; parse them as local dates so they don't shift a day
+export const parseDate = (value: string): Date => {
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export const formatDate = (value: string | null | undefined): string => {
+  if (!value) return '—'
+  return new Intl.DateTimeFormat(undefined, { dateStyle: 'medium' }).format(parseDate(value))
+}
+
+// For client-side timestamps (`Date.now()` values), e.g. when data was last fetched
+export const formatDateTime = (value: number): string => {
+  return new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(value))
+}
@@ -0,0 +1,410 @@
+// Typed client for the Frappe REST API (`/api/method/*` and `/api/resource/*`).
+// Every request goes through `frappeRequest`, so auth headers, JSON handling
+// and Frappe's error payloads are dealt with in one place.
+
+import { CURRENT_SITE } from '@/lib/sites'
+
+export const API_BASE = CURRENT_SITE.url
+
+// Behind the same-origin proxy, portal pages are fetched under this prefix so
+// they don't collide with the app's own routes
+const PORTAL_PROXY_PREFIX = '/portal'
+
+// Types
+export type FrappeFilterOperator =
+  | '='
+  | '!='
+  | '>'
+  | '<'
+  | '>='
+  | '<='
+  | 'like'
+  | 'not like'
+  | 'in'
+  | 'not in'
+  | 'is'
+  | 'between'
+
+export type FrappeFilter =
+  | [field: string, operator: FrappeFilterOperator, value: unknown]
+  | [doctype: string, field: string, operator: FrappeFilterOperator, value: unknown]
+
+export type FrappeFilters = FrappeFilter[] | Record<string, unknown>
+
+export interface ListParams {
+  fields?: string[]
+  filters?: FrappeFilters
+  orFilters?: FrappeFilters
+  orderBy?: string
+  groupBy?: string
+  limitStart?: number
+  limitPageLength?: number
+}
+
+export interface PagedResult<T> {
+  data: T[]
+  total: number
+}
+
+// Rows per page on every list screen
+export const LIST_PAGE_SIZE = 20
+
+interface FrappeErrorPayload {
+  exc_type?: string
+  exception?: string
+  exc?: string
+  message?: unknown
+  _server_messages?: string
+  _error_message?: string
+}
+
+interface FrappeClientConfig {
+  getCsrfToken: () => string | null
+  // Called for every 401/403 so the session can be re-validated in one place
+  onUnauthorized: (status: number) => void
+  // Called when a write is refused for its CSRF token; resolves true once a fresh token is in place
+  onCsrfTokenError: () => Promise<boolean>
+  // Swapped out by the mock backend and in tests
+  fetch: typeof fetch
+}
+
+type RequestBody = Record<string, unknown> | FormData
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE'
+  query?: Record<string, unknown>
+  body?: RequestBody
+  signal?: AbortSignal
+}
+
+export class FrappeError extends Error {
+  readonly status: number
+  readonly excType: string | null
+  readonly serverMessages: string[]
+
+  constructor(message: string, status: number, excType: string | null, serverMessages: string[]) {
+    super(message)
+    this.name = 'FrappeError'
+    this.status = status
+    this.excType = excType
+    this.serverMessages = serverMessages
+  }
+
+  get isAuthError(): boolean {
+    return this.status === 401 || this.status === 403
+  }
+}
+
+let config: FrappeClientConfig = {
+  getCsrfToken: () => null,
+  onUnauthorized: () => {},
+  onCsrfTokenError: async () => false,
+  fetch: (input, init) => fetch(input, init),
+}
+
+export const configureFrappeClient = (next: Partial<FrappeClientConfig>): void => {
+  config = { ...config, ...next }
+}
+
+/** User-facing message for anything thrown by the client (or by `fetch` itself). */
+export const getErrorMessage = (error: unknown, fallback = 'Something went wrong. Please try again.'): string => {
+  if (error instanceof FrappeError) return error.message
+  if (error instanceof TypeError) return 'Network error. Please try again.'
+  return fallback
+}
+
+/** True for the rejection of a request whose `AbortSignal` fired, which is never worth reporting. */
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+// Utility Functions
+const stripHtml = (value: string): string => value.replace(/<[^>]*>/g, '').trim()
+
+// `_server_messages` is a JSON-encoded array of JSON-encoded `{ message }` objects
+const parseServerMessages = (raw: string | undefined): string[] => {
+  if (!raw) return []
+  try {
+    const entries = JSON.parse(raw) as string[]
+    return entries
+      .map((entry) => {
+        try {
+          const parsed = JSON.parse(entry) as { message?: string }
+          return stripHtml(parsed.message || '')
+        } catch {
+          return stripHtml(entry)
+        }
+      })
+      .filter(Boolean)
+  } catch {
+    return []
+  }
+}
+
+// `exception` looks like "frappe.exceptions.ValidationError: Qty cannot be negative"
+const parseException = (exception: string | undefined): string | null => {
+  if (!exception) return null
+  const separator = exception.indexOf(': ')
+  return stripHtml(separator >= 0 ? exception.slice(separator + 2) : exception) || null
+}
+
+const toFrappeError = (status: number, statusText: string, payload: FrappeErrorPayload | null): FrappeError => {
+  const serverMessages = parseServerMessages(payload?._server_messages)
+  const message =
+    serverMessages[0] ||
+    (payload?._error_message && stripHtml(payload._error_message)) ||
+    (typeof payload?.message === 'string' && stripHtml(payload.message)) ||
+    parseException(payload?.exception) ||
+    `Request failed: ${status} ${statusText}`.trim()
+
+  return new FrappeError(message, status, payload?.exc_type || null, serverMessages)
+}
+
+const buildQuery = (query: Record<string, unknown> | undefined): string => {
+  if (!query) return ''
+  const params = new URLSearchParams()
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined || value === null) return
+    params.set(key, typeof value === 'string' ? value : JSON.stringify(value))
+  })
+  const serialized = params.toString()
+  return serialized ? `?${serialized}` : ''
+}
+
+export const buildUrl = (path: string): string => {
+  if (path.startsWith('http')) return path
+  return `${API_BASE}${path.startsWith('/') ? path : '/' + path}`
+}
+
+/** Path to fetch the portal page at `path` from, e.g. `/me` or `/portal/me` when proxied. */
+export const portalPagePath = (path: string): string => {
+  const absolute = path.startsWith('/') ? path : '/' + path
+  return CURRENT_SITE.proxied ? `${PORTAL_PROXY_PREFIX}${absolute}` : absolute
+}
+
+const readJson = async (response: Response): Promise<unknown> => {
+  const text = await response.text()
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Low-level fetch against the Frappe site. Authentication rides on the user's
+ * own `sid` session cookie; state-changing requests also carry the session's
+ * CSRF token. Returns the raw `Response`, for callers that need HTML or blobs.
+ */
+export const frappeFetch = async (path: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers)
+  const method = (init.method || 'GET').toUpperCase()
+  const csrfToken = config.getCsrfToken()
+  if (csrfToken && method !== 'GET' && !headers.has('X-Frappe-CSRF-Token')) {
+    headers.set('X-Frappe-CSRF-Token', csrfToken)
+  }
+
+  const response = await config.fetch(buildUrl(path), {
+    ...init,
+    headers,
+    credentials: 'include',
+  })
+
+  if (response.status === 401 || response.status === 403) {
+    config.onUnauthorized(response.status)
+  }
+
+  return response
+}
+
+const sendRequest = async <T>(path: string, options: RequestOptions): Promise<T> => {
+  const { method = 'GET', query, body, signal } = options
+  const headers: Record<string, string> = { Accept: 'application/json' }
+  let payload: BodyInit | undefined
+
+  if (body instanceof FormData) {
+    payload = body
+  } else if (body) {
+    headers['Content-Type'] = 'application/json'
+    payload = JSON.stringify(body)
+  }
+
+  const response = await frappeFetch(`${path}${buildQuery(query)}`, {
+    method,
+    headers,
+    body: payload,
+    signal,
+  })
+  const data = await readJson(response)
+
+  if (!response.ok) {
+    throw toFrappeError(response.status, response.statusText, data as FrappeErrorPayload | null)
+  }
+
+  // Frappe can answer 200 and still carry an exception, e.g. from some whitelisted methods
+  const errorPayload = data as FrappeErrorPayload | null
+  if (errorPayload?.exc_type || errorPayload?.exc) {
+    throw toFrappeError(response.status, response.statusText, errorPayload)
+  }
+
+  return data as T
+}
+
+/**
+ * Sends a JSON request and returns the parsed body. Non-2xx responses are
+ * converted into a `FrappeError` carrying the server's message.
+ */
+export const frappeRequest = async <T>(path: string, options: RequestOptions = {}): Promise<T> => {
+  try {
+    return await sendRequest<T>(path, options)
+  } catch (error) {
+    // The token rotates when the session is renewed, e.g. by a login in another tab
+    if (!(error instanceof FrappeError && error.excType === 'CSRFTokenError')) throw error
+    if (!(await config.onCsrfTokenError())) throw error
+    return sendRequest<T>(path, options)
+  }
+}
+
+/** GETs a file (e.g. a generated PDF) as a Blob, converting failures into a `FrappeError`. */
+export const frappeBlob = async (
+  path: string,
+  options: { query?: Record<string, unknown>; signal?: AbortSignal } = {}
+): Promise<Blob> => {
+  const response = await frappeFetch(`${path}${buildQuery(options.query)}`, { signal: options.signal })
+  if (!response.ok) {
+    throw toFrappeError(response.status, response.statusText, (await readJson(response)) as FrappeErrorPayload | null)
+  }
+  return response.blob()
+}
+
+// Session helpers
+
+// Portal pages embed the session's token as `frappe.csrf_token = "..."`
+const CSRF_TOKEN_PATTERN = /csrf_token\s*[=:]\s*["']([^"']+)["']/
+
+/**
+ * Reads the CSRF token for the current session from a rendered portal page.
+ * Returns null when the page carries none (e.g. the session is a Guest one).
+ */
+export const fetchCsrfToken = async (pagePath: string): Promise<string | null> => {
+  const response = await frappeFetch(portalPagePath(pagePath), { headers: { Accept: 'text/html' } })
+  if (!response.ok) return null
+  const match = (await response.text()).match(CSRF_TOKEN_PATTERN)
+  return match && match[1] !== 'None' ? match[1] : null
+}
+
+// Whitelisted methods
+export const callMethod = async <T>(
+  method: string,
+  args?: Record<string, unknown>,
+  options: { httpMethod?: 'GET' | 'POST'; signal?: AbortSignal } = {}
+): Promise<T> => {
+  const { httpMethod = 'POST', signal } = options
+  const data = await frappeRequest<{ message: T }>(`/api/method/${method}`, {
+    method: httpMethod,
+    query: httpMethod === 'GET' ? args : undefined,
+    body: httpMethod === 'POST' ? args : undefined,
+    signal,
+  })
+  return data?.message
+}
+
+// Files
+export interface UploadedFile {
+  name: string
+  file_name: string
+  file_url: string
+  is_private: 0 | 1
+}
+
+interface UploadOptions {
+  doctype?: string
+  docname?: string
+  fieldname?: string
+  isPrivate?: boolean
+}
+
+/** Uploads through Frappe's `upload_file`, attaching to a document when `doctype`/`docname` are given. */
+export const uploadFile = async (file: File, options: UploadOptions = {}): Promise<UploadedFile> => {
+  const { doctype, docname, fieldname, isPrivate = true } = options
+  const form = new FormData()
+  form.append('file', file, file.name)
+  form.append('is_private', isPrivate ? '1' : '0')
+  if (doctype) form.append('doctype', doctype)
+  if (docname) form.append('docname', docname)
+  if (fieldname) form.append('fieldname', fieldname)
+
+  const data = await frappeRequest<{ message: UploadedFile }>('/api/method/upload_file', {
+    method: 'POST',
+    body: form,
+  })
+  return data.message
+}
+
+// DocType resources
+const resourcePath = (doctype: string, name?: string): string => {
+  const base = `/api/resource/${encodeURIComponent(doctype)}`
+  return name ? `${base}/${encodeURIComponent(name)}` : base
+}
+
+export const getList = async <T>(
+  doctype: string,
+  params: ListParams = {},
+  signal?: AbortSignal
+): Promise<T[]> => {
+  const data = await frappeRequest<{ data: T[] }>(resourcePath(doctype), {
+    query: {
+      fields: params.fields,
+      filters: params.filters,
+      or_filters: params.orFilters,
+      order_by: params.orderBy,
+      group_by: params.groupBy,
+      limit_start: params.limitStart,
+      limit_page_length: params.limitPageLength,
+    },
+    signal,
+  })
+  return data.data
+}
+
+// Long `in` filters go in the query string, so lookups are split to keep URLs short
+const LOOKUP_CHUNK_SIZE = 100
+
+/** Runs a lookup by name for at most 100 `values` at a time, one chunk after another. */
+export const inChunks = async <T>(values: string[], fetchChunk: (chunk: string[]) => Promise<T[]>): Promise<T[]> => {
+  const results: T[] = []
+  for (let start = 0; start < values.length; start += LOOKUP_CHUNK_SIZE) {
+    results.push(...(await fetchChunk(values.slice(start, start + LOOKUP_CHUNK_SIZE))))
+  }
+  return results
+}
+
+// The list view's count: unlike `frappe.client.get_count` it applies user permissions,
+// and `distinct` counts a parent once however many child rows a filter matches
+export const getCount = (doctype: string, filters?: FrappeFilters, signal?: AbortSignal): Promise<number> => {
+  return callMethod<number>(
+    'frappe.desk.reportview.get_count',
+    { doctype, filters, distinct: true },
+    { httpMethod: 'GET', signal }
+  )
+}
+
+export const getDoc = async <T>(doctype: string, name: string, signal?: AbortSignal): Promise<T> => {
+  const data = await frappeRequest<{ data: T }>(resourcePath(doctype, name), { signal })
+  return data.data
+}
+
+export const insertDoc = async <T>(doctype: string, doc: Record<string, unknown>): Promise<T> => {
+  const data = await frappeRequest<{ data: T }>(resourcePath(doctype), { method: 'POST', body: doc })
+  return data.data
+}
+
+export const updateDoc = async <T>(doctype: string, name: string, changes: Record<string, unknown>): Promise<T> => {
+  const data = await frappeRequest<{ data: T }>(resourcePath(doctype, name), { method: 'PUT', body: changes })
+  return data.data
+}
+
+export const deleteDoc = async (doctype: string, name: string): Promise<void> => {
+  await frappeRequest(resourcePath(doctype, name), { method: 'DELETE' })
+}
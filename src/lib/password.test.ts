@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+import { estimatePasswordScore } from './password'
+
+describe('estimatePasswordScore', () => {
+  it('rates empty and short passwords lowest', () => {
+    expect(estimatePasswordScore('')).toBe(0)
+    expect(estimatePasswordScore('Ab1!')).toBe(1)
+  })
+
+  it('does not reward repeating a character', () => {
+    expect(estimatePasswordScore('aaaaaaaaaaaaaaaaaa')).toBe(1)
+  })
+
+  it('rises with character classes and length', () => {
+    expect(estimatePasswordScore('lowercase')).toBe(1)
+    expect(estimatePasswordScore('Lowercase1')).toBe(2)
+    expect(estimatePasswordScore('Lowercase1!')).toBe(3)
+    expect(estimatePasswordScore('Lowercase1!longer')).toBe(4)
+  })
+})
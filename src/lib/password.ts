@@ -0,0 +1,21 @@
+// Client-side rules for choosing a password. The site's password policy has the
+// final say (see api/password.ts); these cover sites that don't enable one.
+
+// Frappe's own minimum, applied even when the password policy is off
+export const MIN_PASSWORD_LENGTH = 8
+
+export const STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong'] as const
+
+/**
+ * Rough 0–4 score on the same scale as the server's zxcvbn rating, from length
+ * and the mix of character classes. Repeated characters and short passwords
+ * are capped, since those are what zxcvbn punishes hardest.
+ */
+export const estimatePasswordScore = (password: string): number => {
+  if (password.length < MIN_PASSWORD_LENGTH) return password.length === 0 ? 0 : 1
+  if (new Set(password).size <= 3) return 1
+
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^a-zA-Z\d]/].filter((pattern) => pattern.test(password)).length
+  const lengthBonus = password.length >= 16 ? 2 : password.length >= 12 ? 1 : 0
+  return Math.min(4, Math.max(1, classes - 1 + lengthBonus))
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import { API_BASE } from '@/lib/frappe'
+import { extractStylesAndContent, isInternalLink, matchesPath, scopeStyles } from '@/lib/portal'
+
+const page = (head: string, body: string): string => `<!DOCTYPE html><html><head>${head}</head><body>${body}</body></html>`
+
+describe('scopeStyles', () => {
+  it('points document-level selectors at the shadow host', () => {
+    expect(scopeStyles(':root { --blue: #00f; }')).toBe(':host { --blue: #00f; }')
+    expect(scopeStyles('html, body { margin: 0; }')).toBe(':host, :host { margin: 0; }')
+    expect(scopeStyles('.a{color:red}body{color:blue}')).toBe('.a{color:red}:host{color:blue}')
+  })
+
+  it('leaves selectors that only contain the words alone', () => {
+    const css = '.body-text { color: red; } .html-preview, #root { margin: 0; }'
+    expect(scopeStyles(css)).toBe(css)
+  })
+
+  it('scopes document elements that lead a longer selector', () => {
+    expect(scopeStyles('body .card, html > body > main { padding: 0; }')).toBe(':host .card, :host > main { padding: 0; }')
+    expect(scopeStyles('html body { margin: 0; }')).toBe(':host { margin: 0; }')
+    expect(scopeStyles('body.dark a, html[dir="rtl"] p { color: #fff; }')).toBe(
+      ':host(.dark) a, :host([dir="rtl"]) p { color: #fff; }'
+    )
+  })
+
+  it('recurses into @media and @supports but leaves keyframes and declarations alone', () => {
+    const css =
+      '@media (max-width: 600px) { body { font-size: 14px; } }' +
+      '@supports (display: grid) { @media print { html { color: #000; } } }' +
+      '@keyframes body { from { opacity: 0; } }' +
+      '.a { content: "body {"; }'
+    expect(scopeStyles(css)).toBe(
+      '@media (max-width: 600px) { :host { font-size: 14px; } }' +
+        '@supports (display: grid) { @media print { :host { color: #000; } } }' +
+        '@keyframes body { from { opacity: 0; } }' +
+        '.a { content: "body {"; }'
+    )
+  })
+
+  it('keeps comments and @import statements', () => {
+    const css = '@import url("/assets/theme.css");\n/* base */ body { margin: 0; }'
+    expect(scopeStyles(css)).toBe('@import url("/assets/theme.css");\n/* base */ :host { margin: 0; }')
+  })
+})
+
+describe('extractStylesAndContent', () => {
+  it('returns the main content with its inline styles scoped', () => {
+    const html = page('<style>body { color: red; }</style>', '<nav>Menu</nav><main><h1>Orders</h1></main>')
+    const result = extractStylesAndContent(html)
+
+    expect(result.content).toBe('<h1>Orders</h1>')
+    expect(result.styles.trim()).toBe(':host { color: red; }')
+  })
+
+  it('falls back to .main-content, then to the whole body', () => {
+    expect(extractStylesAndContent(page('', '<div class="main-content"><p>Inner</p></div>')).content).toBe(
+      '<p>Inner</p>'
+    )
+    expect(extractStylesAndContent(page('', '<p>Only body</p>')).content).toBe('<p>Only body</p>')
+  })
+
+  it('collects safe stylesheet links against the Frappe site', () => {
+    const html = page(
+      '<link rel="stylesheet" href="/assets/frappe/website.css">' +
+        '<link rel="stylesheet" href="javascript:alert(1)">' +
+        '<link rel="stylesheet" href="https://cdn.example.com/theme.css">',
+      '<main></main>'
+    )
+
+    expect(extractStylesAndContent(html).stylesheetUrls).toEqual([
+      `${API_BASE}/assets/frappe/website.css`,
+      'https://cdn.example.com/theme.css',
+    ])
+  })
+
+  it('resolves relative image and background URLs against the Frappe site', () => {
+    const html = page(
+      '',
+      '<main><img src="/files/logo.png"><div style="background-image: url(/files/bg.png)"></div></main>'
+    )
+    const { content } = extractStylesAndContent(html)
+
+    expect(content).toContain(`src="${API_BASE}/files/logo.png"`)
+    expect(content).toContain(`url('${API_BASE}/files/bg.png')`)
+  })
+
+  it('strips scripts and event handlers from the content', () => {
+    const html = page(
+      '',
+      '<main><p onclick="steal()">Hi</p><script>steal()</script><a href="javascript:steal()">x</a></main>'
+    )
+    const { content } = extractStylesAndContent(html)
+
+    expect(content).not.toContain('script')
+    expect(content).not.toContain('onclick')
+    expect(content).not.toContain('javascript:')
+    expect(content).toContain('<p>Hi</p>')
+  })
+})
+
+describe('matchesPath', () => {
+  it('ignores a trailing slash on either side', () => {
+    expect(matchesPath('/orders', '/orders')).toBe(true)
+    expect(matchesPath('/orders/', '/orders')).toBe(true)
+    expect(matchesPath('/orders', '/orders/')).toBe(true)
+  })
+
+  it('does not match other or nested paths', () => {
+    expect(matchesPath('/orders', '/invoices')).toBe(false)
+    expect(matchesPath('/orders', '/orders/PO-1')).toBe(false)
+    expect(matchesPath('/', '/orders')).toBe(false)
+  })
+})
+
+describe('isInternalLink', () => {
+  it('accepts the app and the Frappe site, and nothing else', () => {
+    expect(isInternalLink(new URL('/orders', window.location.origin))).toBe(true)
+    expect(isInternalLink(new URL('/orders', API_BASE))).toBe(true)
+    expect(isInternalLink(new URL('https://example.com/orders'))).toBe(false)
+  })
+})
@@ -0,0 +1,264 @@
+// Helpers for the proxied Frappe portal: fetching pages and pulling the
+// content and styles out of their HTML.
+import { API_BASE, FrappeError, buildUrl, frappeFetch, portalPagePath } from '@/lib/frappe'
+import { fetchCached, prefetch } from '@/lib/cache'
+import { isSafeUrl, sanitizeElement } from '@/lib/sanitize'
+
+// Constants
+const CONTENT_SELECTORS = ['main', '.main-content']
+
+// Types
+export interface ExtractedContent {
+  content: string
+  styles: string
+  stylesheetUrls: string[]
+}
+
+// Utility Functions
+const normalizePath = (path: string): string => {
+  return path.endsWith('/') && path.length > 1 ? path.slice(0, -1) : path
+}
+
+// Portal CSS is rendered inside a shadow root, where document-level selectors
+// match nothing; point them at the shadow host so variables and base styles apply
+const DOCUMENT_ELEMENT = /^(?::root|html|body)(?![\w-])/i
+// Classes, ids, attributes and pseudo-classes written onto an element, e.g. `.dark[dir=rtl]`
+const COMPOUND = /^(?:[.#][\w-]+|\[[^\]]*\]|:(?!:)[\w-]+(?:\([^)]*\))?)*/
+const LEADING_TRIVIA = /^(?:\s|\/\*[\s\S]*?\*\/)*/
+// At-rules whose blocks hold style rules; the others (@font-face, @keyframes, ...) are copied as they are
+const GROUPING_AT_RULE = /^@(?:media|supports|layer|container|document|-moz-document)\b/i
+
+// Index of the last character of the string or comment starting at `index`, or `index` itself
+const skipLiteral = (css: string, index: number): number => {
+  const char = css[index]
+  if (char === '"' || char === "'") {
+    let end = index + 1
+    while (end < css.length && css[end] !== char) end += css[end] === '\\' ? 2 : 1
+    return end
+  }
+  if (css.startsWith('/*', index)) {
+    const end = css.indexOf('*/', index + 2)
+    return end < 0 ? css.length : end + 1
+  }
+  return index
+}
+
+// The first `{`, `;` or `}` from `start` outside strings, comments and brackets
+const nextDelimiter = (css: string, start: number): number => {
+  let depth = 0
+  for (let index = start; index < css.length; index++) {
+    index = skipLiteral(css, index)
+    const char = css[index]
+    if (char === '(' || char === '[') depth++
+    else if (char === ')' || char === ']') depth--
+    else if (depth <= 0 && (char === '{' || char === ';' || char === '}')) return index
+  }
+  return css.length
+}
+
+// Index just past the `}` that closes the block opening at `open`
+const blockEnd = (css: string, open: number): number => {
+  let depth = 0
+  for (let index = open; index < css.length; index++) {
+    index = skipLiteral(css, index)
+    if (css[index] === '{') depth++
+    else if (css[index] === '}' && --depth === 0) return index + 1
+  }
+  return css.length
+}
+
+const splitSelectorList = (selectors: string): string[] => {
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let index = 0; index < selectors.length; index++) {
+    index = skipLiteral(selectors, index)
+    const char = selectors[index]
+    if (char === '(' || char === '[') depth++
+    else if (char === ')' || char === ']') depth--
+    else if (char === ',' && depth === 0) {
+      parts.push(selectors.slice(start, index))
+      start = index + 1
+    }
+  }
+  return [...parts, selectors.slice(start)]
+}
+
+// `body .x` → `:host .x`, `html > body` → `:host`, `body.dark` → `:host(.dark)`
+const scopeSelector = (selector: string): string => {
+  const lead = selector.match(LEADING_TRIVIA)?.[0] ?? ''
+  let rest = selector.slice(lead.length)
+  if (!DOCUMENT_ELEMENT.test(rest)) return selector
+
+  let compound = ''
+  for (;;) {
+    rest = rest.replace(DOCUMENT_ELEMENT, '')
+    const own = rest.match(COMPOUND)?.[0] ?? ''
+    compound += own
+    rest = rest.slice(own.length)
+    const combinator = rest.match(/^\s*>?\s*/)?.[0] ?? ''
+    if (!DOCUMENT_ELEMENT.test(rest.slice(combinator.length))) break
+    rest = rest.slice(combinator.length)
+  }
+  return lead + (compound ? `:host(${compound})` : ':host') + rest
+}
+
+export const scopeStyles = (styleContent: string): string => {
+  let scoped = ''
+  let index = 0
+  while (index < styleContent.length) {
+    const delimiter = nextDelimiter(styleContent, index)
+    if (styleContent[delimiter] !== '{') {
+      // A statement such as @import, or a stray brace
+      scoped += styleContent.slice(index, delimiter + 1)
+      index = delimiter + 1
+      continue
+    }
+
+    const prelude = styleContent.slice(index, delimiter)
+    const end = blockEnd(styleContent, delimiter)
+    const block = styleContent.slice(delimiter + 1, end - 1)
+    const atRule = prelude.replace(LEADING_TRIVIA, '')
+    if (atRule.startsWith('@')) {
+      scoped += `${prelude}{${GROUPING_AT_RULE.test(atRule) ? scopeStyles(block) : block}}`
+    } else {
+      scoped += `${splitSelectorList(prelude).map(scopeSelector).join(',')}{${block}}`
+    }
+    index = end
+  }
+  return scoped
+}
+
+export const fixRelativeUrl = (url: string): string => {
+  if (url.startsWith('http') || url.startsWith('data:')) {
+    return url
+  }
+  return buildUrl(url)
+}
+
+export const extractStylesAndContent = (html: string): ExtractedContent => {
+  try {
+    const parser = new DOMParser()
+    const doc = parser.parseFromString(html, 'text/html')
+
+    // Extract inline styles
+    let styles = ''
+    doc.querySelectorAll('style').forEach((style) => {
+      const styleContent = style.innerHTML || style.textContent || ''
+      styles += scopeStyles(styleContent) + '\n'
+    })
+
+    // Extract external stylesheets URLs
+    const stylesheetLinks: string[] = []
+    doc.querySelectorAll('link[rel="stylesheet"]').forEach((link) => {
+      const href = link.getAttribute('href')
+      if (href && isSafeUrl(href)) {
+        const fixedUrl = fixRelativeUrl(href)
+        stylesheetLinks.push(fixedUrl)
+      }
+    })
+
+    // Extract content
+    const body = doc.body || doc.documentElement
+    const mainContent =
+      CONTENT_SELECTORS.map((sel) => body.querySelector(sel)).find(Boolean) || body
+
+    const contentClone = mainContent.cloneNode(true) as HTMLElement
+    // Strip anything executable before the markup reaches the DOM
+    sanitizeElement(contentClone)
+
+    // Fix relative URLs in images
+    contentClone.querySelectorAll('img').forEach((img) => {
+      const src = img.getAttribute('src')
+      if (src) {
+        img.setAttribute('src', fixRelativeUrl(src))
+      }
+    })
+
+    // Fix relative URLs in inline styles
+    contentClone.querySelectorAll('[style]').forEach((element) => {
+      const style = element.getAttribute('style') || ''
+      const fixedStyle = style.replace(/url\(['"]?([^'")]+)['"]?\)/g, (_match, url) => {
+        return `url('${fixRelativeUrl(url)}')`
+      })
+      element.setAttribute('style', fixedStyle)
+    })
+
+    // Fix relative URLs in style attributes that might contain background images
+    contentClone.querySelectorAll('*').forEach((element) => {
+      const styleAttr = element.getAttribute('style')
+      if (styleAttr) {
+        const fixedStyle = styleAttr.replace(/url\(['"]?([^'")]+)['"]?\)/g, (_match, url) => {
+          if (url.startsWith('http') || url.startsWith('data:')) {
+            return `url('${url}')`
+          }
+          return `url('${fixRelativeUrl(url)}')`
+        })
+        element.setAttribute('style', fixedStyle)
+      }
+    })
+
+    return {
+      content: contentClone.innerHTML,
+      styles,
+      stylesheetUrls: stylesheetLinks,
+    }
+  } catch (error) {
+    console.error('Error extracting styles and content:', error)
+    // Never fall back to the raw page: it hasn't been sanitized
+    return { content: '', styles: '', stylesheetUrls: [] }
+  }
+}
+
+export const fetchWithAuth = async (path: string, signal?: AbortSignal): Promise<Response> => {
+  return frappeFetch(portalPagePath(path), {
+    method: 'GET',
+    headers: {
+      Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+    },
+    signal,
+  })
+}
+
+// Portal pages are cached already parsed, so revisiting one skips the download and the parse
+export const portalPageKey = (path: string): string => `portal:${path}`
+
+/** Downloads and parses a portal page; non-2xx responses throw a `FrappeError` carrying the status. */
+export const fetchPortalPage = async (path: string, signal?: AbortSignal): Promise<ExtractedContent> => {
+  const response = await fetchWithAuth(path, signal)
+  if (!response.ok) {
+    throw new FrappeError(`Failed to load page: ${response.status} ${response.statusText}`.trim(), response.status, null, [])
+  }
+  return extractStylesAndContent(await response.text())
+}
+
+export const loadPortalPage = (path: string, signal?: AbortSignal): Promise<ExtractedContent> => {
+  return fetchCached(portalPageKey(path), (requestSignal) => fetchPortalPage(path, requestSignal), {
+    signal,
+    persist: true,
+  })
+}
+
+export const prefetchPortalPage = (path: string): void => {
+  prefetch(portalPageKey(path), (signal) => fetchPortalPage(path, signal), { persist: true })
+}
+
+// Links to the app itself or to the Frappe site (the same origin when proxied) open in the app
+export const isInternalLink = (url: URL): boolean => {
+  try {
+    return url.origin === window.location.origin || url.origin === new URL(API_BASE).origin
+  } catch {
+    return false
+  }
+}
+
+export const matchesPath = (linkPath: string, currentPath: string): boolean => {
+  const normalizedLink = normalizePath(linkPath)
+  const normalizedCurrent = normalizePath(currentPath)
+  return (
+    linkPath === currentPath ||
+    linkPath === `${currentPath}/` ||
+    currentPath === `${linkPath}/` ||
+    normalizedLink === normalizedCurrent
+  )
+}
@@ -0,0 +1,127 @@
+import { parseDateCell, parseNumber } from '@/lib/spreadsheet'
+import type { ItemPrice, ItemUoms } from '@/api/priceLists'
+
+// Turning an uploaded price list into checked rows: which spreadsheet column
+// feeds which field, what's wrong with each row, and how it compares with the
+// price on file.
+
+export const PRICE_FIELDS = [
+  { key: 'item_code', label: 'Item Code', required: true, aliases: ['item code', 'item', 'code', 'sku', 'item no'] },
+  { key: 'rate', label: 'Rate', required: true, aliases: ['rate', 'price', 'unit price', 'price list rate', 'cost'] },
+  { key: 'uom', label: 'UOM', required: false, aliases: ['uom', 'unit', 'unit of measure'] },
+  { key: 'valid_from', label: 'Valid From', required: false, aliases: ['valid from', 'effective date', 'effective from'] },
+] as const
+
+export type PriceField = (typeof PRICE_FIELDS)[number]['key']
+
+// Field → zero-based spreadsheet column, or null when not mapped
+export type ColumnMapping = Record<PriceField, number | null>
+
+export type PriceRowChange = 'new' | 'changed' | 'unchanged'
+
+export interface PriceRow {
+  // As numbered in the supplier's spreadsheet
+  rowNumber: number
+  item_code: string
+  item_name: string | null
+  uom: string
+  rate: number | null
+  valid_from: string | null
+  errors: string[]
+  current: ItemPrice | null
+  change: PriceRowChange | null
+}
+
+const normaliseHeader = (header: string): string => header.toLowerCase().replace(/[_\s]+/g, ' ').trim()
+
+/** Maps each field to the first header that looks like it. */
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalised = headers.map(normaliseHeader)
+  const mapping = {} as ColumnMapping
+  PRICE_FIELDS.forEach((field) => {
+    const index = normalised.findIndex((header) => (field.aliases as readonly string[]).includes(header))
+    mapping[field.key] = index === -1 ? null : index
+  })
+  return mapping
+}
+
+export const missingFields = (mapping: ColumnMapping): string[] => {
+  return PRICE_FIELDS.filter((field) => field.required && mapping[field.key] === null).map((field) => field.label)
+}
+
+/** Item codes on the data rows (everything below the header), for looking them up. */
+export const mappedItemCodes = (rows: string[][], mapping: ColumnMapping): string[] => {
+  const column = mapping.item_code
+  if (column === null) return []
+  return [...new Set(rows.slice(1).map((row) => row[column] ?? '').filter(Boolean))]
+}
+
+/**
+ * Checks every data row against the items and UOMs that exist and compares it
+ * with the current price for the same item and UOM. Blank rows are skipped.
+ */
+export const buildPriceRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  items: ItemUoms[],
+  currentPrices: ItemPrice[]
+): PriceRow[] => {
+  const itemsByCode = new Map(items.map((item) => [item.item_code, item]))
+  const cell = (row: string[], field: PriceField): string => {
+    const column = mapping[field]
+    return column === null ? '' : (row[column] ?? '')
+  }
+  const seen = new Map<string, number>()
+  const result: PriceRow[] = []
+
+  rows.forEach((row, index) => {
+    if (index === 0 || !row.some(Boolean)) return
+    const errors: string[] = []
+    const itemCode = cell(row, 'item_code')
+    const item = itemsByCode.get(itemCode)
+    const uom = cell(row, 'uom') || item?.stock_uom || ''
+    const rateText = cell(row, 'rate')
+    const rate = parseNumber(rateText)
+    const validFromText = cell(row, 'valid_from')
+    const validFrom = validFromText ? parseDateCell(validFromText) : null
+
+    if (!itemCode) errors.push('Item code is missing.')
+    else if (!item) errors.push(`Unknown item code "${itemCode}".`)
+    else if (!item.uoms.includes(uom)) {
+      errors.push(`"${uom}" is not a UOM of ${itemCode}; use ${item.uoms.join(', ')}.`)
+    }
+    if (!rateText) errors.push('Rate is missing.')
+    else if (rate === null) errors.push(`Rate "${rateText}" is not a number.`)
+    else if (rate < 0) errors.push('Rate cannot be negative.')
+    if (validFromText && !validFrom) errors.push(`Valid From "${validFromText}" is not a YYYY-MM-DD date.`)
+
+    const key = `${itemCode}\u0000${uom}`
+    if (itemCode && seen.has(key)) errors.push(`${itemCode} (${uom}) is already priced on row ${seen.get(key)}.`)
+    else seen.set(key, index + 1)
+
+    // Prices come newest first, so the first match is the latest, whether in force or upcoming
+    const current = currentPrices.find((price) => price.item_code === itemCode && price.uom === uom) ?? null
+    // The same rate from another date still moves when the price applies
+    const change: PriceRowChange | null =
+      errors.length > 0 || rate === null
+        ? null
+        : !current
+          ? 'new'
+          : Math.abs(current.price_list_rate - rate) < 1e-9 && (!validFrom || validFrom === current.valid_from)
+            ? 'unchanged'
+            : 'changed'
+
+    result.push({
+      rowNumber: index + 1,
+      item_code: itemCode,
+      item_name: item?.item_name ?? null,
+      uom,
+      rate,
+      valid_from: validFrom,
+      errors,
+      current,
+      change,
+    })
+  })
+  return result
+}
@@ -0,0 +1,30 @@
+// Printing generated PDFs without leaving the app: the PDF loads in a hidden
+// frame whose print dialog we open. Browsers that won't script a PDF frame
+// (Firefox, mobile) get the PDF in a new tab to print from there.
+
+// Long enough for the print dialog to have taken its copy of the document
+const FRAME_LIFETIME_MS = 60_000
+
+export const printPdf = (blob: Blob): void => {
+  const url = URL.createObjectURL(blob)
+  const frame = document.createElement('iframe')
+  frame.style.position = 'fixed'
+  frame.style.width = '0'
+  frame.style.height = '0'
+  frame.style.border = '0'
+  frame.src = url
+
+  frame.onload = () => {
+    try {
+      frame.contentWindow?.focus()
+      frame.contentWindow?.print()
+    } catch {
+      window.open(url, '_blank', 'noopener')
+    }
+    setTimeout(() => {
+      frame.remove()
+      URL.revokeObjectURL(url)
+    }, FRAME_LIFETIME_MS)
+  }
+  document.body.appendChild(frame)
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import { isSafeUrl, sanitizeElement } from '@/lib/sanitize'
+
+const sanitize = (html: string): string => {
+  const root = document.createElement('div')
+  root.innerHTML = html
+  sanitizeElement(root)
+  return root.innerHTML
+}
+
+describe('isSafeUrl', () => {
+  it('accepts web, mail and phone links and fragments', () => {
+    expect(isSafeUrl('/orders')).toBe(true)
+    expect(isSafeUrl('https://example.com')).toBe(true)
+    expect(isSafeUrl('mailto:buyer@example.com')).toBe(true)
+    expect(isSafeUrl('tel:+441234567890')).toBe(true)
+    expect(isSafeUrl('#top')).toBe(true)
+  })
+
+  it('rejects script URLs, including obfuscated ones', () => {
+    expect(isSafeUrl('javascript:alert(1)')).toBe(false)
+    expect(isSafeUrl(' JavaScript:alert(1)')).toBe(false)
+    expect(isSafeUrl('java\tscript:alert(1)')).toBe(false)
+    expect(isSafeUrl('vbscript:msgbox(1)')).toBe(false)
+  })
+
+  it('only accepts raster data URLs, and only as an image source', () => {
+    const png = 'data:image/png;base64,iVBORw0KGgo='
+    expect(isSafeUrl(png, 'src')).toBe(true)
+    expect(isSafeUrl(png, 'href')).toBe(false)
+    expect(isSafeUrl('data:image/svg+xml;base64,PHN2Zz4=', 'src')).toBe(false)
+    expect(isSafeUrl('data:text/html,<script>alert(1)</script>', 'src')).toBe(false)
+  })
+})
+
+describe('sanitizeElement', () => {
+  it('drops executable elements with their contents', () => {
+    expect(sanitize('<p>a</p><script>alert(1)</script><iframe src="/x"></iframe><style>p{}</style>')).toBe('<p>a</p>')
+  })
+
+  it('unwraps unknown elements but keeps their children', () => {
+    expect(sanitize('<custom-card><p>kept</p></custom-card>')).toBe('<p>kept</p>')
+  })
+
+  it('removes event handlers, unsafe URLs and unsafe styles', () => {
+    const result = sanitize(
+      '<a href="javascript:alert(1)" onclick="x()">link</a>' +
+        '<div style="background: url(javascript:alert(1))">bg</div>' +
+        '<p style="color: red">ok</p>'
+    )
+
+    expect(result).toBe('<a>link</a><div>bg</div><p style="color: red">ok</p>')
+  })
+
+  it('secures new-tab links and neutralises buttons', () => {
+    const result = sanitize('<a href="/x" target="_blank">x</a><button>Go</button>')
+
+    expect(result).toContain('rel="noopener noreferrer"')
+    expect(result).toContain('<button type="button">Go</button>')
+  })
+
+  it('unwraps forms that post to another site', () => {
+    expect(sanitize('<form action="https://evil.example.com/steal"><input name="q"></form>')).toBe(
+      '<input name="q">'
+    )
+    expect(sanitize('<form action="/api/method/save"><input name="q"></form>')).toContain('<form')
+  })
+
+  it('removes comments', () => {
+    expect(sanitize('<p>a</p><!--[if IE]><script>x()</script><![endif]-->')).toBe('<p>a</p>')
+  })
+})
@@ -0,0 +1,176 @@
+// Allowlist sanitizer for HTML proxied from the Frappe portal. Anything not
+// listed here is dropped, so a compromised or user-edited web page can't run
+// script in the app's origin once it's rendered with `dangerouslySetInnerHTML`.
+import { API_BASE } from '@/lib/frappe'
+
+// Removed together with everything inside them
+const DROPPED_TAGS = new Set([
+  'script',
+  'style',
+  'iframe',
+  'frame',
+  'frameset',
+  'object',
+  'embed',
+  'applet',
+  'base',
+  'link',
+  'meta',
+  'noscript',
+  'template',
+  'math',
+  'foreignobject',
+])
+
+// Kept as-is (after attribute filtering); other tags are unwrapped, keeping their children
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'address', 'article', 'aside', 'b', 'blockquote', 'br', 'button', 'caption', 'cite', 'code',
+  'col', 'colgroup', 'dd', 'del', 'details', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'footer', 'form',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'i', 'img', 'input', 'ins', 'kbd', 'label', 'li', 'main',
+  'mark', 'nav', 'ol', 'optgroup', 'option', 'p', 'picture', 'pre', 'q', 's', 'section', 'select', 'small',
+  'source', 'span', 'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'textarea', 'tfoot', 'th',
+  'thead', 'time', 'tr', 'u', 'ul',
+  // Frappe renders its icons as inline SVG sprites
+  'svg', 'use', 'g', 'path', 'circle', 'ellipse', 'rect', 'line', 'polyline', 'polygon', 'symbol', 'title',
+])
+
+const ALLOWED_ATTRIBUTES = new Set([
+  'class', 'id', 'title', 'lang', 'dir', 'role', 'style', 'alt', 'width', 'height', 'align', 'valign',
+  'colspan', 'rowspan', 'scope', 'headers', 'span', 'href', 'src', 'srcset', 'sizes', 'target', 'rel',
+  'name', 'type', 'value', 'placeholder', 'for', 'checked', 'disabled', 'readonly', 'selected', 'multiple',
+  'datetime', 'open', 'start', 'reversed', 'action', 'method', 'loading',
+  'viewbox', 'xmlns', 'xlink:href', 'd', 'fill', 'stroke', 'stroke-width', 'stroke-linecap', 'stroke-linejoin',
+  'cx', 'cy', 'r', 'rx', 'ry', 'x', 'y', 'x1', 'y1', 'x2', 'y2', 'points', 'transform', 'opacity',
+])
+
+const URL_ATTRIBUTES = new Set(['href', 'src', 'xlink:href', 'action'])
+
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:', 'tel:'])
+
+// Raster images only; SVG data URLs can carry script
+const SAFE_DATA_IMAGE = /^data:image\/(png|jpe?g|gif|webp|avif);base64,[a-z0-9+/=\s]+$/i
+
+const UNSAFE_STYLE = /expression\s*\(|javascript:|vbscript:|@import|behavior\s*:|-moz-binding/i
+
+const CSS_URL = /url\(\s*['"]?([^'")]+)['"]?\s*\)/gi
+
+const apiOrigin = (): string => new URL(API_BASE).origin
+
+// Browsers ignore whitespace and control characters inside schemes ("java\tscript:")
+const stripControlCharacters = (value: string): string => {
+  return Array.from(value)
+    .filter((char) => char.charCodeAt(0) > 0x20)
+    .join('')
+}
+
+/**
+ * Whether a URL may be used in the given attribute. Relative URLs resolve
+ * against the Frappe site; `data:` is only accepted for raster images.
+ */
+export const isSafeUrl = (value: string, attribute: string = 'href'): boolean => {
+  const trimmed = stripControlCharacters(value)
+  if (!trimmed) return false
+  if (trimmed.startsWith('#')) return true
+  if (/^data:/i.test(trimmed)) return attribute === 'src' && SAFE_DATA_IMAGE.test(value.trim())
+
+  try {
+    return SAFE_PROTOCOLS.has(new URL(trimmed, API_BASE).protocol)
+  } catch {
+    return false
+  }
+}
+
+const sanitizeSrcset = (value: string): string | null => {
+  const candidates = value
+    .split(',')
+    .map((candidate) => candidate.trim())
+    .filter((candidate) => isSafeUrl(candidate.split(/\s+/)[0], 'src'))
+  return candidates.length > 0 ? candidates.join(', ') : null
+}
+
+const isSafeStyle = (value: string): boolean => {
+  if (UNSAFE_STYLE.test(value)) return false
+  return [...value.matchAll(CSS_URL)].every(([, url]) => isSafeUrl(url, 'src'))
+}
+
+const sanitizeAttributes = (element: Element): void => {
+  const tag = element.tagName.toLowerCase()
+
+  Array.from(element.attributes).forEach(({ name, value }) => {
+    const attribute = name.toLowerCase()
+    const keep =
+      attribute.startsWith('aria-') ||
+      (attribute.startsWith('data-') && !URL_ATTRIBUTES.has(attribute)) ||
+      ALLOWED_ATTRIBUTES.has(attribute)
+
+    if (!keep) {
+      element.removeAttribute(name)
+      return
+    }
+
+    if (attribute === 'srcset') {
+      const safe = sanitizeSrcset(value)
+      if (safe) element.setAttribute(name, safe)
+      else element.removeAttribute(name)
+    } else if (URL_ATTRIBUTES.has(attribute)) {
+      // SVG sprites may only reference symbols in the same document
+      const allowed = tag === 'use' ? value.trim().startsWith('#') : isSafeUrl(value, attribute)
+      if (!allowed) element.removeAttribute(name)
+    } else if (attribute === 'style' && !isSafeStyle(value)) {
+      element.removeAttribute(name)
+    }
+  })
+
+  if (tag === 'a' && element.getAttribute('target') === '_blank') {
+    element.setAttribute('rel', 'noopener noreferrer')
+  }
+  // Without their scripts, portal buttons must never submit anything
+  if (tag === 'button') {
+    element.setAttribute('type', 'button')
+  }
+}
+
+// Forms may only post back to the Frappe site
+const isForeignForm = (element: Element): boolean => {
+  const action = element.getAttribute('action')
+  if (!action) return false
+  try {
+    return new URL(action, API_BASE).origin !== apiOrigin()
+  } catch {
+    return true
+  }
+}
+
+const unwrap = (element: Element): void => {
+  element.replaceWith(...Array.from(element.childNodes))
+}
+
+/** Sanitizes `root`'s subtree in place. `root` itself is kept whatever its tag. */
+export const sanitizeElement = (root: Element): void => {
+  // Comments can hide conditional markup some parsers still honour
+  const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_COMMENT)
+  const comments: Node[] = []
+  while (walker.nextNode()) comments.push(walker.currentNode)
+  comments.forEach((comment) => comment.parentNode?.removeChild(comment))
+
+  // Children are visited before unwrapping so promoted nodes are still sanitized
+  const visit = (element: Element): void => {
+    Array.from(element.children).forEach((child) => {
+      const tag = child.tagName.toLowerCase()
+      if (DROPPED_TAGS.has(tag)) {
+        child.remove()
+        return
+      }
+
+      visit(child)
+
+      if (!ALLOWED_TAGS.has(tag) || (tag === 'form' && isForeignForm(child))) {
+        unwrap(child)
+      } else {
+        sanitizeAttributes(child)
+      }
+    })
+  }
+
+  visit(root)
+}
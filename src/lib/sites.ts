@@ -0,0 +1,75 @@
+// The Frappe site the app talks to, configured at build time (see .env.example).
+// A build can list several sites for suppliers who serve more than one GeriCare
+// entity; the one picked at login is remembered, and everything the app keeps
+// in localStorage is namespaced by it so sessions and cached data never mix.
+// Switching site reloads the app, so the current site is fixed for a page load.
+//
+// A site without a URL is reached through the app's own origin: the dev server
+// and the Vercel deployment proxy Frappe's paths (see vite.config.ts and
+// middleware.ts), so its session cookie is first-party.
+
+export interface FrappeSite {
+  id: string
+  label: string
+  url: string
+  // Reached through the same-origin proxy rather than at its own address
+  proxied: boolean
+}
+
+const CURRENT_SITE_KEY = 'frappe-site'
+
+/** When true every request is answered by the in-browser mock backend (see mocks/backend.ts). */
+export const MOCK_BACKEND = import.meta.env.VITE_MOCK_BACKEND === 'true'
+
+// An empty URL means Frappe is reached through the app's own origin
+const siteFromUrl = (url: string | undefined, label?: string): FrappeSite => {
+  const trimmed = url?.trim().replace(/\/+$/, '')
+  const host = new URL(trimmed || window.location.origin).host
+  return { id: host, label: label || host, url: trimmed || window.location.origin, proxied: !trimmed }
+}
+
+// `Label=https://url,Label 2=https://url2`; a bare URL is labelled by its host
+const parseSites = (raw: string | undefined): FrappeSite[] => {
+  if (!raw) return []
+  return raw
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry) => {
+      const separator = entry.indexOf('=')
+      const label = separator >= 0 ? entry.slice(0, separator).trim() : ''
+      const url = separator >= 0 ? entry.slice(separator + 1) : entry
+      try {
+        return [siteFromUrl(url, label)]
+      } catch {
+        console.warn(`Ignoring invalid entry in VITE_FRAPPE_SITES: ${entry}`)
+        return []
+      }
+    })
+}
+
+const configuredSites = (): FrappeSite[] => {
+  if (MOCK_BACKEND) return [{ id: 'mock', label: 'Mock backend', url: window.location.origin, proxied: false }]
+  const sites = parseSites(import.meta.env.VITE_FRAPPE_SITES)
+  return sites.length > 0 ? sites : [siteFromUrl(import.meta.env.VITE_FRAPPE_URL)]
+}
+
+export const SITES: FrappeSite[] = configuredSites()
+
+export const CURRENT_SITE: FrappeSite =
+  SITES.find((site) => site.id === localStorage.getItem(CURRENT_SITE_KEY)) ?? SITES[0]
+
+/**
+ * localStorage key for data that belongs to the current site. Single-site
+ * builds keep the plain key, so existing sessions and caches carry over.
+ */
+export const siteStorageKey = (key: string): string => {
+  return SITES.length > 1 || MOCK_BACKEND ? `${key}:${CURRENT_SITE.id}` : key
+}
+
+/** Makes `id` the current site and restarts the app against it. */
+export const switchSite = (id: string): void => {
+  if (id === CURRENT_SITE.id || !SITES.some((site) => site.id === id)) return
+  localStorage.setItem(CURRENT_SITE_KEY, id)
+  window.location.reload()
+}
@@ -0,0 +1,54 @@
+import { CURRENT_SITE } from '@/lib/sites'
+
+// Single sign-on through the Social Login Keys set up on the Frappe site, e.g.
+// Google or Microsoft 365 for suppliers on Google Workspace or Office. The
+// providers offered at login are configured at build time (see .env.example).
+//
+// Frappe finishes the OAuth exchange itself: the provider redirects to the
+// site's callback, which starts the session and sends the user back to the
+// app's login page. That only gives the app a first-party cookie when the site
+// is reached through the same-origin proxy, so other sites offer no providers.
+
+export interface SocialLoginProvider {
+  // Name of the Social Login Key on the site
+  id: string
+  label: string
+}
+
+// Query parameter Frappe's callback brings the user back to the login page with
+export const SOCIAL_LOGIN_PARAM = 'sso'
+
+const DEFAULT_LABELS: Record<string, string> = {
+  google: 'Google',
+  office_365: 'Microsoft 365',
+  github: 'GitHub',
+  facebook: 'Facebook',
+  frappe: 'Frappe',
+}
+
+// `google,office_365=Microsoft 365,keycloak=Company SSO`; known providers get a default label
+const parseProviders = (raw: string | undefined): SocialLoginProvider[] => {
+  if (!raw) return []
+  return raw
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf('=')
+      const id = (separator >= 0 ? entry.slice(0, separator) : entry).trim()
+      const label = separator >= 0 ? entry.slice(separator + 1).trim() : ''
+      return { id, label: label || DEFAULT_LABELS[id] || id }
+    })
+}
+
+export const SOCIAL_LOGIN_PROVIDERS: SocialLoginProvider[] =
+  CURRENT_SITE.proxied ? parseProviders(import.meta.env.VITE_SOCIAL_LOGINS) : []
+
+export const socialLoginLabel = (id: string): string => {
+  return SOCIAL_LOGIN_PROVIDERS.find((provider) => provider.id === id)?.label ?? DEFAULT_LABELS[id] ?? id
+}
+
+/** App path Frappe sends the user back to once `provider` has signed them in. */
+export const socialLoginReturnPath = (provider: string): string => {
+  return `/login?${SOCIAL_LOGIN_PARAM}=${encodeURIComponent(provider)}`
+}
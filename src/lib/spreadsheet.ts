@@ -0,0 +1,164 @@
+import { readZip } from '@/lib/zip'
+import { toIsoDate } from '@/lib/calendar'
+
+// Reading supplier spreadsheets (CSV or XLSX) into rows of cell text. Cells are
+// kept as text; callers parse numbers and dates per column with the helpers
+// below, which accept what Excel and a supplier's locale tend to produce.
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+// CSV
+// Excel writes `;` in locales where `,` is the decimal mark, and some systems export tabs
+const detectDelimiter = (firstLine: string): string => {
+  const counts = [',', ';', '\t'].map((delimiter) => [delimiter, firstLine.split(delimiter).length] as const)
+  return counts.reduce((best, candidate) => (candidate[1] > best[1] ? candidate : best))[0]
+}
+
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(source.slice(0, source.search(/\r?\n|$/)))
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index]
+    if (inQuotes) {
+      if (char === '"' && source[index + 1] === '"') {
+        cell += '"'
+        index++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') index++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell || row.length) rows.push([...row, cell])
+  return rows
+}
+
+// XLSX
+const SHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main'
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+
+const parseXml = (data: Uint8Array): Document => {
+  return new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml')
+}
+
+// Rich-text cells split their text into runs; `<t>` elements hold every piece
+const textOf = (element: Element): string => {
+  return Array.from(element.getElementsByTagNameNS(SHEET_NS, 't'))
+    .map((node) => node.textContent ?? '')
+    .join('')
+}
+
+// "BC12" → 54 (zero-based column index)
+const columnIndex = (ref: string): number => {
+  const letters = ref.replace(/\d+$/, '')
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+/** The first worksheet of an XLSX file, as cell text. */
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const files = await readZip(buffer, (name) => name.endsWith('.rels') || (name.startsWith('xl/') && name.endsWith('.xml')))
+  const workbook = files.get('xl/workbook.xml')
+  if (!workbook) throw new Error('This file is not an Excel workbook.')
+
+  // Follow the first <sheet> through the workbook relationships to its part
+  const firstSheet = parseXml(workbook).getElementsByTagNameNS(SHEET_NS, 'sheet')[0]
+  const relationshipId = firstSheet?.getAttributeNS(RELATIONSHIP_NS, 'id')
+  const relationships = files.get('xl/_rels/workbook.xml.rels')
+  const target = relationships
+    ? Array.from(parseXml(relationships).getElementsByTagName('Relationship'))
+        .find((relationship) => relationship.getAttribute('Id') === relationshipId)
+        ?.getAttribute('Target')
+    : null
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml'
+  const sheet = files.get(sheetPath)
+  if (!sheet) throw new Error('The workbook has no worksheets.')
+
+  const sharedStringsPart = files.get('xl/sharedStrings.xml')
+  const sharedStrings = sharedStringsPart
+    ? Array.from(parseXml(sharedStringsPart).getElementsByTagNameNS(SHEET_NS, 'si')).map(textOf)
+    : []
+
+  const rows: string[][] = []
+  for (const rowElement of Array.from(parseXml(sheet).getElementsByTagNameNS(SHEET_NS, 'row'))) {
+    // Empty rows and cells are left out of the file, so place everything by its reference
+    const rowIndex = Number(rowElement.getAttribute('r') ?? rows.length + 1) - 1
+    const row: string[] = []
+    for (const cell of Array.from(rowElement.getElementsByTagNameNS(SHEET_NS, 'c'))) {
+      const type = cell.getAttribute('t')
+      const value = cell.getElementsByTagNameNS(SHEET_NS, 'v')[0]?.textContent ?? ''
+      const text =
+        type === 's' ? (sharedStrings[Number(value)] ?? '') : type === 'inlineStr' ? textOf(cell) : value
+      row[columnIndex(cell.getAttribute('r') ?? '')] = text
+    }
+    rows[rowIndex] = Array.from(row, (cell) => cell ?? '')
+  }
+  return Array.from(rows, (row) => row ?? [])
+}
+
+/**
+ * Reads a CSV or XLSX file into rows of trimmed cells. Blank rows are kept so
+ * that index + 1 is the row number the supplier sees in their spreadsheet.
+ */
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  const isXlsx = /\.xlsx$/i.test(file.name)
+  const rows = isXlsx ? await parseXlsx(await file.arrayBuffer()) : parseCsv(await file.text())
+  return rows.map((row) => row.map((cell) => cell.trim()))
+}
+
+// Cell parsing
+/**
+ * Reads "1234.5", "1,234.50", "1.234,50" or "12,5" as a number, ignoring
+ * currency symbols. Returns null when the text isn't a number.
+ */
+export const parseNumber = (value: string): number | null => {
+  let text = value.replace(/[^\d,.-]/g, '')
+  if (!/\d/.test(text)) return null
+  const lastComma = text.lastIndexOf(',')
+  const lastDot = text.lastIndexOf('.')
+  if (lastComma > -1 && lastDot > -1) {
+    // Whichever separator comes last is the decimal mark
+    text = lastComma > lastDot ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '')
+  } else if (lastComma > -1) {
+    // A lone comma followed by exactly three digits is a thousands separator
+    text = /^-?\d{1,3}(,\d{3})+$/.test(text) ? text.replace(/,/g, '') : text.replace(',', '.')
+  } else if (text.indexOf('.') !== lastDot) {
+    // "1.234.567": dots only as thousands separators
+    text = text.replace(/\./g, '')
+  }
+  const number = Number(text)
+  return text && Number.isFinite(number) ? number : null
+}
+
+/**
+ * Reads `YYYY-MM-DD` text or an Excel date serial (how XLSX stores dates) as a
+ * Frappe date string. Returns null for anything else, since `03/04/2025` is
+ * ambiguous across locales.
+ */
+export const parseDateCell = (value: string): string | null => {
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10)
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    // Serial 25569 is 1970-01-01
+    const date = new Date((Math.floor(Number(value)) - 25_569) * 86_400_000)
+    return toIsoDate(new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  }
+  return null
+}
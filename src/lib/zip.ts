@@ -0,0 +1,140 @@
+// Minimal zip support for spreadsheets and document bundles. Entries we write
+// are stored uncompressed: spreadsheets are small and PDFs are already
+// compressed, so pulling in a deflate implementation isn't worth it. Reading
+// has to cope with deflated entries (every XLSX saved by Excel), which the
+// browser's DecompressionStream handles.
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array | string
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time, as zip headers store them
+const dosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+})
+
+export const createZip = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder()
+  const { time, date } = dosDateTime(new Date())
+  const parts: Uint8Array<ArrayBuffer>[] = []
+  const directory: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : new Uint8Array(entry.data)
+    const crc = crc32(data)
+
+    const local = new Uint8Array(30 + name.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint16(4, 20, true)
+    // Bit 11: names are UTF-8
+    localView.setUint16(6, 0x0800, true)
+    localView.setUint16(8, 0, true)
+    localView.setUint16(10, time, true)
+    localView.setUint16(12, date, true)
+    localView.setUint32(14, crc, true)
+    localView.setUint32(18, data.length, true)
+    localView.setUint32(22, data.length, true)
+    localView.setUint16(26, name.length, true)
+    local.set(name, 30)
+
+    const central = new Uint8Array(46 + name.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint16(4, 20, true)
+    centralView.setUint16(6, 20, true)
+    centralView.setUint16(8, 0x0800, true)
+    centralView.setUint16(10, 0, true)
+    centralView.setUint16(12, time, true)
+    centralView.setUint16(14, date, true)
+    centralView.setUint32(16, crc, true)
+    centralView.setUint32(20, data.length, true)
+    centralView.setUint32(24, data.length, true)
+    centralView.setUint16(28, name.length, true)
+    centralView.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    parts.push(local, data)
+    directory.push(central)
+    offset += local.length + data.length
+  }
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, entries.length, true)
+  endView.setUint16(10, entries.length, true)
+  endView.setUint32(12, directorySize, true)
+  endView.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...directory, end], { type: 'application/zip' })
+}
+
+const inflateRaw = async (data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/** Extracts the entries `include` accepts (all by default), keyed by name. */
+export const readZip = async (
+  buffer: ArrayBuffer,
+  include: (name: string) => boolean = () => true
+): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(buffer)
+  const decoder = new TextDecoder()
+
+  // The end-of-directory record sits at the very end, after an optional comment
+  let end = buffer.byteLength - 22
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--
+  if (end < 0) throw new Error('This is not a valid XLSX or zip file.')
+
+  const entryCount = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  const entries = new Map<string, Uint8Array>()
+
+  for (let index = 0; index < entryCount; index++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('The zip directory is damaged.')
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (!include(name)) continue
+    // The local header's extra field can differ from the directory's, so read its own lengths
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    const data = new Uint8Array(buffer, dataStart, compressedSize)
+    if (method === 0) entries.set(name, data)
+    else if (method === 8) entries.set(name, await inflateRaw(data))
+    else throw new Error(`Unsupported compression in ${name}.`)
+  }
+  return entries
+}
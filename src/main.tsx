@@ -3,11 +3,24 @@ import { createRoot } from 'react-dom/client'
 import { BrowserRouter } from 'react-router-dom'
 import './index.css'
 import App from './App.tsx'
+import { registerServiceWorker } from '@/lib/serviceWorker'
+import { MOCK_BACKEND } from '@/lib/sites'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <BrowserRouter>
-      <App />
-    </BrowserRouter>
-  </StrictMode>,
-)
+registerServiceWorker()
+
+// The mock backend has to be in place before the first request goes out
+const backendReady = MOCK_BACKEND
+  ? import('@/mocks/backend').then(({ installMockBackend }) => {
+      installMockBackend()
+    })
+  : Promise.resolve()
+
+backendReady.then(() => {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <BrowserRouter>
+        <App />
+      </BrowserRouter>
+    </StrictMode>,
+  )
+})
@@ -0,0 +1,491 @@
+// In-memory stand-in for the Frappe site, answering the requests the app makes
+// through `frappeFetch`. It keeps a session with its own CSRF token, so login,
+// logout and expiry behave like the real thing, and saved documents stay
+// around until the page is reloaded. Used by the mock-backend mode
+// (VITE_MOCK_BACKEND) and by the tests.
+
+import { configureFrappeClient } from '@/lib/frappe'
+import type { PermissionType } from '@/api/permissions'
+import { estimatePasswordScore } from '@/lib/password'
+import { createFixtures, type MockFixtures, type MockUser } from '@/mocks/fixtures'
+import { countMatching, runListQuery, type ListQuery, type MockDoc } from '@/mocks/query'
+
+export interface MockBackendOptions {
+  fixtures?: MockFixtures
+  // Milliseconds each response is held back, to make loading states visible
+  latency?: number
+  // Keeps the session across page loads, like the real site's `sid` cookie
+  sessionStorage?: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>
+  // Called with each email the site would send, e.g. password reset links
+  onEmail?: (email: MockEmail) => void
+}
+
+export interface MockEmail {
+  to: string
+  subject: string
+  // App path the email links to
+  link: string
+}
+
+export interface MockBackend {
+  fetch: typeof fetch
+  fixtures: MockFixtures
+  // The signed-in user's email, or null for a Guest session
+  readonly sessionUser: string | null
+  // Ends the session server-side, as an expiry or a logout elsewhere would
+  expireSession: () => void
+  // Gives the session a new CSRF token, as a login in another tab would
+  rotateCsrfToken: () => void
+}
+
+type RequestBody = Record<string, unknown> | FormData | null
+
+interface OrderLine {
+  name: string
+  idx: number
+  item_code: string
+  item_name: string
+  qty: number
+  uom: string
+  rate: number
+  billed_amt: number
+}
+
+interface MockRequest {
+  method: string
+  url: URL
+  headers: Headers
+  body: RequestBody
+}
+
+const SESSION_KEY = 'mock-backend-session'
+
+// The mock site enables the password policy with System Settings' default minimum score
+const MINIMUM_PASSWORD_SCORE = 2
+
+// Naming series for documents created through the app
+const NAME_PREFIXES: Record<string, string> = {
+  'Supplier Quotation': 'PUR-SQTN-',
+  'Purchase Invoice': 'ACC-PINV-',
+  'Advance Shipping Notice': 'ASN-',
+  'Item Price': 'IP-',
+  File: 'FILE-',
+}
+
+// Child tables of the DocTypes the app creates, so saved rows can be queried by `doctype`
+const CHILD_DOCTYPES: Record<string, Record<string, string>> = {
+  'Supplier Quotation': { items: 'Supplier Quotation Item' },
+  'Purchase Invoice': { items: 'Purchase Invoice Item' },
+  'Advance Shipping Notice': { items: 'Advance Shipping Notice Item' },
+}
+
+// Responses
+const json = (body: unknown, status = 200): Response => {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+const frappeError = (status: number, excType: string, message: string): Response => {
+  return json(
+    {
+      exc_type: excType,
+      exception: `frappe.exceptions.${excType}: ${message}`,
+      _server_messages: JSON.stringify([JSON.stringify({ message })]),
+    },
+    status
+  )
+}
+
+const notPermitted = (): Response => frappeError(403, 'PermissionError', 'Not permitted')
+
+const notFound = (what: string): Response => frappeError(404, 'DoesNotExistError', `${what} not found`)
+
+// A one-page PDF naming the document, enough for downloads and printing to be tried
+const samplePdf = (title: string): Blob => {
+  const text = title.replace(/[()\\]/g, '')
+  const stream = `BT /F1 18 Tf 72 720 Td (${text}) Tj ET`
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ]
+  let pdf = '%PDF-1.4\n'
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`
+    return offset
+  })
+  const xref = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+  return new Blob([pdf], { type: 'application/pdf' })
+}
+
+// Query strings carry JSON-encoded values, as `buildQuery` sends them
+const readQuery = (url: URL): Record<string, unknown> => {
+  const query: Record<string, unknown> = {}
+  url.searchParams.forEach((value, key) => {
+    try {
+      query[key] = JSON.parse(value)
+    } catch {
+      query[key] = value
+    }
+  })
+  return query
+}
+
+// Frappe's OAuth `state` is base64-encoded JSON
+const readOAuthState = (raw: unknown): { token: string; redirect_to: string | null } | null => {
+  try {
+    return JSON.parse(atob(String(raw)))
+  } catch {
+    return null
+  }
+}
+
+const readBody = (body: BodyInit | null | undefined): RequestBody => {
+  if (!body) return null
+  if (body instanceof FormData) return body
+  if (typeof body === 'string') return JSON.parse(body) as Record<string, unknown>
+  throw new Error('The mock backend only understands JSON and FormData bodies')
+}
+
+const randomToken = (): string => Math.random().toString(36).slice(2) + Math.random().toString(36).slice(2)
+
+const wait = (milliseconds: number, signal: AbortSignal | null | undefined): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer)
+      reject(new DOMException('The operation was aborted.', 'AbortError'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort)
+      resolve()
+    }, milliseconds)
+    if (signal?.aborted) abort()
+    else signal?.addEventListener('abort', abort, { once: true })
+  })
+}
+
+export const createMockBackend = (options: MockBackendOptions = {}): MockBackend => {
+  const fixtures = options.fixtures ?? createFixtures()
+  const latency = options.latency ?? 0
+  const storage = options.sessionStorage
+  const counters = new Map<string, number>()
+  // `<provider>:<token>` for each OAuth state handed out on the login page
+  const oauthStates = new Set<string>()
+
+  let session: { user: MockUser; csrfToken: string } | null = null
+  try {
+    const stored = JSON.parse(storage?.getItem(SESSION_KEY) || 'null') as { email: string; csrfToken: string } | null
+    const user = fixtures.users.find((candidate) => candidate.email === stored?.email)
+    if (user && stored) session = { user, csrfToken: stored.csrfToken }
+  } catch {
+    storage?.removeItem(SESSION_KEY)
+  }
+
+  const setSession = (next: typeof session) => {
+    session = next
+    if (next) storage?.setItem(SESSION_KEY, JSON.stringify({ email: next.user.email, csrfToken: next.csrfToken }))
+    else storage?.removeItem(SESSION_KEY)
+  }
+
+  const docsOf = (doctype: string): MockDoc[] => {
+    fixtures.docs[doctype] ??= []
+    return fixtures.docs[doctype]
+  }
+
+  // Only DocTypes in the fixtures exist, so a site without a customisation can be tried
+  const doctypeExists = (doctype: string): boolean => doctype in fixtures.docs
+
+  const can = (doctype: string, permType: PermissionType): boolean => {
+    if (!session) return false
+    const granted = session.user.permissions[doctype]
+    // DocTypes without rules are lookups the app only reads
+    return granted ? granted.includes(permType) : permType === 'read'
+  }
+
+  const nextName = (doctype: string): string => {
+    const prefix = NAME_PREFIXES[doctype] ?? `${doctype.replace(/\s+/g, '-').toUpperCase()}-`
+    const existing = docsOf(doctype).length
+    const next = Math.max(counters.get(doctype) ?? existing, existing) + 1
+    counters.set(doctype, next)
+    return `${prefix}${String(next).padStart(4, '0')}`
+  }
+
+  // Child rows get the names and `doctype` Frappe would give them
+  const withChildNames = (doctype: string, doc: MockDoc): MockDoc => {
+    Object.entries(doc).forEach(([field, value]) => {
+      if (!Array.isArray(value)) return
+      doc[field] = value.map((row: Record<string, unknown>, index) => ({
+        doctype: CHILD_DOCTYPES[doctype]?.[field],
+        name: `${doc.name}-${field}-${index + 1}`,
+        idx: index + 1,
+        ...row,
+      }))
+    })
+    return doc
+  }
+
+  // Whitelisted methods
+  const callMethod = (request: MockRequest, method: string): Response => {
+    const args = (request.method === 'GET' ? readQuery(request.url) : request.body) as Record<string, unknown> | null
+
+    switch (method) {
+      case 'login': {
+        const user = fixtures.users.find((candidate) => candidate.email === args?.usr && candidate.password === args?.pwd)
+        if (!user) return frappeError(401, 'AuthenticationError', 'Invalid login credentials')
+        setSession({ user, csrfToken: randomToken() })
+        return json({ message: 'Logged In', home_page: '/me', full_name: user.full_name })
+      }
+      case 'logout':
+        setSession(null)
+        return json({})
+      case 'frappe.auth.get_logged_user':
+        return json({ message: session?.user.email ?? 'Guest' })
+      case 'frappe.integrations.oauth2_logins.login_via_google':
+      case 'frappe.integrations.oauth2_logins.login_via_office365':
+        return socialLoginCallback(method.slice('frappe.integrations.oauth2_logins.login_via_'.length), args)
+      case 'frappe.core.doctype.user.user.reset_password': {
+        const user = fixtures.users.find((candidate) => candidate.email === args?.user)
+        if (!user) return json({ message: 'not found' }, 404)
+        const key = randomToken()
+        fixtures.resetKeys[key] = user.email
+        options.onEmail?.({ to: user.email, subject: 'Password Reset', link: `/update-password?key=${key}` })
+        return json({})
+      }
+      case 'frappe.core.doctype.user.user.test_password_strength': {
+        const score = estimatePasswordScore(String(args?.new_password ?? ''))
+        return json({
+          message: {
+            score,
+            feedback: {
+              password_policy_validation_passed: score >= MINIMUM_PASSWORD_SCORE,
+              warning: score < MINIMUM_PASSWORD_SCORE ? 'This password is easy to guess' : '',
+              suggestions: score < 3 ? ['Add another word or two. Uncommon words are better.'] : [],
+            },
+          },
+        })
+      }
+      case 'frappe.core.doctype.user.user.update_password': {
+        const email = fixtures.resetKeys[String(args?.key)]
+        const user = fixtures.users.find((candidate) => candidate.email === email)
+        if (!user) return json({ message: 'The reset password link has been expired' }, 410)
+        const password = String(args?.new_password ?? '')
+        if (estimatePasswordScore(password) < MINIMUM_PASSWORD_SCORE) {
+          return frappeError(417, 'ValidationError', 'Invalid Password: This password is easy to guess')
+        }
+        user.password = password
+        delete fixtures.resetKeys[String(args?.key)]
+        setSession({ user, csrfToken: randomToken() })
+        return json({ message: '/me' })
+      }
+    }
+
+    if (!session) return notPermitted()
+
+    switch (method) {
+      case 'frappe.core.doctype.user.user.get_roles':
+        return json({ message: session.user.email === args?.uid ? session.user.roles : [] })
+      case 'frappe.client.has_permission':
+        if (!doctypeExists(String(args?.doctype))) return notFound(`DocType ${args?.doctype}`)
+        return json({ message: { has_permission: can(String(args?.doctype), args?.perm_type as PermissionType) } })
+      case 'frappe.desk.reportview.get_count': {
+        const doctype = String(args?.doctype)
+        if (!can(doctype, 'read')) return notPermitted()
+        return json({ message: countMatching(docsOf(doctype), doctype, args?.filters) })
+      }
+      case 'frappe.utils.print_format.download_pdf': {
+        const doctype = String(args?.doctype)
+        const doc = docsOf(doctype).find((candidate) => candidate.name === String(args?.name))
+        if (!doc) return notFound(`${doctype} ${args?.name}`)
+        return new Response(samplePdf(`${doctype} ${doc.name}`), { headers: { 'Content-Type': 'application/pdf' } })
+      }
+      case 'erpnext.buying.doctype.purchase_order.purchase_order.make_purchase_invoice': {
+        const order = docsOf('Purchase Order').find((candidate) => candidate.name === args?.source_name)
+        if (!order) return notFound(`Purchase Order ${args?.source_name}`)
+        const lines = (order.items as OrderLine[]).flatMap((line) => {
+          const qty = line.qty - Math.round(line.billed_amt / line.rate)
+          if (qty <= 0) return []
+          return [
+            {
+              name: `new-purchase-invoice-item-${line.idx}`,
+              __islocal: 1,
+              item_code: line.item_code,
+              item_name: line.item_name,
+              qty,
+              uom: line.uom,
+              rate: line.rate,
+              amount: qty * line.rate,
+              purchase_order: order.name,
+              po_detail: line.name,
+            },
+          ]
+        })
+        return json({
+          message: {
+            name: 'new-purchase-invoice-1',
+            __islocal: 1,
+            supplier: order.supplier,
+            company: order.company,
+            currency: order.currency,
+            items: lines,
+          },
+        })
+      }
+      case 'upload_file': {
+        const form = request.body as FormData
+        const file = form.get('file') as File
+        const doc: MockDoc = {
+          name: nextName('File'),
+          file_name: file.name,
+          file_url: `/private/files/${file.name}`,
+          is_private: form.get('is_private') === '0' ? 0 : 1,
+          attached_to_doctype: form.get('doctype'),
+          attached_to_name: form.get('docname'),
+        }
+        docsOf('File').push(doc)
+        return json({ message: doc })
+      }
+      default:
+        return frappeError(404, 'DoesNotExistError', `Method ${method} is not available in the mock backend`)
+    }
+  }
+
+  // DocType resources
+  const resource = (request: MockRequest, doctype: string, name: string | null): Response => {
+    if (!session) return notPermitted()
+    if (!doctypeExists(doctype)) return notFound(`DocType ${doctype}`)
+    const docs = docsOf(doctype)
+    const index = name === null ? -1 : docs.findIndex((doc) => doc.name === name)
+
+    switch (request.method) {
+      case 'GET':
+        if (!can(doctype, 'read')) return notPermitted()
+        if (name === null) return json({ data: runListQuery(docs, doctype, readQuery(request.url) as ListQuery) })
+        return index >= 0 ? json({ data: docs[index] }) : notFound(`${doctype} ${name}`)
+      case 'POST': {
+        const body = request.body as Record<string, unknown>
+        if (!can(doctype, 'create') || (body.docstatus === 1 && !can(doctype, 'submit'))) return notPermitted()
+        const doc = withChildNames(doctype, { docstatus: 0, ...body, name: nextName(doctype) })
+        docs.push(doc)
+        return json({ data: doc })
+      }
+      case 'PUT': {
+        const body = request.body as Record<string, unknown>
+        if (index < 0) return notFound(`${doctype} ${name}`)
+        if (!can(doctype, 'write') || (body.docstatus === 1 && !can(doctype, 'submit'))) return notPermitted()
+        if (docs[index].docstatus !== 0 && docs[index].docstatus !== undefined) {
+          return frappeError(417, 'UpdateAfterSubmitError', 'Not allowed to change a submitted document')
+        }
+        docs[index] = withChildNames(doctype, { ...docs[index], ...body, name: docs[index].name })
+        return json({ data: docs[index] })
+      }
+      case 'DELETE':
+        if (index < 0) return notFound(`${doctype} ${name}`)
+        if (!can(doctype, 'delete')) return notPermitted()
+        docs.splice(index, 1)
+        return json({ message: 'ok' })
+      default:
+        return frappeError(405, 'ValidationError', 'Method not allowed')
+    }
+  }
+
+  // Frappe's callback, reached once the provider has signed the user in
+  const socialLoginCallback = (callback: string, args: Record<string, unknown> | null): Response => {
+    const provider = Object.keys(fixtures.socialLogins).find((name) => name.replace(/_/g, '') === callback)
+    const state = readOAuthState(args?.state)
+    const user = fixtures.users.find((candidate) => candidate.email === fixtures.socialLogins[provider ?? ''])
+    if (!provider || !state || !oauthStates.delete(`${provider}:${state.token}`) || !user) {
+      return frappeError(417, 'ValidationError', 'Invalid request')
+    }
+    setSession({ user, csrfToken: randomToken() })
+    return new Response(null, { status: 302, headers: { Location: state.redirect_to || '/me' } })
+  }
+
+  // Lists a button per Social Login Key; the mock provider approves straight
+  // away, so each links to the site's callback rather than to the provider
+  const loginPage = (url: URL): Response => {
+    const buttons = Object.keys(fixtures.socialLogins).map((provider) => {
+      const token = randomToken()
+      oauthStates.add(`${provider}:${token}`)
+      const state = btoa(JSON.stringify({ token, redirect_to: url.searchParams.get('redirect-to') }))
+      const callback = `/api/method/frappe.integrations.oauth2_logins.login_via_${provider.replace(/_/g, '')}`
+      return `<a href="${callback}?code=mock&amp;state=${encodeURIComponent(state)}" class="btn btn-block btn-default btn-sm btn-login-option btn-${provider}">${provider}</a>`
+    })
+    return new Response(`<html><body><main>${buttons.join('')}</main></body></html>`, {
+      headers: { 'Content-Type': 'text/html' },
+    })
+  }
+
+  // Portal pages render for a signed-in session only, like the website's login wall
+  const portalPage = (path: string): Response => {
+    const html = fixtures.portalPages[path]
+    if (!html) return new Response('<html><body><main><h1>Page not found</h1></main></body></html>', { status: 404 })
+    if (!session) return new Response('<html><body><main>Please log in</main></body></html>', { status: 403 })
+    return new Response(html.replace('{{csrf_token}}', session.csrfToken), {
+      headers: { 'Content-Type': 'text/html' },
+    })
+  }
+
+  const handle = (request: MockRequest): Response => {
+    const path = decodeURIComponent(request.url.pathname)
+    // Frappe rejects writes without the session's token
+    if (session && request.method !== 'GET' && request.headers.get('X-Frappe-CSRF-Token') !== session.csrfToken) {
+      const isLogin = path === '/api/method/login'
+      if (!isLogin) return frappeError(400, 'CSRFTokenError', 'Invalid Request')
+    }
+
+    if (path.startsWith('/api/method/')) return callMethod(request, path.slice('/api/method/'.length))
+
+    const resourceMatch = path.match(/^\/api\/resource\/([^/]+)(?:\/(.+))?$/)
+    if (resourceMatch) return resource(request, resourceMatch[1], resourceMatch[2] ?? null)
+
+    // Apps set up for the same-origin proxy ask for portal pages under /portal
+    const pagePath = path.replace(/^\/portal(?=\/|$)/, '').replace(/\/$/, '') || '/'
+    return pagePath === '/login' ? loginPage(request.url) : portalPage(pagePath)
+  }
+
+  const mockFetch: typeof fetch = async (input, init = {}) => {
+    const url = new URL(input instanceof Request ? input.url : String(input), 'http://mock.local')
+    const signal = init.signal
+    if (latency > 0) await wait(latency, signal)
+    if (signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError')
+
+    return handle({
+      method: (init.method ?? 'GET').toUpperCase(),
+      url,
+      headers: new Headers(init.headers),
+      body: readBody(init.body),
+    })
+  }
+
+  return {
+    fetch: mockFetch,
+    fixtures,
+    get sessionUser() {
+      return session?.user.email ?? null
+    },
+    expireSession: () => setSession(null),
+    rotateCsrfToken: () => {
+      if (session) setSession({ ...session, csrfToken: randomToken() })
+    },
+  }
+}
+
+/** Routes every Frappe request of this page load to a fresh mock backend. */
+export const installMockBackend = (): MockBackend => {
+  const backend = createMockBackend({
+    latency: 250,
+    sessionStorage: window.sessionStorage,
+    onEmail: (email) => console.info(`Mock email to ${email.to} (${email.subject}): ${email.link}`),
+  })
+  configureFrappeClient({ fetch: backend.fetch })
+  console.info(
+    'Using the mock backend. Log in as supplier@example.com / supplier, or set up the invited contact at ' +
+      '/update-password?key=welcome-key&welcome=1'
+  )
+  return backend
+}
@@ -0,0 +1,419 @@
+// Sample data for the mock backend: one supplier contact and a few months of
+// orders, RFQs, invoices and payments around it. Dates are relative to today
+// so overdue deliveries, ageing buckets and the calendar always have content.
+
+import { addDays, toIsoDate } from '@/lib/calendar'
+import type { PermissionType } from '@/api/permissions'
+import type { MockDoc } from '@/mocks/query'
+
+export interface MockUser {
+  email: string
+  // Null until an invited user sets one from their welcome link
+  password: string | null
+  full_name: string
+  roles: string[]
+  // DocType → permission types; DocTypes not listed are readable only
+  permissions: Record<string, PermissionType[]>
+}
+
+export interface MockFixtures {
+  users: MockUser[]
+  // DocType → documents, stored the way `getDoc` returns them
+  docs: Record<string, MockDoc[]>
+  // Portal path → page HTML; `{{csrf_token}}` is replaced with the session's token
+  portalPages: Record<string, string>
+  // Key from a reset or welcome link → the user it sets the password of
+  resetKeys: Record<string, string>
+  // Social Login Key name → the user its provider signs in
+  socialLogins: Record<string, string>
+}
+
+export const MOCK_SUPPLIER = 'Acme Medical Supplies'
+export const MOCK_COMPANY = 'GeriCare Health Ltd'
+// A contact who has been invited but not logged in yet; their welcome link is
+// /update-password?key=welcome-key&welcome=1
+export const MOCK_INVITED_USER = 'new.contact@example.com'
+export const MOCK_WELCOME_KEY = 'welcome-key'
+const CURRENCY = 'GBP'
+const VAT_RATE = 20
+
+const day = (offset: number): string => toIsoDate(addDays(new Date(), offset))
+
+const ITEMS = [
+  { item_code: 'MED-GLOVE-M', item_name: 'Nitrile Gloves (Medium)', stock_uom: 'Box', conversions: ['Carton'] },
+  { item_code: 'MED-MASK-3PLY', item_name: 'Surgical Masks 3-Ply', stock_uom: 'Box', conversions: ['Carton'] },
+  { item_code: 'MED-SANITISER-500', item_name: 'Hand Sanitiser 500ml', stock_uom: 'Bottle', conversions: [] },
+  { item_code: 'MED-WIPES', item_name: 'Disinfectant Wipes', stock_uom: 'Pack', conversions: ['Case'] },
+  { item_code: 'MED-APRON', item_name: 'Disposable Aprons', stock_uom: 'Roll', conversions: [] },
+]
+
+const itemName = (itemCode: string): string => ITEMS.find((item) => item.item_code === itemCode)?.item_name ?? itemCode
+
+const stockUom = (itemCode: string): string => ITEMS.find((item) => item.item_code === itemCode)?.stock_uom ?? 'Nos'
+
+interface OrderLine {
+  item_code: string
+  qty: number
+  rate: number
+  received_qty?: number
+  billed_qty?: number
+  due: number
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100
+
+const purchaseOrder = (
+  name: string,
+  options: { ordered: number; status: string; docstatus?: number; lines: OrderLine[] }
+): MockDoc => {
+  const items = options.lines.map((line, index) => ({
+    doctype: 'Purchase Order Item',
+    name: `${name}-item-${index + 1}`,
+    idx: index + 1,
+    item_code: line.item_code,
+    item_name: itemName(line.item_code),
+    description: itemName(line.item_code),
+    qty: line.qty,
+    received_qty: line.received_qty ?? 0,
+    uom: stockUom(line.item_code),
+    rate: line.rate,
+    amount: round(line.qty * line.rate),
+    billed_amt: round((line.billed_qty ?? 0) * line.rate),
+    schedule_date: day(line.due),
+    warehouse: 'Stores - GC',
+  }))
+  const netTotal = round(items.reduce((total, item) => total + item.amount, 0))
+  const taxAmount = round((netTotal * VAT_RATE) / 100)
+  const orderedQty = items.reduce((total, item) => total + item.qty, 0)
+  const receivedQty = items.reduce((total, item) => total + item.received_qty, 0)
+  const billed = items.reduce((total, item) => total + item.billed_amt, 0)
+
+  return {
+    name,
+    docstatus: options.docstatus ?? 1,
+    supplier: MOCK_SUPPLIER,
+    supplier_name: MOCK_SUPPLIER,
+    company: MOCK_COMPANY,
+    transaction_date: day(options.ordered),
+    schedule_date: items.map((item) => item.schedule_date).sort()[0],
+    status: options.status,
+    per_received: round((receivedQty / orderedQty) * 100),
+    per_billed: round((billed / netTotal) * 100),
+    currency: CURRENCY,
+    total: netTotal,
+    net_total: netTotal,
+    total_taxes_and_charges: taxAmount,
+    discount_amount: 0,
+    apply_discount_on: 'Grand Total',
+    grand_total: round(netTotal + taxAmount),
+    rounded_total: Math.round(netTotal + taxAmount),
+    terms: 'Payment within 30 days of invoice.',
+    items,
+    taxes: [
+      {
+        doctype: 'Purchase Taxes and Charges',
+        name: `${name}-tax-1`,
+        idx: 1,
+        charge_type: 'On Net Total',
+        account_head: 'VAT - GC',
+        description: `VAT ${VAT_RATE}%`,
+        rate: VAT_RATE,
+        tax_amount: taxAmount,
+        total: round(netTotal + taxAmount),
+      },
+    ],
+  }
+}
+
+const requestForQuotation = (
+  name: string,
+  options: { requested: number; due: number; lines: Array<{ item_code: string; qty: number }> }
+): MockDoc => ({
+  name,
+  docstatus: 1,
+  transaction_date: day(options.requested),
+  schedule_date: day(options.due),
+  status: 'Submitted',
+  company: MOCK_COMPANY,
+  message_for_supplier: 'Please quote your best price including delivery to our central stores.',
+  suppliers: [{ doctype: 'Request for Quotation Supplier', name: `${name}-supplier-1`, supplier: MOCK_SUPPLIER }],
+  items: options.lines.map((line, index) => ({
+    doctype: 'Request for Quotation Item',
+    name: `${name}-item-${index + 1}`,
+    idx: index + 1,
+    item_code: line.item_code,
+    item_name: itemName(line.item_code),
+    description: itemName(line.item_code),
+    qty: line.qty,
+    uom: stockUom(line.item_code),
+    schedule_date: day(options.due),
+    warehouse: 'Stores - GC',
+  })),
+})
+
+const purchaseInvoice = (
+  name: string,
+  options: { billNo: string; posted: number; due: number; grandTotal: number; outstanding: number; status: string }
+): MockDoc => ({
+  name,
+  docstatus: 1,
+  supplier: MOCK_SUPPLIER,
+  company: MOCK_COMPANY,
+  bill_no: options.billNo,
+  bill_date: day(options.posted),
+  posting_date: day(options.posted),
+  due_date: day(options.due),
+  status: options.status,
+  grand_total: options.grandTotal,
+  outstanding_amount: options.outstanding,
+  currency: CURRENCY,
+  items: [],
+})
+
+const paymentEntry = (
+  name: string,
+  options: { paid: number; reference: string; allocations: Array<{ invoice: string; amount: number }> }
+): MockDoc => ({
+  name,
+  docstatus: 1,
+  payment_type: 'Pay',
+  party_type: 'Supplier',
+  party: MOCK_SUPPLIER,
+  posting_date: day(options.paid),
+  reference_no: options.reference,
+  reference_date: day(options.paid),
+  mode_of_payment: 'Bank Transfer',
+  references: options.allocations.map((allocation, index) => ({
+    doctype: 'Payment Entry Reference',
+    name: `${name}-ref-${index + 1}`,
+    reference_doctype: 'Purchase Invoice',
+    reference_name: allocation.invoice,
+    allocated_amount: allocation.amount,
+  })),
+})
+
+const PORTAL_HOME = `<!DOCTYPE html>
+<html>
+<head>
+  <style>body { font-family: sans-serif; } .portal-card { padding: 1rem; border: 1px solid #e5e7eb; border-radius: 0.5rem; }</style>
+  <script>frappe.csrf_token = "{{csrf_token}}";</script>
+</head>
+<body>
+  <main>
+    <h2>My Account</h2>
+    <div class="portal-card">
+      <p>You are signed in to the GeriCare supplier portal (mock backend).</p>
+      <a href="/purchase-orders">View purchase orders</a>
+    </div>
+  </main>
+</body>
+</html>`
+
+/** A fresh copy of the sample data; the mock backend changes it as documents are saved. */
+export const createFixtures = (): MockFixtures => ({
+  users: [
+    {
+      email: 'supplier@example.com',
+      password: 'supplier',
+      full_name: 'Sam Supplier',
+      roles: ['Supplier'],
+      permissions: {
+        'Purchase Order': ['read'],
+        'Request for Quotation': ['read'],
+        'Supplier Quotation': ['read', 'create', 'write', 'submit'],
+        'Purchase Invoice': ['read', 'create'],
+        'Advance Shipping Notice': ['read', 'create'],
+        'Item Price': ['read', 'create', 'write'],
+        'Payment Entry': ['read'],
+      },
+    },
+    {
+      email: MOCK_INVITED_USER,
+      password: null,
+      full_name: 'Nia Contact',
+      roles: ['Supplier'],
+      permissions: {
+        'Purchase Order': ['read'],
+        'Request for Quotation': ['read'],
+        'Supplier Quotation': ['read', 'create', 'write', 'submit'],
+        'Payment Entry': ['read'],
+      },
+    },
+  ],
+  docs: {
+    Contact: [
+      {
+        name: 'Sam Supplier-Acme',
+        user: 'supplier@example.com',
+        links: [{ doctype: 'Dynamic Link', link_doctype: 'Supplier', link_name: MOCK_SUPPLIER }],
+      },
+      {
+        name: 'Nia Contact-Acme',
+        user: MOCK_INVITED_USER,
+        links: [{ doctype: 'Dynamic Link', link_doctype: 'Supplier', link_name: MOCK_SUPPLIER }],
+      },
+    ],
+    Supplier: [
+      { name: MOCK_SUPPLIER, supplier_name: MOCK_SUPPLIER, default_price_list: 'Acme Buying', default_currency: CURRENCY },
+    ],
+    Item: ITEMS.map((item) => ({
+      name: item.item_code,
+      item_name: item.item_name,
+      stock_uom: item.stock_uom,
+      disabled: 0,
+      uoms: item.conversions.map((uom) => ({ doctype: 'UOM Conversion Detail', uom })),
+    })),
+    'Item Price': [
+      { name: 'IP-0001', item_code: 'MED-GLOVE-M', uom: 'Box', price_list: 'Acme Buying', supplier: MOCK_SUPPLIER, price_list_rate: 6.5, currency: CURRENCY, valid_from: day(-120) },
+      { name: 'IP-0002', item_code: 'MED-MASK-3PLY', uom: 'Box', price_list: 'Acme Buying', supplier: MOCK_SUPPLIER, price_list_rate: 4.2, currency: CURRENCY, valid_from: day(-120) },
+      { name: 'IP-0003', item_code: 'MED-SANITISER-500', uom: 'Bottle', price_list: 'Acme Buying', supplier: MOCK_SUPPLIER, price_list_rate: 3.1, currency: CURRENCY, valid_from: day(-60) },
+    ],
+    'Purchase Order': [
+      purchaseOrder('PUR-ORD-0001', {
+        ordered: -75,
+        status: 'Completed',
+        lines: [
+          { item_code: 'MED-GLOVE-M', qty: 200, rate: 6.5, received_qty: 200, billed_qty: 200, due: -60 },
+          { item_code: 'MED-MASK-3PLY', qty: 150, rate: 4.2, received_qty: 150, billed_qty: 150, due: -60 },
+        ],
+      }),
+      purchaseOrder('PUR-ORD-0002', {
+        ordered: -40,
+        status: 'To Bill',
+        lines: [{ item_code: 'MED-SANITISER-500', qty: 300, rate: 3.1, received_qty: 300, billed_qty: 100, due: -25 }],
+      }),
+      purchaseOrder('PUR-ORD-0003', {
+        ordered: -20,
+        status: 'To Receive and Bill',
+        lines: [
+          { item_code: 'MED-GLOVE-M', qty: 400, rate: 6.5, received_qty: 250, due: -5 },
+          { item_code: 'MED-WIPES', qty: 120, rate: 2.75, due: 3 },
+        ],
+      }),
+      purchaseOrder('PUR-ORD-0004', {
+        ordered: -6,
+        status: 'To Receive and Bill',
+        lines: [
+          { item_code: 'MED-APRON', qty: 80, rate: 9.9, due: 7 },
+          { item_code: 'MED-MASK-3PLY', qty: 250, rate: 4.2, due: 14 },
+        ],
+      }),
+      purchaseOrder('PUR-ORD-0005', {
+        ordered: -2,
+        status: 'On Hold',
+        lines: [{ item_code: 'MED-WIPES', qty: 60, rate: 2.75, due: 21 }],
+      }),
+      // Drafts never reach the supplier
+      purchaseOrder('PUR-ORD-0006', {
+        ordered: 0,
+        status: 'Draft',
+        docstatus: 0,
+        lines: [{ item_code: 'MED-GLOVE-M', qty: 100, rate: 6.5, due: 30 }],
+      }),
+    ],
+    'Request for Quotation': [
+      requestForQuotation('PUR-RFQ-0001', {
+        requested: -30,
+        due: -10,
+        lines: [{ item_code: 'MED-SANITISER-500', qty: 500 }],
+      }),
+      requestForQuotation('PUR-RFQ-0002', {
+        requested: -3,
+        due: 10,
+        lines: [
+          { item_code: 'MED-GLOVE-M', qty: 1000 },
+          { item_code: 'MED-APRON', qty: 200 },
+        ],
+      }),
+    ],
+    'Supplier Quotation': [
+      {
+        name: 'PUR-SQTN-0001',
+        docstatus: 1,
+        supplier: MOCK_SUPPLIER,
+        company: MOCK_COMPANY,
+        valid_till: day(20),
+        terms: null,
+        items: [
+          {
+            doctype: 'Supplier Quotation Item',
+            name: 'PUR-SQTN-0001-item-1',
+            item_code: 'MED-SANITISER-500',
+            qty: 500,
+            uom: 'Bottle',
+            rate: 2.95,
+            lead_time_days: 7,
+            description: null,
+            request_for_quotation: 'PUR-RFQ-0001',
+            request_for_quotation_item: 'PUR-RFQ-0001-item-1',
+          },
+        ],
+      },
+    ],
+    'Purchase Invoice': [
+      purchaseInvoice('ACC-PINV-0001', { billNo: 'ACME-1001', posted: -58, due: -28, grandTotal: 2316, outstanding: 0, status: 'Paid' }),
+      purchaseInvoice('ACC-PINV-0002', { billNo: 'ACME-1002', posted: -50, due: -20, grandTotal: 1440, outstanding: 0, status: 'Paid' }),
+      purchaseInvoice('ACC-PINV-0003', { billNo: 'ACME-1003', posted: -24, due: 6, grandTotal: 372, outstanding: 172, status: 'Partly Paid' }),
+      purchaseInvoice('ACC-PINV-0004', { billNo: 'ACME-1004', posted: -45, due: -15, grandTotal: 1116, outstanding: 1116, status: 'Overdue' }),
+    ],
+    'Payment Entry': [
+      paymentEntry('ACC-PAY-0001', {
+        paid: -27,
+        reference: 'BACS-55120',
+        allocations: [{ invoice: 'ACC-PINV-0001', amount: 2316 }],
+      }),
+      paymentEntry('ACC-PAY-0002', {
+        paid: -19,
+        reference: 'BACS-55187',
+        allocations: [
+          { invoice: 'ACC-PINV-0002', amount: 1440 },
+          { invoice: 'ACC-PINV-0003', amount: 200 },
+        ],
+      }),
+    ],
+    'Advance Shipping Notice': [
+      {
+        name: 'ASN-0001',
+        docstatus: 0,
+        supplier: MOCK_SUPPLIER,
+        purchase_order: 'PUR-ORD-0003',
+        carrier: 'DPD',
+        tracking_number: '15501234567890',
+        shipment_date: day(-1),
+        expected_arrival: day(1),
+        notes: '',
+        items: [
+          { doctype: 'Advance Shipping Notice Item', name: 'ASN-0001-items-1', idx: 1, purchase_order_item: 'PUR-ORD-0003-item-1', item_code: 'MED-GLOVE-M', item_name: itemName('MED-GLOVE-M'), qty: 100, uom: stockUom('MED-GLOVE-M'), batch_no: '', serial_nos: '', expiry_date: null },
+        ],
+      },
+      // Cancelled notices no longer count against what is still due
+      {
+        name: 'ASN-0002',
+        docstatus: 2,
+        supplier: MOCK_SUPPLIER,
+        purchase_order: 'PUR-ORD-0003',
+        carrier: 'DPD',
+        tracking_number: '',
+        shipment_date: day(-3),
+        expected_arrival: day(-1),
+        notes: '',
+        items: [
+          { doctype: 'Advance Shipping Notice Item', name: 'ASN-0002-items-1', idx: 1, purchase_order_item: 'PUR-ORD-0003-item-2', item_code: 'MED-WIPES', item_name: itemName('MED-WIPES'), qty: 120, uom: stockUom('MED-WIPES'), batch_no: '', serial_nos: '', expiry_date: null },
+        ],
+      },
+    ],
+    'Print Format': [{ name: 'GeriCare PO', doc_type: 'Purchase Order', disabled: 0 }],
+    'Letter Head': [{ name: 'GeriCare', is_default: 1, disabled: 0 }],
+    File: [],
+  },
+  portalPages: {
+    '/me': PORTAL_HOME,
+  },
+  resetKeys: {
+    [MOCK_WELCOME_KEY]: MOCK_INVITED_USER,
+  },
+  socialLogins: {
+    google: 'supplier@example.com',
+    office_365: MOCK_INVITED_USER,
+  },
+})
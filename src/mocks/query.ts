@@ -0,0 +1,265 @@
+// Evaluates `/api/resource` list queries against in-memory documents, covering
+// the subset of Frappe's query syntax the app uses: plain and `tabChild`
+// fields, aggregates, 3- and 4-element filters, order_by, group_by and paging.
+//
+// Documents are stored the way `getDoc` returns them, with child tables as
+// arrays of rows that carry their own `doctype`. A field from a child table
+// joins it (one row per child, parents without children kept); a filter on a
+// child table matches parents with at least one matching child.
+
+export type MockDoc = Record<string, unknown> & { name: string }
+
+export interface ListQuery {
+  fields?: string[]
+  filters?: unknown
+  or_filters?: unknown
+  order_by?: string
+  group_by?: string
+  limit_start?: number
+  limit_page_length?: number
+}
+
+interface QueryRow {
+  doc: MockDoc
+  // The joined child row, when the fields ask for one
+  child?: Record<string, unknown>
+}
+
+interface Condition {
+  doctype: string | null
+  field: string
+  operator: string
+  value: unknown
+}
+
+type Column =
+  | { kind: 'field'; doctype: string | null; field: string; alias: string }
+  | { kind: 'aggregate'; fn: string; field: string; alias: string }
+
+const DEFAULT_PAGE_LENGTH = 20
+
+const AGGREGATE_PATTERN = /^(count|sum|max|min|avg)\(\s*(?:`tab[^`]+`\.)?([\w*]+)\s*\)(?:\s+as\s+(\w+))?$/i
+const COLUMN_PATTERN = /^(?:`tab([^`]+)`\.)?([\w*]+)(?:\s+as\s+(\w+))?$/i
+
+// Parsing
+const parseColumn = (spec: string): Column => {
+  const trimmed = spec.trim()
+  const aggregate = trimmed.match(AGGREGATE_PATTERN)
+  if (aggregate) {
+    const [, fn, field, alias] = aggregate
+    return { kind: 'aggregate', fn: fn.toLowerCase(), field, alias: alias || `${fn.toLowerCase()}(${field})` }
+  }
+  const column = trimmed.match(COLUMN_PATTERN)
+  if (!column) throw new Error(`Unsupported field in mock query: ${spec}`)
+  const [, doctype, field, alias] = column
+  return { kind: 'field', doctype: doctype ?? null, field, alias: alias || field }
+}
+
+const parseConditions = (filters: unknown): Condition[] => {
+  if (!filters) return []
+  if (Array.isArray(filters)) {
+    return filters.map((filter: unknown[]) =>
+      filter.length >= 4
+        ? { doctype: String(filter[0]), field: String(filter[1]), operator: String(filter[2]), value: filter[3] }
+        : { doctype: null, field: String(filter[0]), operator: String(filter[1]), value: filter[2] }
+    )
+  }
+  // `{ field: value }` or `{ field: [operator, value] }`
+  return Object.entries(filters as Record<string, unknown>).map(([field, value]) =>
+    Array.isArray(value)
+      ? { doctype: null, field, operator: String(value[0]), value: value[1] }
+      : { doctype: null, field, operator: '=', value }
+  )
+}
+
+// Evaluation
+const childRows = (doc: MockDoc, doctype: string): Record<string, unknown>[] => {
+  return Object.values(doc).flatMap((value) =>
+    Array.isArray(value)
+      ? value.filter((row): row is Record<string, unknown> => (row as { doctype?: unknown })?.doctype === doctype)
+      : []
+  )
+}
+
+// Frappe compares NULL as an empty string in most filters
+const asText = (value: unknown): string => (value === null || value === undefined ? '' : String(value))
+
+const isNumeric = (value: unknown): boolean => value !== '' && value !== null && !Number.isNaN(Number(value))
+
+const compare = (a: unknown, b: unknown): number => {
+  if (isNumeric(a) && isNumeric(b)) return Number(a) - Number(b)
+  return asText(a).localeCompare(asText(b))
+}
+
+const asList = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value
+  return asText(value)
+    .split(',')
+    .map((entry) => entry.trim())
+}
+
+const likePattern = (pattern: unknown): RegExp => {
+  const escaped = asText(pattern).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`^${escaped.replace(/%/g, '.*').replace(/_/g, '.')}$`, 'i')
+}
+
+const matchesValue = (actual: unknown, operator: string, expected: unknown): boolean => {
+  switch (operator.toLowerCase()) {
+    case '=':
+      return compare(actual, expected) === 0
+    case '!=':
+      return compare(actual, expected) !== 0
+    case '>':
+      return compare(actual, expected) > 0
+    case '<':
+      return compare(actual, expected) < 0
+    case '>=':
+      return compare(actual, expected) >= 0
+    case '<=':
+      return compare(actual, expected) <= 0
+    case 'like':
+      return likePattern(expected).test(asText(actual))
+    case 'not like':
+      return !likePattern(expected).test(asText(actual))
+    case 'in':
+      return asList(expected).some((entry) => compare(actual, entry) === 0)
+    case 'not in':
+      return !asList(expected).some((entry) => compare(actual, entry) === 0)
+    case 'is':
+      return expected === 'set' ? asText(actual) !== '' : asText(actual) === ''
+    case 'between': {
+      const [from, to] = asList(expected)
+      return compare(actual, from) >= 0 && compare(actual, to) <= 0
+    }
+    default:
+      throw new Error(`Unsupported operator in mock query: ${operator}`)
+  }
+}
+
+const matchesCondition = (row: QueryRow, doctype: string, condition: Condition): boolean => {
+  if (!condition.doctype || condition.doctype === doctype) {
+    return matchesValue(row.doc[condition.field], condition.operator, condition.value)
+  }
+  if (row.child && row.child.doctype === condition.doctype) {
+    return matchesValue(row.child[condition.field], condition.operator, condition.value)
+  }
+  return childRows(row.doc, condition.doctype).some((child) =>
+    matchesValue(child[condition.field], condition.operator, condition.value)
+  )
+}
+
+const columnValue = (row: QueryRow, doctype: string, column: { doctype: string | null; field: string }): unknown => {
+  const source = column.doctype && column.doctype !== doctype ? row.child : row.doc
+  return source?.[column.field] ?? null
+}
+
+// `transaction_date desc, `tabPurchase Order Item`.schedule_date asc`
+const sortRows = (rows: QueryRow[], doctype: string, orderBy: string | undefined): QueryRow[] => {
+  if (!orderBy) return rows
+  const keys = orderBy.split(',').map((part) => {
+    const [, spec, direction = 'asc'] = part.trim().match(/^(.+?)(?:\s+(asc|desc))?$/i) ?? []
+    return { column: parseColumn(spec), descending: direction.toLowerCase() === 'desc' }
+  })
+  return [...rows].sort((a, b) => {
+    for (const { column, descending } of keys) {
+      if (column.kind !== 'field') continue
+      const difference = compare(columnValue(a, doctype, column), columnValue(b, doctype, column))
+      if (difference !== 0) return descending ? -difference : difference
+    }
+    return 0
+  })
+}
+
+const aggregate = (rows: QueryRow[], doctype: string, column: Extract<Column, { kind: 'aggregate' }>): unknown => {
+  if (column.fn === 'count') return rows.length
+  const values = rows
+    .map((row) => columnValue(row, doctype, { doctype: null, field: column.field }))
+    .filter((value) => value !== null && value !== undefined)
+  if (values.length === 0) return null
+  switch (column.fn) {
+    case 'sum':
+      return values.reduce((total: number, value) => total + Number(value), 0)
+    case 'avg':
+      return values.reduce((total: number, value) => total + Number(value), 0) / values.length
+    case 'max':
+      return values.reduce((best, value) => (compare(value, best) > 0 ? value : best))
+    default:
+      return values.reduce((best, value) => (compare(value, best) < 0 ? value : best))
+  }
+}
+
+// Keeps the first-seen order of the groups, so order_by still applies to them
+const groupRows = (rows: QueryRow[], doctype: string, groupBy: string): QueryRow[][] => {
+  const column = parseColumn(groupBy)
+  if (column.kind !== 'field') throw new Error(`Unsupported group_by in mock query: ${groupBy}`)
+  const groups = new Map<unknown, QueryRow[]>()
+  rows.forEach((row) => {
+    const key = columnValue(row, doctype, column)
+    groups.set(key, [...(groups.get(key) ?? []), row])
+  })
+  return [...groups.values()]
+}
+
+const scalarFields = (doc: MockDoc): Record<string, unknown> => {
+  return Object.fromEntries(Object.entries(doc).filter(([, value]) => !Array.isArray(value)))
+}
+
+const matchingRows = (docs: MockDoc[], doctype: string, query: ListQuery, joinDoctype: string | null): QueryRow[] => {
+  const conditions = parseConditions(query.filters)
+  const orConditions = parseConditions(query.or_filters)
+  const rows: QueryRow[] = docs.flatMap((doc) => {
+    if (!joinDoctype) return [{ doc }]
+    const children = childRows(doc, joinDoctype)
+    return children.length > 0 ? children.map((child) => ({ doc, child })) : [{ doc }]
+  })
+  return rows.filter(
+    (row) =>
+      conditions.every((condition) => matchesCondition(row, doctype, condition)) &&
+      (orConditions.length === 0 || orConditions.some((condition) => matchesCondition(row, doctype, condition)))
+  )
+}
+
+/** Runs a list query the way `frappe.client.get_list` would. */
+export const runListQuery = (docs: MockDoc[], doctype: string, query: ListQuery): Record<string, unknown>[] => {
+  const columns = (query.fields?.length ? query.fields : ['name']).map(parseColumn)
+  const joinDoctype =
+    columns.flatMap((column) =>
+      column.kind === 'field' && column.doctype && column.doctype !== doctype ? [column.doctype] : []
+    )[0] ?? null
+  const rows = sortRows(matchingRows(docs, doctype, query, joinDoctype), doctype, query.order_by)
+
+  const start = Number(query.limit_start ?? 0)
+  const pageLength = Number(query.limit_page_length ?? DEFAULT_PAGE_LENGTH)
+  const paginate = <T,>(items: T[]): T[] => (pageLength > 0 ? items.slice(start, start + pageLength) : items.slice(start))
+
+  // group_by gives a row per group; aggregates without it collapse the result to a single row
+  if (query.group_by || columns.some((column) => column.kind === 'aggregate')) {
+    const groups = query.group_by ? groupRows(rows, doctype, query.group_by) : [rows]
+    const results = groups.map((group) => {
+      const result: Record<string, unknown> = {}
+      columns.forEach((column) => {
+        result[column.alias] =
+          column.kind === 'aggregate' ? aggregate(group, doctype, column) : group[0] ? columnValue(group[0], doctype, column) : null
+      })
+      return result
+    })
+    return query.group_by ? paginate(results) : results
+  }
+
+  const page = paginate(rows)
+
+  return page.map((row) => {
+    const result: Record<string, unknown> = {}
+    columns.forEach((column) => {
+      if (column.kind !== 'field') return
+      if (column.field === '*') Object.assign(result, scalarFields(row.doc))
+      else result[column.alias] = columnValue(row, doctype, column)
+    })
+    return result
+  })
+}
+
+/** `frappe.desk.reportview.get_count` with `distinct`: parents matching `filters`. */
+export const countMatching = (docs: MockDoc[], doctype: string, filters: unknown): number => {
+  return matchingRows(docs, doctype, { filters }, null).length
+}
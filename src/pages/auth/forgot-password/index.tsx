@@ -0,0 +1,10 @@
+import { AuthLayout } from '@/components/layout/AuthLayout'
+import { ForgotPasswordCard } from '@/components/ui/auth/forgot-password/ForgotPasswordCard'
+
+export default function ForgotPasswordPage() {
+  return (
+    <AuthLayout>
+      <ForgotPasswordCard />
+    </AuthLayout>
+  )
+}
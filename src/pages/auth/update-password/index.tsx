@@ -0,0 +1,19 @@
+import { useSearchParams } from 'react-router-dom'
+import { AuthLayout } from '@/components/layout/AuthLayout'
+import { UpdatePasswordCard } from '@/components/ui/auth/update-password/UpdatePasswordCard'
+
+// Landing page of Frappe's reset and welcome emails. Frappe sends the same
+// link for both, so the site's welcome email template appends `&welcome=1`
+// to `{{ link }}` to give invited contacts the first-login flow.
+export default function UpdatePasswordPage() {
+  const [searchParams] = useSearchParams()
+
+  return (
+    <AuthLayout>
+      <UpdatePasswordCard
+        resetKey={searchParams.get('key')}
+        isWelcome={searchParams.get('welcome') === '1'}
+      />
+    </AuthLayout>
+  )
+}
@@ -1,270 +1,28 @@
-import { useEffect, useState, useRef, useCallback } from 'react'
+import { useEffect, useState, useCallback } from 'react'
 import { useNavigate, useLocation } from 'react-router-dom'
+import { useAuthStore } from '@/stores/useAuthStore'
 import { Button } from '@/components/ui/button'
-import { useAuthStore, API_BASE } from '@/stores/useAuthStore'
+import { AccessDenied } from '@/components/ui/errors/AccessDenied'
+import { OfflineBanner } from '@/components/ui/offline/OfflineBanner'
+import { PortalContent } from '@/components/ui/portal/PortalContent'
+import { FrappeError, isAbortError } from '@/lib/frappe'
+import { getCached, isFresh, type CacheEntry } from '@/lib/cache'
+import { APP_HOME_PATH } from '@/routes/returnPath'
+import { isInternalLink, loadPortalPage, portalPageKey, type ExtractedContent } from '@/lib/portal'
 
 // Constants
-const SIDEBAR_SELECTORS = ['.sidebar-column', '.web-sidebar', '.sidebar-items']
-const CONTENT_SELECTORS = ['main', '.main-content']
 const SKIP_ROUTES = ['/', '/login']
 
-// Types
-interface ExtractedContent {
-  content: string
-  styles: string
-  stylesheetUrls: string[]
-}
-
-interface SidebarItem {
-  href: string
-  text: string
-  isActive: boolean
-}
-
-// Utility Functions
-const removeScripts = (element: HTMLElement): void => {
-  element.querySelectorAll('script').forEach((script) => script.remove())
-}
-
-const normalizePath = (path: string): string => {
-  return path.endsWith('/') && path.length > 1 ? path.slice(0, -1) : path
-}
-
-const extractSidebarItems = (html: string): SidebarItem[] => {
-  try {
-    const parser = new DOMParser()
-    const doc = parser.parseFromString(html, 'text/html')
-
-    // Find sidebar-items or fallback to list-unstyled
-    let container: Element | null = null
-    for (const selector of SIDEBAR_SELECTORS) {
-      container = doc.querySelector(selector)
-      if (container) break
-    }
-
-    if (!container) {
-      // Fallback: find all list-unstyled
-      const listElements = doc.querySelectorAll('.list-unstyled')
-      if (listElements.length === 0) return []
-      container = listElements[0].parentElement
-    }
-
-    if (!container) return []
-
-    const items: SidebarItem[] = []
-    const links = container.querySelectorAll<HTMLAnchorElement>('.sidebar-item a, a')
-
-    links.forEach((link) => {
-      const href = link.getAttribute('href')
-      const text = link.textContent?.trim() || ''
-      const isActive = link.classList.contains('active')
-
-      // Filter out Newsletter link
-      if (href && text && !text.toLowerCase().includes('newsletter') && !href.includes('/newsletters')) {
-        items.push({
-          href,
-          text,
-          isActive,
-        })
-      }
-    })
-
-    return items
-  } catch (error) {
-    console.error('Error extracting sidebar items:', error)
-    return []
-  }
-}
-
-const sanitizeStyles = (styleContent: string): string => {
-  return styleContent
-    .replace(/transform\s*:[^;]+;?/gi, '')
-    .replace(/-webkit-transform\s*:[^;]+;?/gi, '')
-    .replace(/-moz-transform\s*:[^;]+;?/gi, '')
-    .replace(/-ms-transform\s*:[^;]+;?/gi, '')
-    .replace(/-o-transform\s*:[^;]+;?/gi, '')
-    .replace(/zoom\s*:[^;]+;?/gi, '')
-    .replace(/scale\([^)]+\)/gi, 'scale(1)')
-}
-
-const fixRelativeUrl = (url: string): string => {
-  if (url.startsWith('http') || url.startsWith('data:')) {
-    return url
-  }
-  return `${API_BASE}${url.startsWith('/') ? url : '/' + url}`
-}
-
-const extractStylesAndContent = (html: string): ExtractedContent => {
-  try {
-    const parser = new DOMParser()
-    const doc = parser.parseFromString(html, 'text/html')
-
-    // Extract and sanitize inline styles
-    let styles = ''
-    doc.querySelectorAll('style').forEach((style) => {
-      const styleContent = style.innerHTML || style.textContent || ''
-      styles += sanitizeStyles(styleContent) + '\n'
-    })
-
-    // Extract external stylesheets URLs
-    const stylesheetLinks: string[] = []
-    doc.querySelectorAll('link[rel="stylesheet"]').forEach((link) => {
-      const href = link.getAttribute('href')
-      if (href) {
-        const fixedUrl = fixRelativeUrl(href)
-        stylesheetLinks.push(fixedUrl)
-      }
-    })
-
-    // Extract content
-    const body = doc.body || doc.documentElement
-    const mainContent =
-      CONTENT_SELECTORS.map((sel) => body.querySelector(sel)).find(Boolean) || body
-
-    const contentClone = mainContent.cloneNode(true) as HTMLElement
-    removeScripts(contentClone)
-
-    // Fix relative URLs in images
-    contentClone.querySelectorAll('img').forEach((img) => {
-      const src = img.getAttribute('src')
-      if (src) {
-        img.setAttribute('src', fixRelativeUrl(src))
-      }
-    })
-
-    // Fix relative URLs in inline styles
-    contentClone.querySelectorAll('[style]').forEach((element) => {
-      const style = element.getAttribute('style') || ''
-      const fixedStyle = style.replace(/url\(['"]?([^'")]+)['"]?\)/g, (_match, url) => {
-        return `url('${fixRelativeUrl(url)}')`
-      })
-      element.setAttribute('style', fixedStyle)
-    })
-
-    // Fix relative URLs in style attributes that might contain background images
-    contentClone.querySelectorAll('*').forEach((element) => {
-      const styleAttr = element.getAttribute('style')
-      if (styleAttr) {
-        const fixedStyle = styleAttr.replace(/url\(['"]?([^'")]+)['"]?\)/g, (_match, url) => {
-          if (url.startsWith('http') || url.startsWith('data:')) {
-            return `url('${url}')`
-          }
-          return `url('${fixRelativeUrl(url)}')`
-        })
-        element.setAttribute('style', fixedStyle)
-      }
-    })
-
-    return {
-      content: contentClone.innerHTML,
-      styles,
-      stylesheetUrls: stylesheetLinks,
-    }
-  } catch (error) {
-    console.error('Error extracting styles and content:', error)
-    return { content: html, styles: '', stylesheetUrls: [] }
-  }
-}
-
-const fetchWithAuth = async (url: string, token: string): Promise<Response> => {
-  return fetch(url, {
-    method: 'GET',
-    headers: {
-      Authorization: `token ${token}`,
-      Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-    },
-    credentials: 'include',
-  })
-}
-
-const isInternalLink = (url: URL): boolean => {
-  try {
-    return url.origin === new URL(API_BASE).origin || url.pathname.startsWith('/')
-  } catch {
-    return false
-  }
-}
-
-const matchesPath = (linkPath: string, currentPath: string): boolean => {
-  const normalizedLink = normalizePath(linkPath)
-  const normalizedCurrent = normalizePath(currentPath)
-  return (
-    linkPath === currentPath ||
-    linkPath === `${currentPath}/` ||
-    currentPath === `${linkPath}/` ||
-    normalizedLink === normalizedCurrent
-  )
-}
-
-
 export default function DashboardPage() {
-  const { user, homePage, token, logout } = useAuthStore()
+  const { homePage, isAuthenticated } = useAuthStore()
   const navigate = useNavigate()
   const location = useLocation()
 
-  const [sidebarItems, setSidebarItems] = useState<SidebarItem[]>([])
-  const [mainContent, setMainContent] = useState<string>('')
-  const [contentStyles, setContentStyles] = useState<string>('')
-  const [stylesheetUrls, setStylesheetUrls] = useState<string[]>([])
-  const [isLoading, setIsLoading] = useState(true)
-  const [isContentLoading, setIsContentLoading] = useState(false)
+  const [page, setPage] = useState<CacheEntry<ExtractedContent> | null>(null)
+  // Path whose content (or error) is currently shown; anything else is still loading
+  const [loadedPath, setLoadedPath] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
-
-  const contentRef = useRef<HTMLDivElement>(null)
-  const styleRef = useRef<HTMLStyleElement | null>(null)
-
-  // Fetch page content
-  const fetchPageContent = useCallback(
-    async (url: string) => {
-      if (!token) {
-        setError('No authentication token available')
-        return
-      }
-
-      try {
-        setIsContentLoading(true)
-        setError(null)
-
-        // Normalize /dashboard to /me to avoid 404 errors
-        const normalizedUrl = url === '/dashboard' ? '/me' : url
-        const fullUrl = normalizedUrl.startsWith('http') ? normalizedUrl : `${API_BASE}${normalizedUrl}`
-        const response = await fetchWithAuth(fullUrl, token)
-
-        if (response.ok) {
-          const html = await response.text()
-          const { content, styles, stylesheetUrls } = extractStylesAndContent(html)
-
-          // Small delay to ensure smooth transition
-          await new Promise((resolve) => setTimeout(resolve, 50))
-
-          setStylesheetUrls(stylesheetUrls)
-          setContentStyles(styles)
-          // Set content after styles to prevent flicker
-          setTimeout(() => {
-            setMainContent(content)
-            setIsContentLoading(false)
-          }, 100)
-        } else {
-          setError(`Failed to load page: ${response.status} ${response.statusText}`)
-          setIsContentLoading(false)
-        }
-      } catch (error) {
-        console.error('Failed to fetch page content:', error)
-        setError('Failed to load page content. Please try again.')
-        setIsContentLoading(false)
-      }
-    },
-    [token]
-  )
-
-  // Handle sidebar link click
-  const handleSidebarClick = useCallback(
-    (href: string, e: React.MouseEvent<HTMLAnchorElement>) => {
-      e.preventDefault()
-      navigate(href, { replace: false })
-    },
-    [navigate]
-  )
+  const [isForbidden, setIsForbidden] = useState(false)
 
   // Handle content area link clicks
   const handleContentClick = useCallback(
@@ -286,253 +44,128 @@ export default function DashboardPage() {
     [navigate]
   )
 
-  // Fetch sidebar on mount
-  useEffect(() => {
-    const fetchSidebar = async () => {
-      if (!homePage || !token) {
-        setError(homePage ? 'No authentication token available' : 'No home page configured')
-        setIsLoading(false)
-        return
-      }
-
-      try {
-        setIsLoading(true)
-        setError(null)
-
-        const response = await fetchWithAuth(`${API_BASE}${homePage}`, token)
-
-        if (response.ok) {
-          const html = await response.text()
-          setSidebarItems(extractSidebarItems(html))
-        } else {
-          setError(`Failed to load page: ${response.status} ${response.statusText}`)
-        }
-      } catch (error) {
-        console.error('Failed to fetch dashboard:', error)
-        setError('Failed to load dashboard content. Please try again.')
-      } finally {
-        setIsLoading(false)
-      }
-    }
-
-    fetchSidebar()
-  }, [homePage, token])
-
   // Navigate to home page on initial load or redirect /dashboard to /me
   useEffect(() => {
     if (location.pathname === '/dashboard') {
       navigate('/me', { replace: true })
       return
     }
-    if (homePage && location.pathname === '/' && token) {
+    if (homePage && location.pathname === '/' && isAuthenticated) {
       navigate(homePage, { replace: true })
     }
-  }, [homePage, location.pathname, token, navigate])
+  }, [homePage, location.pathname, isAuthenticated, navigate])
 
   // Load content based on route
   useEffect(() => {
     const currentPath = location.pathname + location.search + location.hash
 
-    if (SKIP_ROUTES.includes(currentPath) || !token) {
+    if (SKIP_ROUTES.includes(currentPath) || !isAuthenticated) {
       return
     }
 
-    fetchPageContent(currentPath)
-  }, [location.pathname, location.search, location.hash, token, fetchPageContent])
-
-  // Get current path for active link detection
-  const currentPath = location.pathname + location.search + location.hash
-
-
-  useEffect(() => {
-    const content = contentRef.current
-    if (!content) return
-
-    content.addEventListener('click', handleContentClick)
-    return () => content.removeEventListener('click', handleContentClick)
-  }, [mainContent, handleContentClick])
+    // Leaving the route (or logging out, which unmounts it) cancels its load
+    const controller = new AbortController()
+    // Normalize /dashboard to /me to avoid 404 errors
+    const pagePath = currentPath === '/dashboard' ? '/me' : currentPath
 
-  // Inject styles into document head for better compatibility
-  useEffect(() => {
-    // Remove previous dynamic style element
-    const existingStyle = document.querySelector('style[data-dynamic-styles="true"]')
-    if (existingStyle) {
-      existingStyle.remove()
+    const showPage = (loaded: CacheEntry<ExtractedContent>) => {
+      setPage(loaded)
+      setError(null)
+      setIsForbidden(false)
+      setLoadedPath(currentPath)
     }
 
-    // Remove previous dynamic stylesheet links
-    const existingLinks = document.querySelectorAll('link[data-dynamic-stylesheet="true"]')
-    existingLinks.forEach((link) => link.remove())
+    const loadPage = async () => {
+      // A cached page renders at once and is only refetched once stale
+      const cached = getCached<ExtractedContent>(portalPageKey(pagePath))
+      if (cached) {
+        showPage(cached)
+        if (isFresh(cached)) return
+      }
 
-    // Add inline styles to head
-    if (contentStyles) {
-      const styleElement = document.createElement('style')
-      styleElement.setAttribute('data-dynamic-styles', 'true')
-      styleElement.textContent = contentStyles
-      document.head.appendChild(styleElement)
-      styleRef.current = styleElement
+      try {
+        const loaded = await loadPortalPage(pagePath, controller.signal)
+        if (!controller.signal.aborted) {
+          showPage(getCached<ExtractedContent>(portalPageKey(pagePath)) ?? { data: loaded, updatedAt: Date.now() })
+        }
+      } catch (error) {
+        if (controller.signal.aborted || cached || isAbortError(error)) return
+        console.error('Failed to fetch page content:', error)
+        // A 403 for a still-valid session is a permission problem, not an expired login
+        setIsForbidden(error instanceof FrappeError && error.status === 403)
+        setError(
+          error instanceof FrappeError
+            ? error.message
+            : navigator.onLine
+              ? 'Failed to load page content. Please try again.'
+              : "You're offline, and this page hasn't been opened on this device before."
+        )
+        setLoadedPath(currentPath)
+      }
     }
 
-    // Add external stylesheets to head
-    stylesheetUrls.forEach((url) => {
-      const linkElement = document.createElement('link')
-      linkElement.setAttribute('rel', 'stylesheet')
-      linkElement.setAttribute('href', url)
-      linkElement.setAttribute('data-dynamic-stylesheet', 'true')
-      document.head.appendChild(linkElement)
-    })
+    loadPage()
+    return () => controller.abort()
+  }, [location.pathname, location.search, location.hash, isAuthenticated])
 
-    // Cleanup function
-    return () => {
-      if (styleRef.current) {
-        styleRef.current.remove()
-        styleRef.current = null
-      }
-      const links = document.querySelectorAll('link[data-dynamic-stylesheet="true"]')
-      links.forEach((link) => link.remove())
-    }
-  }, [contentStyles, stylesheetUrls])
+  const currentPath = location.pathname + location.search + location.hash
+  const isContentLoading = loadedPath !== currentPath
 
-  const handleLogout = async () => {
-    await logout()
-    navigate('/login')
+  // Going back unmounts this load, which aborts it; with no history there is nowhere to go back to
+  const handleCancelLoad = () => {
+    if (location.key === 'default') navigate(APP_HOME_PATH, { replace: true })
+    else navigate(-1)
   }
 
-  return (
-    <div className="h-screen flex flex-col bg-background overflow-hidden">
-      {/* Prevent header glitches and ensure sidebar active state */}
-      <style>{`
-        header,
-        header *,
-        header h1,
-        header span,
-        header button {
-          transform: none !important;
-          zoom: 1 !important;
-          scale: 1 !important;
-          -webkit-transform: none !important;
-          font-size: inherit !important;
-        }
-        .sidebar-item a {
-          display: block !important;
-          text-decoration: none !important;
-          transition: background-color 0.2s ease, color 0.2s ease !important;
-        }
-        .sidebar-item a[style*="background-color"] {
-          color: white !important;
-        }
-        main {
-          will-change: contents;
-        }
-        main > div {
-          transition: opacity 0.3s ease-in-out;
-        }
-      `}</style>
-      {/* Header */}
-      <div className="fixed top-0 left-0 right-0 z-50 [transform:translateZ(0)]">
-        <header className="border-b border-border bg-background">
-          <div className="h-14 flex items-center px-4 w-full">
-            <div className="flex-1 flex items-center gap-4 min-w-0">
-              <h1 className="text-lg leading-7 font-semibold m-0 p-0 text-foreground [transform:none] [zoom:1]">
-                GeriCare Supplier
-              </h1>
-            </div>
-            <div className="flex items-center gap-4 flex-shrink-0">
-              {user?.full_name && (
-                <span className="text-sm leading-5 text-muted-foreground whitespace-nowrap [transform:none] [zoom:1]">
-                  Welcome, {user.full_name}
-                </span>
-              )}
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleLogout}
-                className="inline-flex items-center justify-center whitespace-nowrap text-sm font-medium transition-all disabled:pointer-events-none disabled:opacity-50 [&_svg]:pointer-events-none [&_svg:not([class*='size-'])]:size-4 shrink-0 [&_svg]:shrink-0 outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] aria-invalid:ring-destructive/20 dark:aria-invalid:ring-destructive/40 aria-invalid:border-destructive border bg-background shadow-xs hover:bg-accent hover:text-accent-foreground dark:bg-input/30 dark:border-input dark:hover:bg-input/50 h-8 rounded-md gap-1.5 px-3 has-[>svg]:px-2.5 flex-shrink-0 [transform:none] [zoom:1]"
-              >
-                Logout
-              </Button>
-            </div>
-          </div>
-        </header>
+  if (error && !isContentLoading) {
+    if (isForbidden) {
+      return <AccessDenied />
+    }
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-destructive">{error}</div>
       </div>
+    )
+  }
 
-      {/* Main Layout */}
-      <div className="flex flex-1 pt-14 overflow-hidden">
-        {isLoading ? (
-          <div className="flex items-center justify-center w-full">
-            <div className="text-muted-foreground">Loading...</div>
-          </div>
-        ) : error ? (
-          <div className="flex items-center justify-center w-full">
-            <div className="text-destructive">{error}</div>
+  return (
+    <>
+      {/* Loading overlay with smooth transition */}
+      {isContentLoading && (
+        <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm z-10 transition-opacity duration-300">
+          <div className="flex flex-col items-center gap-3">
+            <div className="text-muted-foreground">Loading content...</div>
+            <Button variant="outline" size="sm" onClick={handleCancelLoad}>
+              Cancel
+            </Button>
           </div>
-        ) : (
+        </div>
+      )}
+
+      {/* Content with smooth fade transition */}
+      <div
+        className={`h-full overflow-y-auto transition-opacity duration-300 ${isContentLoading && page ? 'opacity-50' : 'opacity-100'
+          }`}
+      >
+        {page ? (
           <>
-            {/* Sidebar */}
-            {sidebarItems.length > 0 && (
-              <aside className="w-64 border-r bg-muted/40 flex-shrink-0 overflow-hidden flex flex-col">
-                <div className="flex-1 overflow-y-auto p-4">
-                  <nav className="space-y-1">
-                    {sidebarItems.map((item, index) => {
-                      const isActive = matchesPath(item.href, currentPath) || item.isActive
-                      return (
-                        <div key={`${item.href}-${index}`} className="sidebar-item">
-                          <a
-                            href={item.href}
-                            onClick={(e) => handleSidebarClick(item.href, e)}
-                            className={`block px-3 py-2 rounded-md text-sm font-medium transition-colors duration-150 ${isActive
-                                ? 'bg-blue-500 text-white !important'
-                                : 'text-gray-700 hover:bg-gray-100 hover:text-gray-900'
-                              }`}
-                            style={
-                              isActive
-                                ? {
-                                  backgroundColor: 'rgb(59 130 246)',
-                                  color: 'white',
-                                }
-                                : undefined
-                            }
-                          >
-                            {item.text}
-                          </a>
-                        </div>
-                      )
-                    })}
-                  </nav>
-                </div>
-              </aside>
-            )}
-
-            {/* Content Area */}
-            <main className="flex-1 overflow-hidden flex flex-col relative">
-              {/* Loading overlay with smooth transition */}
-              {isContentLoading && (
-                <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm z-10 transition-opacity duration-300 [transform:translateZ(0)]">
-                  <div className="text-muted-foreground">Loading content...</div>
-                </div>
-              )}
-
-              {/* Content with smooth fade transition */}
-              <div
-                className={`h-full overflow-y-auto transition-opacity duration-300 [transform:translateZ(0)] ${isContentLoading && mainContent ? 'opacity-50' : 'opacity-100'
-                  }`}
-              >
-                {mainContent ? (
-                  <div
-                    ref={contentRef}
-                    className="p-6 [transform:translateZ(0)]"
-                    dangerouslySetInnerHTML={{ __html: mainContent }}
-                  />
-                ) : (
-                  <div className="flex items-center justify-center h-full text-muted-foreground">
-                    <p>Select an item from the sidebar to view content</p>
-                  </div>
-                )}
-              </div>
-            </main>
+            <div className="px-6 pt-6 empty:hidden">
+              <OfflineBanner updatedAt={page.updatedAt} />
+            </div>
+            <PortalContent
+              html={page.data.content}
+              styles={page.data.styles}
+              stylesheetUrls={page.data.stylesheetUrls}
+              onClick={handleContentClick}
+              className="p-6"
+            />
           </>
+        ) : (
+          <div className="flex items-center justify-center h-full text-muted-foreground">
+            <p>Select an item from the sidebar to view content</p>
+          </div>
         )}
       </div>
-    </div>
+    </>
   )
 }
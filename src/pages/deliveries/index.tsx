@@ -0,0 +1,158 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { NativeSelect } from '@/components/ui/native-select'
+import { DeliveryCalendar } from '@/components/ui/deliveries/DeliveryCalendar'
+import { OfflineBanner } from '@/components/ui/offline/OfflineBanner'
+import { useFrappeQuery } from '@/hooks/useFrappeQuery'
+import { useListParams } from '@/hooks/useListParams'
+import { DELIVERY_LINES_KEY, fetchOpenDeliveryLines, type DeliveryLine } from '@/api/purchaseOrders'
+import {
+  CALENDAR_VIEWS,
+  eachDay,
+  formatViewTitle,
+  getViewRange,
+  shiftAnchor,
+  toIsoDate,
+  type CalendarView,
+} from '@/lib/calendar'
+import { formatDate, parseDate } from '@/lib/format'
+
+const VIEW_LABELS: Record<CalendarView, string> = { day: 'Day', week: 'Week', month: 'Month' }
+
+const uniqueSorted = (values: Array<string | null>): string[] => {
+  return [...new Set(values.filter((value): value is string => Boolean(value)))].sort((a, b) => a.localeCompare(b))
+}
+
+export default function DeliverySchedulePage() {
+  // View, date and filters live in the URL like the lists' search and page
+  const { searchParams, updateParams } = useListParams()
+  const viewParam = searchParams.get('view') as CalendarView | null
+  const view: CalendarView = viewParam && CALENDAR_VIEWS.includes(viewParam) ? viewParam : 'week'
+  const today = toIsoDate(new Date())
+  const requestedDate = parseDate(searchParams.get('date') || today)
+  // A hand-edited or truncated link shows today rather than breaking the page
+  const anchor = Number.isNaN(requestedDate.getTime()) ? parseDate(today) : requestedDate
+  const warehouse = searchParams.get('warehouse') || ''
+  const item = searchParams.get('item') || ''
+
+  const { data, error, isLoading, updatedAt } = useFrappeQuery(DELIVERY_LINES_KEY, fetchOpenDeliveryLines, {
+    persist: true,
+  })
+
+  const allLines = data ?? []
+  const lines = allLines.filter(
+    (line) => (!warehouse || line.warehouse === warehouse) && (!item || line.item_code === item)
+  )
+  const overdue = lines.filter((line) => line.schedule_date < today)
+
+  const linesByDay = new Map<string, DeliveryLine[]>()
+  lines.forEach((line) => {
+    const day = line.schedule_date.slice(0, 10)
+    linesByDay.set(day, [...(linesByDay.get(day) ?? []), line])
+  })
+
+  const showDay = (day: Date) => updateParams({ view: 'day', date: toIsoDate(day) })
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-4">
+      <h2 className="text-xl font-semibold">Delivery Schedule</h2>
+      <OfflineBanner updatedAt={updatedAt} />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label="Previous"
+            onClick={() => updateParams({ date: toIsoDate(shiftAnchor(view, anchor, -1)) })}
+          >
+            <ChevronLeft />
+          </Button>
+          <Button variant="outline" onClick={() => updateParams({ date: '' })}>
+            Today
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label="Next"
+            onClick={() => updateParams({ date: toIsoDate(shiftAnchor(view, anchor, 1)) })}
+          >
+            <ChevronRight />
+          </Button>
+        </div>
+        <div className="font-medium px-2">{formatViewTitle(view, anchor)}</div>
+
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          <NativeSelect
+            aria-label="Warehouse"
+            className="w-48"
+            value={warehouse}
+            onChange={(e) => updateParams({ warehouse: e.target.value })}
+          >
+            <option value="">All warehouses</option>
+            {uniqueSorted(allLines.map((line) => line.warehouse)).map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </NativeSelect>
+          <NativeSelect
+            aria-label="Item"
+            className="w-48"
+            value={item}
+            onChange={(e) => updateParams({ item: e.target.value })}
+          >
+            <option value="">All items</option>
+            {uniqueSorted(allLines.map((line) => line.item_code)).map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </NativeSelect>
+          <div className="flex rounded-md border p-0.5">
+            {CALENDAR_VIEWS.map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={option === view ? 'secondary' : 'ghost'}
+                onClick={() => updateParams({ view: option === 'week' ? '' : option })}
+              >
+                {VIEW_LABELS[option]}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {overdue.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md">
+          {overdue.length} line{overdue.length === 1 ? ' is' : 's are'} overdue, the oldest since{' '}
+          {formatDate(overdue[0].schedule_date)}.
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-red-700"
+            onClick={() => showDay(parseDate(overdue[0].schedule_date))}
+          >
+            Show
+          </Button>
+        </div>
+      )}
+
+      {error ? (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+      ) : isLoading && !data ? (
+        <div className="text-muted-foreground">Loading...</div>
+      ) : (
+        <DeliveryCalendar
+          view={view}
+          days={eachDay(getViewRange(view, anchor))}
+          month={anchor.getMonth()}
+          linesByDay={linesByDay}
+          today={today}
+          onSelectDay={showDay}
+        />
+      )}
+    </div>
+  )
+}
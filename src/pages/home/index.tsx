@@ -0,0 +1,82 @@
+import { AlertTriangle, FileQuestion, Receipt, ShoppingCart, TrendingUp } from 'lucide-react'
+import { KpiCard } from '@/components/ui/home/KpiCard'
+import { OfflineBanner } from '@/components/ui/offline/OfflineBanner'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { useCurrentSupplier } from '@/hooks/useCurrentSupplier'
+import { useFrappeQuery } from '@/hooks/useFrappeQuery'
+import { fetchSupplierKpis, type CurrencyAmount } from '@/api/dashboard'
+import { formatCurrency, formatNumber } from '@/lib/format'
+
+// "€1,200.00 + $300.00" when documents come in more than one currency
+const formatAmounts = (amounts: CurrencyAmount[]): string => {
+  if (amounts.length === 0) return formatCurrency(0)
+  return amounts.map((entry) => formatCurrency(entry.amount, entry.currency)).join(' + ')
+}
+
+export default function HomePage() {
+  const user = useAuthStore((state) => state.user)
+  const { supplier, isLoading: isSupplierLoading } = useCurrentSupplier()
+
+  // Wait for the supplier lookup so RFQs are counted; users without one still get the other cards
+  const { data: kpis, error, updatedAt } = useFrappeQuery(
+    isSupplierLoading ? null : `supplier-kpis:${supplier ?? ''}`,
+    (signal) => fetchSupplierKpis(supplier, signal),
+    { persist: true }
+  )
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold">Welcome back{user?.full_name ? `, ${user.full_name}` : ''}</h2>
+        {supplier && <p className="text-sm text-muted-foreground">{supplier}</p>}
+      </div>
+
+      <OfflineBanner updatedAt={updatedAt} />
+
+      {error ? (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+      ) : !kpis ? (
+        <div className="text-muted-foreground">Loading...</div>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-5">
+          <KpiCard
+            title="Open Purchase Orders"
+            value={formatNumber(kpis.openPurchaseOrders, 0)}
+            description="Awaiting delivery or billing"
+            icon={ShoppingCart}
+            to="/purchase-orders"
+          />
+          <KpiCard
+            title="Pending RFQs"
+            value={kpis.pendingRfqs === null ? '—' : formatNumber(kpis.pendingRfqs, 0)}
+            description="Not yet quoted"
+            icon={FileQuestion}
+            to="/rfq"
+          />
+          <KpiCard
+            title="Unpaid Invoices"
+            value={formatNumber(kpis.unpaidInvoices, 0)}
+            description={`${formatAmounts(kpis.outstanding)} outstanding`}
+            icon={Receipt}
+            to="/payments"
+          />
+          <KpiCard
+            title="Overdue Deliveries"
+            value={formatNumber(kpis.overdueDeliveries, 0)}
+            description="Orders with lines past their schedule date"
+            icon={AlertTriangle}
+            to="/purchase-orders?overdue=1"
+            highlight={kpis.overdueDeliveries > 0}
+          />
+          <KpiCard
+            title="Value This Month"
+            value={formatAmounts(kpis.valueThisMonth)}
+            description="Purchase orders placed since the 1st"
+            icon={TrendingUp}
+            to="/purchase-orders"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
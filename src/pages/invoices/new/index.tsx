@@ -0,0 +1,112 @@
+import { useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { Card, CardContent } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { NativeSelect } from '@/components/ui/native-select'
+import { InvoiceFromOrderForm } from '@/components/ui/invoices/InvoiceFromOrderForm'
+import { useFrappeQuery } from '@/hooks/useFrappeQuery'
+import { fetchPurchaseOrder, purchaseOrderKey } from '@/api/purchaseOrders'
+import { fetchBillablePurchaseOrders, makePurchaseInvoice, type PurchaseInvoice } from '@/api/invoices'
+import { invalidateCache } from '@/lib/cache'
+import { formatCurrency, formatDate } from '@/lib/format'
+
+interface CreatedInvoice {
+  invoice: PurchaseInvoice
+  attachmentError: string | null
+}
+
+export default function NewInvoicePage() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const purchaseOrder = searchParams.get('po') || ''
+  const [created, setCreated] = useState<CreatedInvoice | null>(null)
+
+  const orders = useFrappeQuery('billable-purchase-orders', fetchBillablePurchaseOrders)
+  const source = useFrappeQuery(purchaseOrder ? `invoice-source:${purchaseOrder}` : null, async (signal) => {
+    const [order, draft] = await Promise.all([
+      fetchPurchaseOrder(purchaseOrder, signal),
+      makePurchaseInvoice(purchaseOrder, signal),
+    ])
+    return { order, draft }
+  })
+
+  const handleCreated = (invoice: PurchaseInvoice, attachmentError: string | null) => {
+    // Everything that shows invoices or billing progress is out of date now
+    invalidateCache({ prefix: 'payments:' })
+    invalidateCache({ prefix: 'invoice-source:' })
+    invalidateCache({ key: 'billable-purchase-orders' })
+    invalidateCache({ prefix: 'purchase-orders:' })
+    invalidateCache({ key: purchaseOrderKey(purchaseOrder) })
+    setCreated({ invoice, attachmentError })
+  }
+
+  const selectOrder = (name: string) => {
+    setCreated(null)
+    setSearchParams(name ? { po: name } : {})
+  }
+
+  if (created) {
+    return (
+      <div className="h-full overflow-y-auto p-6 space-y-4">
+        <h2 className="text-xl font-semibold">New Invoice</h2>
+        <div className="p-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-md">
+          Draft invoice {created.invoice.name} was created for {purchaseOrder}. Our finance team will review it.
+        </div>
+        {created.attachmentError && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            The PDF could not be attached: {created.attachmentError}. Please send it to your buyer quoting{' '}
+            {created.invoice.name}.
+          </div>
+        )}
+        <Link to={`/purchase-orders/${encodeURIComponent(purchaseOrder)}`} className="text-sm text-primary hover:underline">
+          Back to {purchaseOrder}
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-4">
+      <h2 className="text-xl font-semibold">New Invoice</h2>
+
+      <Card>
+        <CardContent className="grid gap-2 max-w-md">
+          <Label htmlFor="purchase-order">Purchase Order</Label>
+          <NativeSelect
+            id="purchase-order"
+            value={purchaseOrder}
+            disabled={orders.isLoading}
+            onChange={(e) => selectOrder(e.target.value)}
+          >
+            <option value="">{orders.isLoading ? 'Loading...' : 'Select a received purchase order'}</option>
+            {orders.data?.map((order) => (
+              <option key={order.name} value={order.name}>
+                {order.name} · {formatDate(order.transaction_date)} · {formatCurrency(order.grand_total, order.currency)}
+              </option>
+            ))}
+          </NativeSelect>
+          {orders.data?.length === 0 && (
+            <p className="text-sm text-muted-foreground">There are no received purchase orders left to bill.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {orders.error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{orders.error}</div>
+      )}
+
+      {purchaseOrder &&
+        (source.error ? (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{source.error}</div>
+        ) : source.data && !source.isLoading ? (
+          <InvoiceFromOrderForm
+            key={purchaseOrder}
+            order={source.data.order}
+            draft={source.data.draft}
+            onCreated={handleCreated}
+          />
+        ) : (
+          <div className="text-sm text-muted-foreground">Loading...</div>
+        ))}
+    </div>
+  )
+}
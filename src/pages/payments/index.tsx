@@ -0,0 +1,276 @@
+import { useState } from 'react'
+import { Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { NativeSelect } from '@/components/ui/native-select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { PdfBundleMenu } from '@/components/ui/documents/PdfBundleMenu'
+import { ExportMenu } from '@/components/ui/list/ExportMenu'
+import { ListPagination } from '@/components/ui/list/ListPagination'
+import { StatusBadge } from '@/components/ui/list/StatusBadge'
+import { OfflineBanner } from '@/components/ui/offline/OfflineBanner'
+import { AgeingSummary } from '@/components/ui/payments/AgeingSummary'
+import { useAccess } from '@/hooks/useAccess'
+import { useFrappeQuery } from '@/hooks/useFrappeQuery'
+import { useListParams } from '@/hooks/useListParams'
+import { useSelection } from '@/hooks/useSelection'
+import {
+  PURCHASE_INVOICE_STATUSES,
+  fetchOutstandingInvoices,
+  fetchPaymentsForInvoices,
+  fetchPurchaseInvoices,
+  type InvoiceListParams,
+  type InvoicePayment,
+  type PurchaseInvoiceSummary,
+} from '@/api/invoices'
+import { computeAgeing } from '@/lib/ageing'
+import type { ExportColumn } from '@/lib/export'
+import { FrappeError, LIST_PAGE_SIZE } from '@/lib/frappe'
+import { formatCurrency, formatDate } from '@/lib/format'
+
+type InvoiceWithPayments = PurchaseInvoiceSummary & { payments: InvoicePayment[] }
+
+const EXPORT_COLUMNS: ExportColumn<InvoiceWithPayments>[] = [
+  { key: 'bill_no', label: 'Your Invoice No', value: (invoice) => invoice.bill_no },
+  { key: 'name', label: 'Our Reference', value: (invoice) => invoice.name },
+  { key: 'bill_date', label: 'Invoice Date', type: 'date', value: (invoice) => invoice.bill_date || invoice.posting_date },
+  { key: 'due_date', label: 'Due Date', type: 'date', value: (invoice) => invoice.due_date },
+  { key: 'status', label: 'Status', value: (invoice) => invoice.status },
+  { key: 'currency', label: 'Currency', value: (invoice) => invoice.currency },
+  { key: 'grand_total', label: 'Grand Total', type: 'number', value: (invoice) => invoice.grand_total },
+  { key: 'outstanding_amount', label: 'Outstanding', type: 'number', value: (invoice) => invoice.outstanding_amount },
+  {
+    key: 'payments',
+    label: 'Payment References',
+    value: (invoice) => invoice.payments.map((payment) => payment.reference_no || payment.name).join(', '),
+  },
+]
+
+// Supplier contacts often can't read Payment Entry; their invoices still list, without payment details
+const fetchInvoicesWithPayments = async (params: InvoiceListParams, withPayments: boolean, signal?: AbortSignal) => {
+  const result = await fetchPurchaseInvoices(params, signal)
+  if (!withPayments) return { ...result, payments: [] }
+  const payments = await fetchPaymentsForInvoices(
+    result.data.map((invoice) => invoice.name),
+    signal
+  ).catch((error) => {
+    // Permissions changed since login
+    if (error instanceof FrappeError && error.status === 403) return []
+    throw error
+  })
+  return { ...result, payments }
+}
+
+export default function PaymentsPage() {
+  const { searchParams, search, page, updateParams } = useListParams()
+  const status = searchParams.get('status') || ''
+  const [searchInput, setSearchInput] = useState(search)
+  const { can } = useAccess()
+  const canReadPayments = can('Payment Entry', 'read')
+  const exportColumns = canReadPayments ? EXPORT_COLUMNS : EXPORT_COLUMNS.filter((column) => column.key !== 'payments')
+  const columnCount = canReadPayments ? 8 : 7
+
+  const params: InvoiceListParams = { status, search, page, pageSize: LIST_PAGE_SIZE }
+  const { data, error, isLoading, updatedAt } = useFrappeQuery(
+    `payments:${JSON.stringify(params)}:${canReadPayments}`,
+    (signal) => fetchInvoicesWithPayments(params, canReadPayments, signal),
+    { persist: true }
+  )
+  const outstanding = useFrappeQuery('outstanding-invoices', fetchOutstandingInvoices, { persist: true })
+  const ageing = outstanding.data ? computeAgeing(outstanding.data) : []
+
+  const { selected, isPageSelected, toggleSelected, selectPage } = useSelection(
+    data?.data.map((invoice) => invoice.name) ?? []
+  )
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    updateParams({ q: searchInput.trim(), page: '' })
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-4">
+      <h2 className="text-xl font-semibold">Payments</h2>
+      <OfflineBanner updatedAt={updatedAt} />
+
+      {outstanding.error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+          Could not load the ageing summary: {outstanding.error}
+        </div>
+      )}
+      {ageing.map((group) => (
+        <AgeingSummary
+          key={group.currency ?? ''}
+          buckets={group.buckets}
+          currency={group.currency}
+          showCurrency={ageing.length > 1}
+        />
+      ))}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <form onSubmit={handleSearch} className="flex items-center gap-2">
+          <Input
+            type="search"
+            placeholder="Search by your invoice number"
+            className="w-64"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
+          <Button type="submit" variant="outline" size="icon" aria-label="Search">
+            <Search />
+          </Button>
+        </form>
+        <NativeSelect
+          aria-label="Status"
+          className="w-44"
+          value={status}
+          onChange={(e) => updateParams({ status: e.target.value, page: '' })}
+        >
+          <option value="">All statuses</option>
+          {PURCHASE_INVOICE_STATUSES.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </NativeSelect>
+        <div className="ml-auto flex gap-2">
+          <PdfBundleMenu doctype="Purchase Invoice" names={[...selected]} fileName="invoices" />
+          <ExportMenu
+            columns={exportColumns}
+            fileName="invoices"
+            fetchPage={async (exportPage, pageSize, signal) => {
+              const result = await fetchInvoicesWithPayments(
+                { status, search, page: exportPage, pageSize },
+                canReadPayments,
+                signal
+              )
+              return {
+                total: result.total,
+                data: result.data.map((invoice) => ({
+                  ...invoice,
+                  payments: result.payments.filter((payment) => payment.invoice === invoice.name),
+                })),
+              }
+            }}
+            disabled={!data?.total}
+          />
+        </div>
+      </div>
+
+      {error ? (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+      ) : (
+        <Card className="py-0">
+          <CardContent className="px-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10 pl-4">
+                    <input
+                      type="checkbox"
+                      className="size-4 accent-primary align-middle"
+                      aria-label="Select all on this page"
+                      checked={isPageSelected}
+                      onChange={(e) => selectPage(e.target.checked)}
+                    />
+                  </TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Invoice Date</TableHead>
+                  <TableHead>Due Date</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Grand Total</TableHead>
+                  <TableHead className={canReadPayments ? 'text-right' : 'text-right pr-4'}>Outstanding</TableHead>
+                  {canReadPayments && <TableHead className="pr-4">Payments</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!data ? (
+                  <TableRow>
+                    <TableCell colSpan={columnCount} className="h-24 text-center text-muted-foreground">
+                      Loading...
+                    </TableCell>
+                  </TableRow>
+                ) : data.data.length ? (
+                  data.data.map((invoice) => {
+                    const payments = data.payments.filter((payment) => payment.invoice === invoice.name)
+                    return (
+                      <TableRow key={invoice.name} className={isLoading ? 'opacity-50 align-top' : 'align-top'}>
+                        <TableCell className="pl-4">
+                          <input
+                            type="checkbox"
+                            className="size-4 accent-primary align-middle"
+                            aria-label={`Select ${invoice.bill_no || invoice.name}`}
+                            checked={selected.has(invoice.name)}
+                            onChange={() => toggleSelected(invoice.name)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{invoice.bill_no || invoice.name}</div>
+                          {invoice.bill_no && <div className="text-muted-foreground">{invoice.name}</div>}
+                        </TableCell>
+                        <TableCell>{formatDate(invoice.bill_date || invoice.posting_date)}</TableCell>
+                        <TableCell>{formatDate(invoice.due_date)}</TableCell>
+                        <TableCell>
+                          <StatusBadge status={invoice.status} />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency(invoice.grand_total, invoice.currency)}
+                        </TableCell>
+                        <TableCell className={canReadPayments ? 'text-right' : 'text-right pr-4'}>
+                          {formatCurrency(invoice.outstanding_amount, invoice.currency)}
+                        </TableCell>
+                        {canReadPayments && (
+                          <TableCell className="pr-4">
+                            {payments.length === 0 ? (
+                              <span className="text-muted-foreground">—</span>
+                            ) : (
+                              <ul className="space-y-1">
+                                {payments.map((payment) => (
+                                  <li key={`${payment.name}-${payment.invoice}`}>
+                                    <span className="font-medium">{payment.reference_no || payment.name}</span>
+                                    <span className="text-muted-foreground">
+                                      {' '}
+                                      · {formatDate(payment.reference_date || payment.posting_date)} ·{' '}
+                                      {formatCurrency(payment.allocated_amount, invoice.currency)}
+                                    </span>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    )
+                  })
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={columnCount} className="h-24 text-center text-muted-foreground">
+                      No invoices found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {data && (
+        <ListPagination
+          page={page}
+          pageSize={LIST_PAGE_SIZE}
+          total={data.total}
+          onPageChange={(next) => updateParams({ page: String(next) })}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,323 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { NativeSelect } from '@/components/ui/native-select'
+import { ColumnMappingCard } from '@/components/ui/prices/ColumnMappingCard'
+import { PricePreviewTable } from '@/components/ui/prices/PricePreviewTable'
+import { useAccess } from '@/hooks/useAccess'
+import { useCurrentSupplier } from '@/hooks/useCurrentSupplier'
+import { useFrappeQuery } from '@/hooks/useFrappeQuery'
+import {
+  createPriceListQuotation,
+  fetchBuyerCompanies,
+  fetchCurrentPrices,
+  fetchItemUoms,
+  fetchSupplierPricing,
+  saveItemPrice,
+  type PriceUploadTarget,
+} from '@/api/priceLists'
+import { getErrorMessage } from '@/lib/frappe'
+import { formatNumber } from '@/lib/format'
+import { SPREADSHEET_ACCEPT, readSpreadsheet } from '@/lib/spreadsheet'
+import {
+  buildPriceRows,
+  guessMapping,
+  mappedItemCodes,
+  missingFields,
+  type ColumnMapping,
+  type PriceRow,
+} from '@/lib/priceUpload'
+
+const TARGET_LABELS: Record<PriceUploadTarget, string> = {
+  'item-price': 'Update my price list',
+  quotation: 'Send as a quotation for review',
+}
+
+interface UploadResult {
+  saved: number
+  failures: Array<{ rowNumber: number; message: string }>
+  quotation: string | null
+}
+
+export default function PriceListUploadPage() {
+  const { can } = useAccess()
+  const { supplier, error: supplierError, isLoading: isSupplierLoading } = useCurrentSupplier()
+  const canUpdatePrices = can('Item Price', 'read') && can('Item Price', 'create') && can('Item Price', 'write')
+  const [target, setTarget] = useState<PriceUploadTarget>(canUpdatePrices ? 'item-price' : 'quotation')
+
+  const [fileName, setFileName] = useState('')
+  const [sheet, setSheet] = useState<string[][] | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [preview, setPreview] = useState<PriceRow[] | null>(null)
+  const [company, setCompany] = useState('')
+  const [validTill, setValidTill] = useState('')
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [result, setResult] = useState<UploadResult | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const pricing = useFrappeQuery(supplier ? `supplier-pricing:${supplier}` : null, (signal) =>
+    fetchSupplierPricing(supplier as string, signal)
+  )
+  const companies = useFrappeQuery(target === 'quotation' ? 'buyer-companies' : null, fetchBuyerCompanies)
+  const selectedCompany = company || companies.data?.[0] || ''
+
+  const reset = () => {
+    setFileName('')
+    setSheet(null)
+    setMapping(null)
+    setPreview(null)
+    setResult(null)
+    setError(null)
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    reset()
+    if (!file) return
+    try {
+      const rows = await readSpreadsheet(file)
+      if (rows.filter((row) => row.some(Boolean)).length < 2) {
+        setError('The file needs a header row and at least one price.')
+        return
+      }
+      setFileName(file.name)
+      setSheet(rows)
+      setMapping(guessMapping(rows[0]))
+    } catch (readError) {
+      setError(getErrorMessage(readError, 'The file could not be read. Save it as CSV or XLSX and try again.'))
+    }
+  }
+
+  const handleCheck = async () => {
+    if (!sheet || !mapping || !supplier || !pricing.data) return
+    const missing = missingFields(mapping)
+    if (missing.length > 0) {
+      setError(`Choose the column for ${missing.join(' and ')}.`)
+      return
+    }
+    setError(null)
+    setIsChecking(true)
+    try {
+      const itemCodes = mappedItemCodes(sheet, mapping)
+      const [items, prices] = await Promise.all([
+        fetchItemUoms(itemCodes),
+        // Without read access every row simply shows as new
+        can('Item Price', 'read') ? fetchCurrentPrices(pricing.data.price_list, supplier, itemCodes) : [],
+      ])
+      setPreview(buildPriceRows(sheet, mapping, items, prices))
+    } catch (checkError) {
+      setError(getErrorMessage(checkError))
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  const validRows = preview?.filter((row) => row.errors.length === 0) ?? []
+  const errorCount = (preview?.length ?? 0) - validRows.length
+  // A quotation prices everything on the sheet; the price list only needs what moved
+  const rowsToSave = target === 'quotation' ? validRows : validRows.filter((row) => row.change !== 'unchanged')
+
+  const handleCommit = async () => {
+    if (!supplier || !pricing.data || rowsToSave.length === 0) return
+    setError(null)
+    const changes = rowsToSave.map((row) => ({
+      item_code: row.item_code,
+      uom: row.uom,
+      rate: row.rate as number,
+      valid_from: row.valid_from,
+    }))
+
+    if (target === 'quotation') {
+      if (!selectedCompany) {
+        setError('Choose who the quotation is for.')
+        return
+      }
+      setProgress({ done: 0, total: 1 })
+      try {
+        const quotation = await createPriceListQuotation({
+          supplier,
+          company: selectedCompany,
+          validTill: validTill || null,
+          changes,
+        })
+        setResult({ saved: changes.length, failures: [], quotation: quotation.name })
+      } catch (commitError) {
+        setError(getErrorMessage(commitError))
+      } finally {
+        setProgress(null)
+      }
+      return
+    }
+
+    // One request per price; a failure is recorded against its row and the rest carry on
+    const failures: UploadResult['failures'] = []
+    setProgress({ done: 0, total: changes.length })
+    for (const [index, change] of changes.entries()) {
+      try {
+        await saveItemPrice(change, {
+          priceList: pricing.data.price_list,
+          supplier,
+          currency: pricing.data.currency,
+          existing: rowsToSave[index].current,
+        })
+      } catch (saveError) {
+        failures.push({ rowNumber: rowsToSave[index].rowNumber, message: getErrorMessage(saveError) })
+      }
+      setProgress({ done: index + 1, total: changes.length })
+    }
+    setProgress(null)
+    setResult({ saved: changes.length - failures.length, failures, quotation: null })
+  }
+
+  const loadError =
+    supplierError || pricing.error || (!isSupplierLoading && !supplier && 'Your account is not linked to a supplier.')
+
+  if (result) {
+    return (
+      <div className="h-full overflow-y-auto p-6 space-y-4">
+        <h2 className="text-xl font-semibold">Upload Price List</h2>
+        <div className="p-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-md">
+          {result.quotation
+            ? `Quotation ${result.quotation} was created with ${formatNumber(result.saved, 0)} prices. Our buyers will review it.`
+            : `${formatNumber(result.saved, 0)} prices were updated on ${pricing.data?.price_list}.`}
+        </div>
+        {result.failures.length > 0 && (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md space-y-1">
+            <p>These rows could not be saved:</p>
+            <ul className="list-disc pl-5">
+              {result.failures.map((failure) => (
+                <li key={failure.rowNumber}>
+                  Row {failure.rowNumber}: {failure.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <Button variant="outline" onClick={reset}>
+          Upload another file
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-4">
+      <h2 className="text-xl font-semibold">Upload Price List</h2>
+
+      {loadError ? (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{loadError}</div>
+      ) : (
+        <Card>
+          <CardContent className="grid gap-4 md:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="price-file">Price list file</Label>
+              <Input
+                id="price-file"
+                type="file"
+                accept={SPREADSHEET_ACCEPT}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+              <p className="text-sm text-muted-foreground">
+                CSV or XLSX with a header row. Item code and rate are required; UOM and valid-from date are optional.
+              </p>
+            </div>
+            <div className="grid gap-2 content-start">
+              <Label htmlFor="price-target">What to do with it</Label>
+              <NativeSelect
+                id="price-target"
+                value={target}
+                onChange={(e) => setTarget(e.target.value as PriceUploadTarget)}
+              >
+                {canUpdatePrices && <option value="item-price">{TARGET_LABELS['item-price']}</option>}
+                <option value="quotation">{TARGET_LABELS.quotation}</option>
+              </NativeSelect>
+              {pricing.data && target === 'item-price' && (
+                <p className="text-sm text-muted-foreground">Prices go on {pricing.data.price_list}.</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {error && <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>}
+
+      {sheet && mapping && !preview && (
+        <>
+          <ColumnMappingCard headers={sheet[0]} rows={sheet.slice(1)} mapping={mapping} onChange={setMapping} />
+          <div className="flex justify-end">
+            <Button disabled={isChecking || !pricing.data} onClick={handleCheck}>
+              {isChecking ? 'Checking...' : `Check ${fileName}`}
+            </Button>
+          </div>
+        </>
+      )}
+
+      {preview && (
+        <>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+            <span>{formatNumber(preview.filter((row) => row.change === 'new').length, 0)} new</span>
+            <span>{formatNumber(preview.filter((row) => row.change === 'changed').length, 0)} changed</span>
+            <span>{formatNumber(preview.filter((row) => row.change === 'unchanged').length, 0)} unchanged</span>
+            <span className={errorCount > 0 ? 'text-red-700 font-medium' : undefined}>
+              {formatNumber(errorCount, 0)} with errors
+            </span>
+            <Button variant="link" size="sm" className="h-auto p-0 ml-auto" onClick={() => setPreview(null)}>
+              Change column mapping
+            </Button>
+          </div>
+
+          <PricePreviewTable rows={preview} currency={pricing.data?.currency ?? null} />
+
+          {target === 'quotation' && (
+            <Card>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                <div className="grid gap-2">
+                  <Label htmlFor="quotation-company">Quotation for</Label>
+                  <NativeSelect
+                    id="quotation-company"
+                    value={selectedCompany}
+                    disabled={companies.isLoading}
+                    onChange={(e) => setCompany(e.target.value)}
+                  >
+                    {companies.data?.length === 0 && <option value="">No buyers found</option>}
+                    {companies.data?.map((option) => (
+                      <option key={option} value={option}>
+                        {option}
+                      </option>
+                    ))}
+                  </NativeSelect>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="quotation-valid-till">Valid Till</Label>
+                  <Input
+                    id="quotation-valid-till"
+                    type="date"
+                    value={validTill}
+                    onChange={(e) => setValidTill(e.target.value)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="flex flex-wrap items-center justify-end gap-4">
+            {errorCount > 0 && (
+              <span className="text-sm text-muted-foreground">
+                Rows with errors are skipped. Fix them in your file and upload it again to include them.
+              </span>
+            )}
+            <Button disabled={Boolean(progress) || rowsToSave.length === 0} onClick={handleCommit}>
+              {progress
+                ? `Saving ${formatNumber(progress.done, 0)} of ${formatNumber(progress.total, 0)}...`
+                : target === 'quotation'
+                  ? `Create quotation with ${formatNumber(rowsToSave.length, 0)} prices`
+                  : `Save ${formatNumber(rowsToSave.length, 0)} price changes`}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
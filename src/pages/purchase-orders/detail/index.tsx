@@ -0,0 +1,218 @@
+import { Link, useParams } from 'react-router-dom'
+import { ArrowLeft, FileText, Truck } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { DocumentPrintActions } from '@/components/ui/documents/DocumentPrintActions'
+import { StatusBadge } from '@/components/ui/list/StatusBadge'
+import { OfflineBanner } from '@/components/ui/offline/OfflineBanner'
+import { useAccess } from '@/hooks/useAccess'
+import { useFrappeQuery } from '@/hooks/useFrappeQuery'
+import { ACCESS } from '@/routes/access'
+import { fetchPurchaseOrder, purchaseOrderKey } from '@/api/purchaseOrders'
+import { formatCurrency, formatDate, formatNumber } from '@/lib/format'
+
+export default function PurchaseOrderDetailPage() {
+  const { name = '' } = useParams()
+  const { canAccess } = useAccess()
+  const { data: order, error, isLoading, updatedAt } = useFrappeQuery(
+    purchaseOrderKey(name),
+    (signal) => fetchPurchaseOrder(name, signal),
+    { persist: true }
+  )
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-destructive">{error}</div>
+      </div>
+    )
+  }
+
+  if (isLoading || !order) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-muted-foreground">Loading...</div>
+      </div>
+    )
+  }
+
+  // Shown before the taxes when it came off the net total, after them otherwise, as ERPNext prints it
+  const discountRow = order.discount_amount > 0 && (
+    <div className="flex justify-between">
+      <span className="text-muted-foreground">Discount</span>
+      <span>-{formatCurrency(order.discount_amount, order.currency)}</span>
+    </div>
+  )
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-4">
+      <Link
+        to="/purchase-orders"
+        className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="size-4" />
+        Purchase Orders
+      </Link>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-xl font-semibold">{order.name}</h2>
+        <StatusBadge status={order.status} />
+        <div className="ml-auto flex flex-wrap gap-2">
+          <DocumentPrintActions doctype="Purchase Order" name={order.name} />
+          {order.per_received < 100 && canAccess(ACCESS.shippingNotice) && (
+            <Button asChild size="sm" variant="outline">
+              <Link to={`/shipping-notices/new?po=${encodeURIComponent(order.name)}`}>
+                <Truck />
+                Notify Shipment
+              </Link>
+            </Button>
+          )}
+          {order.per_received > order.per_billed && canAccess(ACCESS.newInvoice) && (
+            <Button asChild size="sm">
+              <Link to={`/invoices/new?po=${encodeURIComponent(order.name)}`}>
+                <FileText />
+                Create Invoice
+              </Link>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <OfflineBanner updatedAt={updatedAt} />
+
+      <Card>
+        <CardContent className="grid grid-cols-2 gap-4 text-sm md:grid-cols-4">
+          <div>
+            <div className="text-muted-foreground">Ordered By</div>
+            <div className="font-medium">{order.company}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Order Date</div>
+            <div className="font-medium">{formatDate(order.transaction_date)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Required By</div>
+            <div className="font-medium">{formatDate(order.schedule_date)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Received / Billed</div>
+            <div className="font-medium">
+              {formatNumber(order.per_received, 0)}% / {formatNumber(order.per_billed, 0)}%
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Items</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Schedule Date</TableHead>
+                <TableHead className="text-right">Qty</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {order.items.map((item) => (
+                <TableRow key={item.name}>
+                  <TableCell>{item.idx}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{item.item_code}</div>
+                    {item.item_name !== item.item_code && (
+                      <div className="text-muted-foreground">{item.item_name}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{formatDate(item.schedule_date)}</TableCell>
+                  <TableCell className="text-right">
+                    {formatNumber(item.qty)} {item.uom}
+                  </TableCell>
+                  <TableCell className="text-right">{formatNumber(item.received_qty)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(item.rate, order.currency)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(item.amount, order.currency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={6} className="text-right">
+                  Total
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(order.total, order.currency)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {order.taxes.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Taxes and Charges</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {order.taxes.map((tax) => (
+                  <TableRow key={tax.name}>
+                    <TableCell>{tax.description}</TableCell>
+                    <TableCell className="text-right">{tax.rate ? `${formatNumber(tax.rate)}%` : '—'}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(tax.tax_amount, order.currency)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(tax.total, order.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="ml-auto w-full max-w-sm space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Total</span>
+            <span>{formatCurrency(order.total, order.currency)}</span>
+          </div>
+          {order.apply_discount_on === 'Net Total' && discountRow}
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Net Total</span>
+            <span>{formatCurrency(order.net_total, order.currency)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Taxes and Charges</span>
+            <span>{formatCurrency(order.total_taxes_and_charges, order.currency)}</span>
+          </div>
+          {order.apply_discount_on !== 'Net Total' && discountRow}
+          <div className="flex justify-between border-t pt-2 text-base font-semibold">
+            <span>Grand Total</span>
+            <span>{formatCurrency(order.grand_total, order.currency)}</span>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
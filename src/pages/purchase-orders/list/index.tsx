@@ -0,0 +1,213 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { NativeSelect } from '@/components/ui/native-select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { PdfBundleMenu } from '@/components/ui/documents/PdfBundleMenu'
+import { ExportMenu } from '@/components/ui/list/ExportMenu'
+import { ListPagination } from '@/components/ui/list/ListPagination'
+import { StatusBadge } from '@/components/ui/list/StatusBadge'
+import { OfflineBanner } from '@/components/ui/offline/OfflineBanner'
+import { useFrappeQuery } from '@/hooks/useFrappeQuery'
+import { useListParams } from '@/hooks/useListParams'
+import { useSelection } from '@/hooks/useSelection'
+import {
+  PURCHASE_ORDER_STATUSES,
+  fetchPurchaseOrders,
+  prefetchPurchaseOrder,
+  purchaseOrdersKey,
+  type PurchaseOrderListParams,
+  type PurchaseOrderStatus,
+  type PurchaseOrderSummary,
+} from '@/api/purchaseOrders'
+import type { ExportColumn } from '@/lib/export'
+import { LIST_PAGE_SIZE } from '@/lib/frappe'
+import { formatCurrency, formatDate, formatNumber } from '@/lib/format'
+
+const EXPORT_COLUMNS: ExportColumn<PurchaseOrderSummary>[] = [
+  { key: 'name', label: 'PO Number', value: (order) => order.name },
+  { key: 'transaction_date', label: 'Date', type: 'date', value: (order) => order.transaction_date },
+  { key: 'schedule_date', label: 'Required By', type: 'date', value: (order) => order.schedule_date },
+  { key: 'status', label: 'Status', value: (order) => order.status },
+  { key: 'per_received', label: 'Received %', type: 'number', value: (order) => order.per_received },
+  { key: 'per_billed', label: 'Billed %', type: 'number', value: (order) => order.per_billed },
+  { key: 'currency', label: 'Currency', value: (order) => order.currency },
+  { key: 'grand_total', label: 'Grand Total', type: 'number', value: (order) => order.grand_total },
+]
+
+export default function PurchaseOrderListPage() {
+  const { searchParams, search, page, updateParams } = useListParams()
+  const status = (searchParams.get('status') || '') as PurchaseOrderStatus | ''
+  const overdue = searchParams.get('overdue') === '1'
+  const [searchInput, setSearchInput] = useState(search)
+
+  const params: PurchaseOrderListParams = { status, search, overdue, page, pageSize: LIST_PAGE_SIZE }
+  const { data, error, isLoading, updatedAt } = useFrappeQuery(
+    purchaseOrdersKey(params),
+    (signal) => fetchPurchaseOrders(params, signal),
+    { persist: true }
+  )
+
+  const { selected, isPageSelected, toggleSelected, selectPage } = useSelection(
+    data?.data.map((order) => order.name) ?? []
+  )
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    updateParams({ q: searchInput.trim(), page: '' })
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-4">
+      <h2 className="text-xl font-semibold">Purchase Orders</h2>
+      <OfflineBanner updatedAt={updatedAt} />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <form onSubmit={handleSearch} className="flex items-center gap-2">
+          <Input
+            type="search"
+            placeholder="Search by PO number"
+            className="w-64"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
+          <Button type="submit" variant="outline" size="icon" aria-label="Search">
+            <Search />
+          </Button>
+        </form>
+        <NativeSelect
+          aria-label="Status"
+          className="w-52"
+          value={status}
+          onChange={(e) => updateParams({ status: e.target.value, page: '' })}
+        >
+          <option value="">All statuses</option>
+          {PURCHASE_ORDER_STATUSES.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </NativeSelect>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="size-4 accent-primary"
+            checked={overdue}
+            onChange={(e) => updateParams({ overdue: e.target.checked ? '1' : '', page: '' })}
+          />
+          Overdue only
+        </label>
+        <div className="ml-auto flex gap-2">
+          <PdfBundleMenu doctype="Purchase Order" names={[...selected]} fileName="purchase-orders" />
+          <ExportMenu
+            columns={EXPORT_COLUMNS}
+            fileName="purchase-orders"
+            fetchPage={(exportPage, pageSize, signal) =>
+              fetchPurchaseOrders({ status, search, overdue, page: exportPage, pageSize }, signal)
+            }
+            disabled={!data?.total}
+          />
+        </div>
+      </div>
+
+      {error ? (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{error}</div>
+      ) : (
+        <Card className="py-0">
+          <CardContent className="px-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10 pl-4">
+                    <input
+                      type="checkbox"
+                      className="size-4 accent-primary align-middle"
+                      aria-label="Select all on this page"
+                      checked={isPageSelected}
+                      onChange={(e) => selectPage(e.target.checked)}
+                    />
+                  </TableHead>
+                  <TableHead>PO Number</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Required By</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Billed</TableHead>
+                  <TableHead className="text-right pr-4">Grand Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && !data ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                      Loading...
+                    </TableCell>
+                  </TableRow>
+                ) : data?.data.length ? (
+                  data.data.map((order) => (
+                    <TableRow key={order.name} className={isLoading ? 'opacity-50' : undefined}>
+                      <TableCell className="pl-4">
+                        <input
+                          type="checkbox"
+                          className="size-4 accent-primary align-middle"
+                          aria-label={`Select ${order.name}`}
+                          checked={selected.has(order.name)}
+                          onChange={() => toggleSelected(order.name)}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        <Link
+                          to={`/purchase-orders/${encodeURIComponent(order.name)}`}
+                          onMouseEnter={() => prefetchPurchaseOrder(order.name)}
+                          onFocus={() => prefetchPurchaseOrder(order.name)}
+                          className="text-primary hover:underline"
+                        >
+                          {order.name}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{formatDate(order.transaction_date)}</TableCell>
+                      <TableCell>{formatDate(order.schedule_date)}</TableCell>
+                      <TableCell>
+                        <StatusBadge status={order.status} />
+                      </TableCell>
+                      <TableCell className="text-right">{formatNumber(order.per_received, 0)}%</TableCell>
+                      <TableCell className="text-right">{formatNumber(order.per_billed, 0)}%</TableCell>
+                      <TableCell className="text-right pr-4">
+                        {formatCurrency(order.grand_total, order.currency)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                      No purchase orders found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {data && (
+        <ListPagination
+          page={page}
+          pageSize={LIST_PAGE_SIZE}
+          total={data.total}
+          onPageChange={(next) => updateParams({ page: String(next) })}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+import { useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { ArrowLeft } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { DocumentPrintActions } from '@/components/ui/documents/DocumentPrintActions'
+import { StatusBadge } from '@/components/ui/list/StatusBadge'
+import { OfflineBanner } from '@/components/ui/offline/OfflineBanner'
+import { QuotationResponseForm } from '@/components/ui/rfq/QuotationResponseForm'
+import { useCurrentSupplier } from '@/hooks/useCurrentSupplier'
+import { useFrappeQuery } from '@/hooks/useFrappeQuery'
+import { fetchQuotationForRfq, fetchRequestForQuotation, type SupplierQuotation } from '@/api/rfq'
+import { invalidateCache } from '@/lib/cache'
+import { formatDate } from '@/lib/format'
+
+export default function RfqDetailPage() {
+  const { name = '' } = useParams()
+  const { supplier, error: supplierError, isLoading: isSupplierLoading } = useCurrentSupplier()
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const { data, error, reload, updatedAt } = useFrappeQuery(
+    supplier ? `rfq:${name}:${supplier}` : null,
+    async (signal) => {
+      const [rfq, quotation] = await Promise.all([
+        fetchRequestForQuotation(name, signal),
+        fetchQuotationForRfq(supplier as string, name, signal),
+      ])
+      return { rfq, quotation }
+    },
+    { persist: true }
+  )
+
+  const handleQueued = (submit: boolean) => {
+    setNotice(`You're offline. Your quotation will be ${submit ? 'submitted' : 'saved'} when you're back online.`)
+  }
+
+  const handleSaved = (saved: SupplierQuotation) => {
+    setNotice(saved.docstatus === 1 ? `Quotation ${saved.name} submitted.` : `Draft ${saved.name} saved.`)
+    // The list shows each RFQ's quotation status
+    invalidateCache({ prefix: 'rfqs:' })
+    reload()
+  }
+
+  const loadError = supplierError || error || (!isSupplierLoading && !supplier && 'Your account is not linked to a supplier.')
+  if (loadError) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-destructive">{loadError}</div>
+      </div>
+    )
+  }
+
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-muted-foreground">Loading...</div>
+      </div>
+    )
+  }
+
+  const { rfq, quotation } = data
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-4">
+      <Link to="/rfq" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+        <ArrowLeft className="size-4" />
+        Requests for Quotation
+      </Link>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-xl font-semibold">{rfq.name}</h2>
+        <StatusBadge status={quotation ? (quotation.docstatus === 1 ? 'Submitted' : 'Draft') : rfq.status} />
+        {quotation && (
+          <div className="ml-auto">
+            <DocumentPrintActions doctype="Supplier Quotation" name={quotation.name} />
+          </div>
+        )}
+      </div>
+
+      <OfflineBanner updatedAt={updatedAt} />
+
+      {notice && (
+        <div className="p-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-md">{notice}</div>
+      )}
+
+      <Card>
+        <CardContent className="grid grid-cols-2 gap-4 text-sm md:grid-cols-3">
+          <div>
+            <div className="text-muted-foreground">Requested By</div>
+            <div className="font-medium">{rfq.company}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Date</div>
+            <div className="font-medium">{formatDate(rfq.transaction_date)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Required By</div>
+            <div className="font-medium">{formatDate(rfq.schedule_date)}</div>
+          </div>
+          {rfq.message_for_supplier && (
+            <div className="col-span-full">
+              <div className="text-muted-foreground">Message</div>
+              <div className="whitespace-pre-line">{rfq.message_for_supplier.replace(/<[^>]*>/g, '')}</div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <QuotationResponseForm
+        key={quotation ? `${quotation.name}-${quotation.docstatus}` : 'new'}
+        rfq={rfq}
+        supplier={supplier as string}
+        quotation={quotation}
+        onSaved={handleSaved}
+        onQueued={handleQueued}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,176 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ExportMenu } from '@/components/ui/list/ExportMenu'
+import { ListPagination } from '@/components/ui/list/ListPagination'
+import { StatusBadge } from '@/components/ui/list/StatusBadge'
+import { OfflineBanner } from '@/components/ui/offline/OfflineBanner'
+import { useCurrentSupplier } from '@/hooks/useCurrentSupplier'
+import { useFrappeQuery } from '@/hooks/useFrappeQuery'
+import { useListParams } from '@/hooks/useListParams'
+import {
+  fetchQuotationLinks,
+  fetchRequestsForQuotation,
+  type RequestForQuotationSummary,
+  type RfqListParams,
+  type RfqQuotationLink,
+} from '@/api/rfq'
+import type { ExportColumn } from '@/lib/export'
+import { LIST_PAGE_SIZE } from '@/lib/frappe'
+import { formatDate } from '@/lib/format'
+
+// The quotation status is what the supplier acts on, so it wins over the RFQ's own status
+const responseStatus = (links: RfqQuotationLink[], rfq: RequestForQuotationSummary): string => {
+  const link = links.find((row) => row.request_for_quotation === rfq.name)
+  if (!link) return rfq.status === 'Submitted' ? 'Awaiting Response' : rfq.status
+  return link.docstatus === 1 ? 'Submitted' : 'Draft'
+}
+
+const fetchRfqsWithLinks = async (params: RfqListParams, signal?: AbortSignal) => {
+  const result = await fetchRequestsForQuotation(params, signal)
+  const links = await fetchQuotationLinks(
+    params.supplier,
+    result.data.map((rfq) => rfq.name),
+    signal
+  )
+  return { ...result, links }
+}
+
+type RfqWithResponse = RequestForQuotationSummary & { response: string }
+
+const EXPORT_COLUMNS: ExportColumn<RfqWithResponse>[] = [
+  { key: 'name', label: 'RFQ Number', value: (rfq) => rfq.name },
+  { key: 'transaction_date', label: 'Date', type: 'date', value: (rfq) => rfq.transaction_date },
+  { key: 'schedule_date', label: 'Required By', type: 'date', value: (rfq) => rfq.schedule_date },
+  { key: 'company', label: 'Requested By', value: (rfq) => rfq.company },
+  { key: 'response', label: 'Response', value: (rfq) => rfq.response },
+]
+
+export default function RfqListPage() {
+  const { search, page, updateParams } = useListParams()
+  const [searchInput, setSearchInput] = useState(search)
+  const { supplier, error: supplierError, isLoading: isSupplierLoading } = useCurrentSupplier()
+
+  const params: RfqListParams | null = supplier ? { supplier, search, page, pageSize: LIST_PAGE_SIZE } : null
+  const { data, error, isLoading, updatedAt } = useFrappeQuery(
+    params && `rfqs:${JSON.stringify(params)}`,
+    (signal) => fetchRfqsWithLinks(params as RfqListParams, signal),
+    { persist: true }
+  )
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    updateParams({ q: searchInput.trim(), page: '' })
+  }
+
+  const loadError = supplierError || error || (!isSupplierLoading && !supplier && 'Your account is not linked to a supplier.')
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-4">
+      <h2 className="text-xl font-semibold">Requests for Quotation</h2>
+      <OfflineBanner updatedAt={updatedAt} />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <form onSubmit={handleSearch} className="flex items-center gap-2">
+          <Input
+            type="search"
+            placeholder="Search by RFQ number"
+            className="w-64"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
+          <Button type="submit" variant="outline" size="icon" aria-label="Search">
+            <Search />
+          </Button>
+        </form>
+        {supplier && (
+          <div className="ml-auto">
+            <ExportMenu
+              columns={EXPORT_COLUMNS}
+              fileName="requests-for-quotation"
+              fetchPage={async (exportPage, pageSize, signal) => {
+                const result = await fetchRfqsWithLinks({ supplier, search, page: exportPage, pageSize }, signal)
+                return {
+                  total: result.total,
+                  data: result.data.map((rfq) => ({ ...rfq, response: responseStatus(result.links, rfq) })),
+                }
+              }}
+              disabled={!data?.total}
+            />
+          </div>
+        )}
+      </div>
+
+      {loadError ? (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{loadError}</div>
+      ) : (
+        <Card className="py-0">
+          <CardContent className="px-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="pl-4">RFQ Number</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Required By</TableHead>
+                  <TableHead>Requested By</TableHead>
+                  <TableHead className="pr-4">Response</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!data ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
+                      Loading...
+                    </TableCell>
+                  </TableRow>
+                ) : data.data.length ? (
+                  data.data.map((rfq) => (
+                    <TableRow key={rfq.name} className={isLoading ? 'opacity-50' : undefined}>
+                      <TableCell className="pl-4 font-medium">
+                        <Link to={`/rfq/${encodeURIComponent(rfq.name)}`} className="text-primary hover:underline">
+                          {rfq.name}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{formatDate(rfq.transaction_date)}</TableCell>
+                      <TableCell>{formatDate(rfq.schedule_date)}</TableCell>
+                      <TableCell>{rfq.company}</TableCell>
+                      <TableCell className="pr-4">
+                        <StatusBadge status={responseStatus(data.links, rfq)} />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
+                      No requests for quotation found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {data && (
+        <ListPagination
+          page={page}
+          pageSize={LIST_PAGE_SIZE}
+          total={data.total}
+          onPageChange={(next) => updateParams({ page: String(next) })}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { Card, CardContent } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { NativeSelect } from '@/components/ui/native-select'
+import { ShippingNoticeForm } from '@/components/ui/shipping/ShippingNoticeForm'
+import { useFrappeQuery } from '@/hooks/useFrappeQuery'
+import { fetchPurchaseOrder, purchaseOrderKey } from '@/api/purchaseOrders'
+import { fetchNotifiedQty, fetchShippableOrders, type ShippingNotice } from '@/api/shippingNotices'
+import { invalidateCache } from '@/lib/cache'
+import { formatDate } from '@/lib/format'
+
+export default function NewShippingNoticePage() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const purchaseOrder = searchParams.get('po') || ''
+  const [created, setCreated] = useState<ShippingNotice | null>(null)
+
+  const orders = useFrappeQuery('shippable-purchase-orders', fetchShippableOrders)
+  const order = useFrappeQuery(purchaseOrder ? purchaseOrderKey(purchaseOrder) : null, (signal) =>
+    fetchPurchaseOrder(purchaseOrder, signal)
+  )
+  const notifiedQty = useFrappeQuery(purchaseOrder ? `shipping-notice-qty:${purchaseOrder}` : null, (signal) =>
+    fetchNotifiedQty(purchaseOrder, signal)
+  )
+
+  const handleCreated = (notice: ShippingNotice) => {
+    invalidateCache({ key: `shipping-notice-qty:${purchaseOrder}` })
+    setCreated(notice)
+  }
+
+  const selectOrder = (name: string) => {
+    setCreated(null)
+    setSearchParams(name ? { po: name } : {})
+  }
+
+  if (created) {
+    return (
+      <div className="h-full overflow-y-auto p-6 space-y-4">
+        <h2 className="text-xl font-semibold">Notify Shipment</h2>
+        <div className="p-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-md">
+          Shipping notice {created.name} was sent for {purchaseOrder}. Our receiving team will expect the delivery on{' '}
+          {formatDate(created.expected_arrival)}.
+        </div>
+        <Link to={`/purchase-orders/${encodeURIComponent(purchaseOrder)}`} className="text-sm text-primary hover:underline">
+          Back to {purchaseOrder}
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-4">
+      <h2 className="text-xl font-semibold">Notify Shipment</h2>
+
+      <Card>
+        <CardContent className="grid gap-2 max-w-md">
+          <Label htmlFor="purchase-order">Purchase Order</Label>
+          <NativeSelect
+            id="purchase-order"
+            value={purchaseOrder}
+            disabled={orders.isLoading}
+            onChange={(e) => selectOrder(e.target.value)}
+          >
+            <option value="">{orders.isLoading ? 'Loading...' : 'Select an open purchase order'}</option>
+            {orders.data?.map((option) => (
+              <option key={option.name} value={option.name}>
+                {option.name} · due {formatDate(option.schedule_date)}
+              </option>
+            ))}
+          </NativeSelect>
+          {orders.data?.length === 0 && (
+            <p className="text-sm text-muted-foreground">There are no open purchase orders awaiting delivery.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {orders.error && (
+        <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">{orders.error}</div>
+      )}
+
+      {purchaseOrder &&
+        (order.error || notifiedQty.error ? (
+          <div className="p-3 text-sm text-red-600 bg-red-50 border border-red-200 rounded-md">
+            {order.error || notifiedQty.error}
+          </div>
+        ) : order.data && notifiedQty.data && !order.isLoading && !notifiedQty.isLoading ? (
+          <ShippingNoticeForm
+            key={purchaseOrder}
+            order={order.data}
+            notifiedQty={notifiedQty.data}
+            onCreated={handleCreated}
+          />
+        ) : (
+          <div className="text-sm text-muted-foreground">Loading...</div>
+        ))}
+    </div>
+  )
+}
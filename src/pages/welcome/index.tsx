@@ -0,0 +1,68 @@
+import { Link } from 'react-router-dom'
+import { ArrowRight } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardHeader, CardTitle } from '@/components/ui/card'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { useCurrentSupplier } from '@/hooks/useCurrentSupplier'
+import { getNavigation } from '@/routes/navigation'
+import { APP_HOME_PATH } from '@/routes/returnPath'
+
+// First stop for invited contacts once they have set a password
+export default function WelcomePage() {
+  const { user, roles, permissions } = useAuthStore()
+  const { supplier, isLoading } = useCurrentSupplier()
+
+  // What this contact can do, taken from the sidebar so it matches their access
+  const sections = getNavigation(roles, permissions)
+    .map((section) => ({
+      ...section,
+      entries: section.entries.filter((entry) => entry.href !== APP_HOME_PATH),
+    }))
+    .filter((section) => section.entries.length > 0)
+
+  return (
+    <div className="h-full overflow-y-auto p-6 space-y-6">
+      <div className="space-y-1">
+        <h2 className="text-xl font-semibold">Welcome{user?.full_name ? `, ${user.full_name}` : ''}</h2>
+        <p className="text-sm text-muted-foreground">Your account is ready. Here's where to find things.</p>
+      </div>
+
+      {isLoading ? (
+        <div className="text-muted-foreground">Loading...</div>
+      ) : supplier ? (
+        <div className="p-3 text-sm text-green-700 bg-green-50 border border-green-200 rounded-md">
+          You're set up as a contact for <span className="font-medium">{supplier}</span>.
+        </div>
+      ) : (
+        <div className="p-3 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md">
+          Your account isn't linked to a supplier yet, so orders and RFQs won't show. Contact your GeriCare buyer.
+        </div>
+      )}
+
+      {sections.map((section) => (
+        <section key={section.id} className="space-y-3">
+          <h3 className="text-sm font-medium text-muted-foreground">{section.label}</h3>
+          <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
+            {section.entries.map((entry) => (
+              <Link key={entry.id} to={entry.href} className="group">
+                <Card className="gap-2 py-4 transition-colors group-hover:bg-muted/50">
+                  <CardHeader className="grid-cols-[auto_1fr] items-center gap-x-3 px-4">
+                    <entry.icon className="size-4 text-muted-foreground" />
+                    <CardTitle className="text-sm">{entry.label}</CardTitle>
+                  </CardHeader>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        </section>
+      ))}
+
+      <Button asChild>
+        <Link to={APP_HOME_PATH}>
+          Go to Home
+          <ArrowRight />
+        </Link>
+      </Button>
+    </div>
+  )
+}
@@ -1,11 +1,29 @@
-import { Routes, Route, Navigate } from 'react-router-dom'
+import { Routes, Route, Navigate, useLocation } from 'react-router-dom'
 import { useAuthStore } from '@/stores/useAuthStore'
 import { ProtectedRoute } from './ProtectedRoute'
+import { RequireAccess } from './RequireAccess'
+import { ACCESS } from './access'
+import { APP_HOME_PATH, getReturnPath } from './returnPath'
+import { AppLayout } from '@/components/layout/AppLayout'
 import SigninPage from '@/pages/auth/signin'
+import ForgotPasswordPage from '@/pages/auth/forgot-password'
+import UpdatePasswordPage from '@/pages/auth/update-password'
+import WelcomePage from '@/pages/welcome'
 import DashboardOverviewPage from '@/pages/dashboard/overview'
+import HomePage from '@/pages/home'
+import PurchaseOrderListPage from '@/pages/purchase-orders/list'
+import PurchaseOrderDetailPage from '@/pages/purchase-orders/detail'
+import DeliverySchedulePage from '@/pages/deliveries'
+import RfqListPage from '@/pages/rfq/list'
+import RfqDetailPage from '@/pages/rfq/detail'
+import NewInvoicePage from '@/pages/invoices/new'
+import NewShippingNoticePage from '@/pages/shipping-notices/new'
+import PaymentsPage from '@/pages/payments'
+import PriceListUploadPage from '@/pages/price-lists/upload'
 
 export function AppRoutes() {
-  const { isAuthenticated, homePage } = useAuthStore()
+  const { isAuthenticated } = useAuthStore()
+  const location = useLocation()
 
   return (
     <Routes>
@@ -13,36 +31,124 @@ export function AppRoutes() {
       <Route
         path="/login"
         element={
-          isAuthenticated ? <Navigate to={homePage || '/me'} replace /> : <SigninPage />
+          isAuthenticated ? (
+            <Navigate to={getReturnPath(location.state, APP_HOME_PATH)} replace />
+          ) : (
+            <SigninPage />
+          )
         }
       />
 
-      {/* Redirect /dashboard to /me to avoid 404 */}
+      <Route
+        path="/forgot-password"
+        element={isAuthenticated ? <Navigate to={APP_HOME_PATH} replace /> : <ForgotPasswordPage />}
+      />
+      {/* Reset and welcome links work whoever is signed in; setting the password signs in as its owner */}
+      <Route path="/update-password" element={<UpdatePasswordPage />} />
+
+      {/* Redirect /dashboard to the native home to avoid 404 */}
       <Route
         path="/dashboard"
         element={
           <ProtectedRoute>
-            <Navigate to="/me" replace />
+            <Navigate to={APP_HOME_PATH} replace />
           </ProtectedRoute>
         }
       />
 
-      {/* Protected routes - catch all authenticated routes */}
+      {/* Protected routes - native screens share the app shell with proxied portal pages */}
       <Route
-        path="/*"
         element={
           <ProtectedRoute>
-            <DashboardOverviewPage />
+            <AppLayout />
           </ProtectedRoute>
         }
-      />
+      >
+        <Route path={APP_HOME_PATH} element={<HomePage />} />
+        <Route path="/welcome" element={<WelcomePage />} />
+        <Route
+          path="/purchase-orders"
+          element={
+            <RequireAccess rule={ACCESS.purchaseOrders}>
+              <PurchaseOrderListPage />
+            </RequireAccess>
+          }
+        />
+        <Route
+          path="/purchase-orders/:name"
+          element={
+            <RequireAccess rule={ACCESS.purchaseOrders}>
+              <PurchaseOrderDetailPage />
+            </RequireAccess>
+          }
+        />
+        <Route
+          path="/deliveries"
+          element={
+            <RequireAccess rule={ACCESS.purchaseOrders}>
+              <DeliverySchedulePage />
+            </RequireAccess>
+          }
+        />
+        <Route
+          path="/shipping-notices/new"
+          element={
+            <RequireAccess rule={ACCESS.shippingNotice}>
+              <NewShippingNoticePage />
+            </RequireAccess>
+          }
+        />
+        <Route
+          path="/rfq"
+          element={
+            <RequireAccess rule={ACCESS.rfqs}>
+              <RfqListPage />
+            </RequireAccess>
+          }
+        />
+        <Route
+          path="/rfq/:name"
+          element={
+            <RequireAccess rule={ACCESS.rfqs}>
+              <RfqDetailPage />
+            </RequireAccess>
+          }
+        />
+        <Route
+          path="/price-lists/upload"
+          element={
+            <RequireAccess rule={ACCESS.priceUpload}>
+              <PriceListUploadPage />
+            </RequireAccess>
+          }
+        />
+        <Route
+          path="/invoices/new"
+          element={
+            <RequireAccess rule={ACCESS.newInvoice}>
+              <NewInvoicePage />
+            </RequireAccess>
+          }
+        />
+        <Route
+          path="/payments"
+          element={
+            <RequireAccess rule={ACCESS.payments}>
+              <PaymentsPage />
+            </RequireAccess>
+          }
+        />
+
+        {/* Catch all - any other path is proxied from the Frappe portal */}
+        <Route path="/*" element={<DashboardOverviewPage />} />
+      </Route>
 
       {/* Default redirect */}
       <Route
         path="/"
         element={
           <Navigate
-            to={isAuthenticated ? (homePage || '/me') : '/login'}
+            to={isAuthenticated ? APP_HOME_PATH : '/login'}
             replace
           />
         }
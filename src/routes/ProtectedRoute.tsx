@@ -8,9 +8,11 @@ interface ProtectedRouteProps {
 
 export function ProtectedRoute({ children }: ProtectedRouteProps) {
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const user = useAuthStore((state) => state.user)
   const location = useLocation()
 
-  if (!isAuthenticated) {
+  // Both are set together by a successful login against the user's own session
+  if (!isAuthenticated || !user) {
     // Redirect to login page with the return url
     return <Navigate to="/login" state={{ from: location }} replace />
   }
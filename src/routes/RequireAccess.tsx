@@ -0,0 +1,20 @@
+import type { ReactNode } from 'react'
+import { AccessDenied } from '@/components/ui/errors/AccessDenied'
+import { useAccess } from '@/hooks/useAccess'
+import type { AccessRule } from './access'
+
+interface RequireAccessProps {
+  rule: AccessRule
+  children: ReactNode
+}
+
+export function RequireAccess({ rule, children }: RequireAccessProps) {
+  const { canAccess } = useAccess()
+
+  // Render in place so the URL stays put and logging in with the right account brings the user back
+  if (!canAccess(rule)) {
+    return <AccessDenied />
+  }
+
+  return <>{children}</>
+}
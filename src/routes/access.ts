@@ -0,0 +1,60 @@
+import type { DocTypePermissions, PermissionType } from '@/api/permissions'
+
+/**
+ * What a route, menu entry or action needs. Both parts must hold: the user has
+ * any of `roles` (when given) and every DocType permission in `permissions`.
+ */
+export interface AccessRule {
+  roles?: string[]
+  permissions?: Array<[doctype: string, permType: PermissionType]>
+}
+
+// Supplier contacts plus the internal buying team
+export const PURCHASING_ROLES = ['Supplier', 'Purchase User', 'Purchase Manager']
+
+export const hasPermission = (
+  permissions: DocTypePermissions,
+  doctype: string,
+  permType: PermissionType
+): boolean => {
+  return permissions[doctype]?.includes(permType) ?? false
+}
+
+export const hasAccess = (
+  rule: AccessRule | undefined,
+  roles: string[],
+  permissions: DocTypePermissions
+): boolean => {
+  if (!rule) return true
+  const roleOk = !rule.roles || rule.roles.some((role) => roles.includes(role))
+  const permissionsOk = (rule.permissions ?? []).every(([doctype, permType]) =>
+    hasPermission(permissions, doctype, permType)
+  )
+  return roleOk && permissionsOk
+}
+
+// Route-level rules, shared by the routes themselves and their sidebar entries
+export const ACCESS = {
+  purchaseOrders: { roles: PURCHASING_ROLES, permissions: [['Purchase Order', 'read']] },
+  rfqs: { roles: PURCHASING_ROLES, permissions: [['Request for Quotation', 'read']] },
+  supplierQuotations: { roles: PURCHASING_ROLES },
+  newInvoice: {
+    roles: ['Supplier'],
+    permissions: [
+      ['Purchase Order', 'read'],
+      ['Purchase Invoice', 'create'],
+    ],
+  },
+  shippingNotice: {
+    roles: ['Supplier'],
+    permissions: [
+      ['Purchase Order', 'read'],
+      // Open notices are read back so the same qty isn't announced twice
+      ['Advance Shipping Notice', 'read'],
+      ['Advance Shipping Notice', 'create'],
+    ],
+  },
+  // Suppliers without Item Price rights can still send their prices as a quotation
+  priceUpload: { roles: ['Supplier'], permissions: [['Supplier Quotation', 'create']] },
+  payments: { roles: PURCHASING_ROLES, permissions: [['Purchase Invoice', 'read']] },
+} satisfies Record<string, AccessRule>
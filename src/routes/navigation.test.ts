@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { getNavigation, isNavEntryActive, type NavEntry } from '@/routes/navigation'
+import type { DocTypePermissions } from '@/api/permissions'
+
+const labels = (roles: string[], permissions: DocTypePermissions) => {
+  return getNavigation(roles, permissions).map((section) => [section.label, section.entries.map((entry) => entry.label)])
+}
+
+describe('getNavigation', () => {
+  it('shows a user without roles only the unrestricted entries', () => {
+    expect(labels([], {})).toEqual([
+      ['Overview', ['Home']],
+      ['Account', ['Addresses', 'Issues', 'My Account']],
+    ])
+  })
+
+  it('needs both the role and the DocType permissions of an entry', () => {
+    const withRoleOnly = labels(['Supplier'], {}).flatMap(([, entries]) => entries)
+    expect(withRoleOnly).not.toContain('Purchase Orders')
+    // Gated by role alone
+    expect(withRoleOnly).toContain('Supplier Quotations')
+
+    const withPermission = labels(['Supplier'], { 'Purchase Order': ['read'] }).flatMap(([, entries]) => entries)
+    expect(withPermission).toContain('Purchase Orders')
+    expect(withPermission).not.toContain('New Invoice')
+  })
+
+  it('orders entries within their group', () => {
+    const purchasing = getNavigation(['Supplier'], {
+      'Purchase Order': ['read'],
+      'Request for Quotation': ['read'],
+    }).find((section) => section.id === 'purchasing')
+
+    expect(purchasing?.entries.map((entry) => entry.label)).toEqual([
+      'Purchase Orders',
+      'Delivery Schedule',
+      'Requests for Quotation',
+      'Supplier Quotations',
+    ])
+  })
+})
+
+describe('isNavEntryActive', () => {
+  const entry = { href: '/purchase-orders' } as NavEntry
+
+  it('keeps the list entry active on its detail pages', () => {
+    expect(isNavEntryActive(entry, '/purchase-orders')).toBe(true)
+    expect(isNavEntryActive(entry, '/purchase-orders/PUR-ORD-0001')).toBe(true)
+    expect(isNavEntryActive(entry, '/purchase-orders-archive')).toBe(false)
+  })
+})
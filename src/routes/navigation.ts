@@ -0,0 +1,170 @@
+import {
+  CalendarDays,
+  CreditCard,
+  FilePlus,
+  FileQuestion,
+  FileSpreadsheet,
+  FileText,
+  House,
+  LifeBuoy,
+  MapPin,
+  ShoppingCart,
+  Truck,
+  UserRound,
+  type LucideIcon,
+} from 'lucide-react'
+import { LIST_PAGE_SIZE } from '@/lib/frappe'
+import { matchesPath, prefetchPortalPage } from '@/lib/portal'
+import { prefetchDeliveryLines, prefetchPurchaseOrders } from '@/api/purchaseOrders'
+import type { DocTypePermissions } from '@/api/permissions'
+import { ACCESS, hasAccess, type AccessRule } from './access'
+import { APP_HOME_PATH } from './returnPath'
+
+// Types
+export type NavGroupId = 'overview' | 'purchasing' | 'billing' | 'account'
+
+export interface NavEntry {
+  id: string
+  label: string
+  href: string
+  icon: LucideIcon
+  group: NavGroupId
+  // Lower sorts first within the group
+  order: number
+  // 'native' screens are React routes; 'portal' pages are proxied from Frappe
+  kind: 'native' | 'portal'
+  // Shown only to users who pass the rule; omit to show to everyone
+  access?: AccessRule
+  // Warms the cache when the link is hovered; portal pages are prefetched by default
+  prefetch?: () => void
+}
+
+export interface NavSection {
+  id: NavGroupId
+  label: string
+  entries: NavEntry[]
+}
+
+const NAV_GROUPS: Array<Omit<NavSection, 'entries'>> = [
+  { id: 'overview', label: 'Overview' },
+  { id: 'purchasing', label: 'Purchasing' },
+  { id: 'billing', label: 'Billing' },
+  { id: 'account', label: 'Account' },
+]
+
+const registry = new Map<string, NavEntry>()
+
+/** Adds entries to the sidebar, replacing any already registered under the same id. */
+export const registerNavEntries = (entries: NavEntry[]): void => {
+  entries.forEach((entry) => registry.set(entry.id, entry))
+}
+
+/** The sidebar for a user with the given access, grouped and ordered, without empty groups. */
+export const getNavigation = (roles: string[], permissions: DocTypePermissions): NavSection[] => {
+  const visible = [...registry.values()].filter((entry) => hasAccess(entry.access, roles, permissions))
+  return NAV_GROUPS.map((group) => ({
+    ...group,
+    entries: visible
+      .filter((entry) => entry.group === group.id)
+      .sort((a, b) => a.order - b.order || a.label.localeCompare(b.label)),
+  })).filter((section) => section.entries.length > 0)
+}
+
+// Detail pages like /purchase-orders/PO-0001 keep their list entry highlighted
+export const isNavEntryActive = (entry: NavEntry, pathname: string): boolean => {
+  return matchesPath(entry.href, pathname) || pathname.startsWith(`${entry.href}/`)
+}
+
+export const prefetchNavEntry = (entry: NavEntry): void => {
+  if (entry.prefetch) entry.prefetch()
+  else if (entry.kind === 'portal') prefetchPortalPage(entry.href)
+}
+
+registerNavEntries([
+  { id: 'home', label: 'Home', href: APP_HOME_PATH, icon: House, group: 'overview', order: 0, kind: 'native' },
+  {
+    id: 'purchase-orders',
+    label: 'Purchase Orders',
+    href: '/purchase-orders',
+    icon: ShoppingCart,
+    group: 'purchasing',
+    order: 10,
+    kind: 'native',
+    access: ACCESS.purchaseOrders,
+    prefetch: () => prefetchPurchaseOrders({ status: '', search: '', overdue: false, page: 1, pageSize: LIST_PAGE_SIZE }),
+  },
+  {
+    id: 'deliveries',
+    label: 'Delivery Schedule',
+    href: '/deliveries',
+    icon: CalendarDays,
+    group: 'purchasing',
+    order: 15,
+    kind: 'native',
+    access: ACCESS.purchaseOrders,
+    prefetch: prefetchDeliveryLines,
+  },
+  {
+    id: 'new-shipping-notice',
+    label: 'Notify Shipment',
+    href: '/shipping-notices/new',
+    icon: Truck,
+    group: 'purchasing',
+    order: 17,
+    kind: 'native',
+    access: ACCESS.shippingNotice,
+  },
+  {
+    id: 'rfq',
+    label: 'Requests for Quotation',
+    href: '/rfq',
+    icon: FileQuestion,
+    group: 'purchasing',
+    order: 20,
+    kind: 'native',
+    access: ACCESS.rfqs,
+  },
+  {
+    id: 'price-upload',
+    label: 'Upload Price List',
+    href: '/price-lists/upload',
+    icon: FileSpreadsheet,
+    group: 'purchasing',
+    order: 25,
+    kind: 'native',
+    access: ACCESS.priceUpload,
+  },
+  {
+    id: 'supplier-quotations',
+    label: 'Supplier Quotations',
+    href: '/supplier-quotations',
+    icon: FileText,
+    group: 'purchasing',
+    order: 30,
+    kind: 'portal',
+    access: ACCESS.supplierQuotations,
+  },
+  {
+    id: 'new-invoice',
+    label: 'New Invoice',
+    href: '/invoices/new',
+    icon: FilePlus,
+    group: 'billing',
+    order: 10,
+    kind: 'native',
+    access: ACCESS.newInvoice,
+  },
+  {
+    id: 'payments',
+    label: 'Payments',
+    href: '/payments',
+    icon: CreditCard,
+    group: 'billing',
+    order: 20,
+    kind: 'native',
+    access: ACCESS.payments,
+  },
+  { id: 'addresses', label: 'Addresses', href: '/addresses', icon: MapPin, group: 'account', order: 10, kind: 'portal' },
+  { id: 'issues', label: 'Issues', href: '/issues', icon: LifeBuoy, group: 'account', order: 20, kind: 'portal' },
+  { id: 'profile', label: 'My Account', href: '/me', icon: UserRound, group: 'account', order: 30, kind: 'portal' },
+])
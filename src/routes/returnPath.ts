@@ -0,0 +1,18 @@
+import type { Location } from 'react-router-dom'
+
+// Native supplier home; Frappe's own `home_page` is only used to read the portal sidebar
+export const APP_HOME_PATH = '/home'
+
+interface ReturnState {
+  from?: Location
+}
+
+/**
+ * Resolves where to send the user after login: the page `ProtectedRoute`
+ * bounced them from, or the given fallback.
+ */
+export const getReturnPath = (state: unknown, fallback: string): string => {
+  const from = (state as ReturnState | null)?.from
+  if (!from || from.pathname === '/login') return fallback
+  return from.pathname + from.search + from.hash
+}
@@ -0,0 +1,82 @@
+// Service worker that keeps the app shell available offline. Vite builds it
+// as its own entry (see vite.config.ts) and it is served from /sw.js.
+//
+// Frappe data is deliberately not cached here: it is per-user and rides on the
+// session cookie, so the app persists what it needs itself (see lib/cache.ts).
+
+declare const __APP_BUILD__: string
+
+const sw = self as unknown as ServiceWorkerGlobalScope
+
+// One cache per build; activating a new build drops the previous shell
+const CACHE_NAME = `app-shell-${__APP_BUILD__}`
+const SHELL_URL = '/'
+const ASSET_PATTERN = /(?:src|href)="(\/assets\/[^"]+)"/g
+// The app's own build output; Frappe's proxied assets live in per-app folders under /assets
+const APP_ASSET_PATH = /^\/assets\/[^/]+$/
+// Frappe paths proxied through the app's origin, e.g. a file opened from a link
+const FRAPPE_PATH = /^\/(?:api|portal|files|private\/files)\//
+
+const precacheShell = async (): Promise<void> => {
+  const cache = await caches.open(CACHE_NAME)
+  const response = await fetch(SHELL_URL, { cache: 'no-cache' })
+  if (!response.ok) throw new Error(`Could not fetch the app shell: ${response.status}`)
+
+  // The hashed scripts and styles index.html loads are what the shell needs to boot
+  const html = await response.clone().text()
+  const assets = [...html.matchAll(ASSET_PATTERN)].map(([, url]) => url)
+  await cache.addAll(assets)
+  await cache.put(SHELL_URL, response)
+}
+
+// Navigations always try the network so a new deploy is picked up straight away
+const handleNavigation = async (request: Request): Promise<Response> => {
+  const cache = await caches.open(CACHE_NAME)
+  try {
+    const response = await fetch(request)
+    if (response.ok) await cache.put(SHELL_URL, response.clone())
+    return response
+  } catch (error) {
+    // Every route renders the same SPA shell
+    const cached = await cache.match(SHELL_URL)
+    if (cached) return cached
+    throw error
+  }
+}
+
+// Asset URLs are content-hashed, so a cached copy never goes stale
+const handleAsset = async (request: Request): Promise<Response> => {
+  const cache = await caches.open(CACHE_NAME)
+  const cached = await cache.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) await cache.put(request, response.clone())
+  return response
+}
+
+sw.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => sw.skipWaiting()))
+})
+
+sw.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => sw.clients.claim())
+  )
+})
+
+sw.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  // Frappe requests, direct or proxied, are left to the app
+  if (request.method !== 'GET' || url.origin !== sw.location.origin || FRAPPE_PATH.test(url.pathname)) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request))
+  } else if (APP_ASSET_PATH.test(url.pathname)) {
+    event.respondWith(handleAsset(request))
+  }
+})
@@ -0,0 +1,165 @@
+import { describe, expect, it, vi } from 'vitest'
+import { fetchCached, getCached } from '@/lib/cache'
+import { callMethod, configureFrappeClient, getList } from '@/lib/frappe'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { MOCK_EMAIL, MOCK_PASSWORD, setupMockBackend } from '@/test/mockBackend'
+
+describe('useAuthStore', () => {
+  const backend = setupMockBackend()
+
+  it('logs in with the session user, their access and a CSRF token', async () => {
+    const result = await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+
+    expect(result).toEqual({ success: true, homePage: '/me' })
+    const state = useAuthStore.getState()
+    expect(state.isAuthenticated).toBe(true)
+    expect(state.user).toEqual({ email: MOCK_EMAIL, full_name: 'Sam Supplier' })
+    expect(state.roles).toEqual(['Supplier'])
+    expect(state.permissions['Purchase Order']).toEqual(['read'])
+    expect(state.permissions['Supplier Quotation']).toEqual(['read', 'create', 'write', 'submit'])
+    expect(state.csrfToken).toBeTruthy()
+    expect(backend().sessionUser).toBe(MOCK_EMAIL)
+  })
+
+  it("reports the server's message for wrong credentials", async () => {
+    const result = await useAuthStore.getState().login(MOCK_EMAIL, 'wrong')
+
+    expect(result).toEqual({ success: false })
+    expect(useAuthStore.getState().isAuthenticated).toBe(false)
+    expect(useAuthStore.getState().error).toBe('Invalid login credentials')
+  })
+
+  it('sends the CSRF token with writes', async () => {
+    const sentTokens: (string | null)[] = []
+    configureFrappeClient({
+      fetch: (input, init) => {
+        if (init?.method === 'POST') sentTokens.push(new Headers(init.headers).get('X-Frappe-CSRF-Token'))
+        return backend().fetch(input, init)
+      },
+    })
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    const { csrfToken } = useAuthStore.getState()
+
+    await useAuthStore.getState().logout()
+
+    expect(sentTokens.at(-1)).toBe(csrfToken)
+    expect(backend().sessionUser).toBeNull()
+  })
+
+  it('logs out on the server and drops cached data', async () => {
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    await fetchCached('orders', (signal) => getList('Purchase Order', {}, signal), { persist: true })
+
+    await useAuthStore.getState().logout()
+
+    expect(useAuthStore.getState().isAuthenticated).toBe(false)
+    expect(useAuthStore.getState().user).toBeNull()
+    expect(backend().sessionUser).toBeNull()
+    expect(getCached('orders')).toBeUndefined()
+  })
+
+  it('ends the login when a request finds the session expired', async () => {
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    backend().expireSession()
+
+    await expect(getList('Purchase Order')).rejects.toMatchObject({ status: 403 })
+    // The 403 triggers a session check, which the expired session fails
+    await expect(useAuthStore.getState().validateSession()).resolves.toBe(false)
+
+    expect(useAuthStore.getState().isAuthenticated).toBe(false)
+    expect(useAuthStore.getState().error).toBe('Your session has expired. Please log in again.')
+  })
+
+  it('keeps the login when a 403 is only a missing permission', async () => {
+    const supplier = backend().fixtures.users.find((candidate) => candidate.email === MOCK_EMAIL)
+    if (supplier) supplier.permissions['Payment Entry'] = []
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+
+    await expect(getList('Payment Entry')).rejects.toMatchObject({ status: 403 })
+    await expect(useAuthStore.getState().validateSession()).resolves.toBe(true)
+    expect(useAuthStore.getState().isAuthenticated).toBe(true)
+  })
+
+  it('re-checks a 403 only once the session is no longer fresh, without reloading access', async () => {
+    const supplier = backend().fixtures.users.find((candidate) => candidate.email === MOCK_EMAIL)
+    if (supplier) supplier.permissions['Payment Entry'] = []
+    const methods: string[] = []
+    configureFrappeClient({
+      fetch: (input, init) => {
+        methods.push(String(input).split('/api/method/')[1]?.split('?')[0] ?? '')
+        return backend().fetch(input, init)
+      },
+    })
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    methods.length = 0
+
+    // Just logged in, so the session is known to be good
+    await expect(getList('Payment Entry')).rejects.toMatchObject({ status: 403 })
+    expect(methods).not.toContain('frappe.auth.get_logged_user')
+
+    vi.useFakeTimers({ toFake: ['Date'] })
+    try {
+      vi.setSystemTime(Date.now() + 60_000)
+      await expect(getList('Payment Entry')).rejects.toMatchObject({ status: 403 })
+      expect(methods).toContain('frappe.auth.get_logged_user')
+      // Joins the check the 403 started
+      await expect(useAuthStore.getState().validateSession({ refreshAccess: false })).resolves.toBe(true)
+      expect(methods.filter((method) => method === 'frappe.auth.get_logged_user')).toHaveLength(1)
+      expect(methods).not.toContain('frappe.core.doctype.user.user.get_roles')
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('reloads access when asked even while a check without it is running', async () => {
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    const supplier = backend().fixtures.users.find((candidate) => candidate.email === MOCK_EMAIL)
+    if (supplier) supplier.permissions['Payment Entry'] = []
+
+    const sessionCheck = useAuthStore.getState().validateSession({ refreshAccess: false })
+    await expect(useAuthStore.getState().validateSession()).resolves.toBe(true)
+    await expect(sessionCheck).resolves.toBe(true)
+    expect(useAuthStore.getState().permissions['Payment Entry']).toBeUndefined()
+  })
+
+  it('picks up a rotated CSRF token and retries the write', async () => {
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    const staleToken = useAuthStore.getState().csrfToken
+    backend().rotateCsrfToken()
+
+    await expect(
+      callMethod('frappe.client.has_permission', { doctype: 'Purchase Order', perm_type: 'read' })
+    ).resolves.toEqual({ has_permission: true })
+    expect(useAuthStore.getState().csrfToken).not.toBe(staleToken)
+    expect(useAuthStore.getState().isAuthenticated).toBe(true)
+  })
+
+  it('signs in through a social login provider and returns to where it started', async () => {
+    const url = await useAuthStore.getState().startSocialLogin('google', '/payments')
+    expect(url).toContain('login_via_google')
+
+    // The browser follows the provider to Frappe's callback, which starts the session
+    const callback = await backend().fetch(url as string)
+    expect(callback.headers.get('Location')).toBe('/login?sso=google')
+
+    const result = await useAuthStore.getState().completeSocialLogin('google')
+    expect(result).toEqual({ success: true, homePage: '/me', returnTo: '/payments' })
+    expect(useAuthStore.getState().user?.email).toBe(MOCK_EMAIL)
+    expect(useAuthStore.getState().csrfToken).toBeTruthy()
+  })
+
+  it('reports a social login that came back without a session', async () => {
+    await useAuthStore.getState().startSocialLogin('google', '/payments')
+
+    const result = await useAuthStore.getState().completeSocialLogin('google')
+
+    expect(result).toEqual({ success: false, returnTo: '/payments' })
+    expect(useAuthStore.getState().isAuthenticated).toBe(false)
+    expect(useAuthStore.getState().error).toBe("Signing in with Google didn't complete. Please try again.")
+  })
+
+  it('reports a provider the site has no Social Login Key for', async () => {
+    await expect(useAuthStore.getState().startSocialLogin('github', '/home')).resolves.toBeNull()
+    expect(useAuthStore.getState().error).toBe('This sign-in option is not set up on the site')
+  })
+})
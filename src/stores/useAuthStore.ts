@@ -1,5 +1,12 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import { FrappeError, callMethod, configureFrappeClient, fetchCsrfToken, frappeRequest } from '@/lib/frappe'
+import { clearCache } from '@/lib/cache'
+import { siteStorageKey } from '@/lib/sites'
+import { socialLoginLabel, socialLoginReturnPath } from '@/lib/socialLogin'
+import { useOutboxStore } from '@/stores/useOutboxStore'
+import { fetchDocTypePermissions, type DocTypePermissions } from '@/api/permissions'
+import { fetchSocialLoginUrl } from '@/api/socialLogin'
 
 interface User {
   email: string
@@ -11,92 +18,268 @@ interface LoginResult {
   homePage?: string
 }
 
+interface SocialLoginResult extends LoginResult {
+  // The page the user started signing in from
+  returnTo: string | null
+}
+
 interface AuthState {
   isAuthenticated: boolean
   user: User | null
   homePage: string | null
-  token: string | null
+  csrfToken: string | null
+  roles: string[]
+  permissions: DocTypePermissions
   error: string | null
   login: (usr: string, pwd: string) => Promise<LoginResult>
+  resumeSession: (homePage?: string) => Promise<LoginResult>
+  startSocialLogin: (provider: string, returnTo: string) => Promise<string | null>
+  completeSocialLogin: (provider: string) => Promise<SocialLoginResult>
   logout: () => Promise<void>
+  // `refreshAccess: false` only confirms the session and its CSRF token
+  validateSession: (options?: { refreshAccess?: boolean }) => Promise<boolean>
   clearError: () => void
 }
 
-export const API_BASE = 'https://gcdev.m.frappe.cloud'
+interface LoginResponse {
+  message: string
+  home_page?: string
+  full_name?: string
+}
+
+type AccessState = Pick<AuthState, 'roles' | 'permissions'>
+
+type SessionState = Pick<AuthState, 'isAuthenticated' | 'user' | 'homePage' | 'csrfToken'> & AccessState
+
+const SIGNED_OUT_STATE: SessionState = {
+  isAuthenticated: false,
+  user: null,
+  homePage: null,
+  csrfToken: null,
+  roles: [],
+  permissions: {},
+}
+
+// When the server last confirmed the session; a 403 soon after is taken as a plain permission error
+let sessionConfirmedAt = 0
+const SESSION_RECHECK_MS = 30_000
+
+// A failed lookup leaves the user with only the unrestricted routes and actions
+const fetchAccess = async (email: string): Promise<AccessState> => {
+  const [roles, permissions] = await Promise.all([
+    callMethod<string[]>('frappe.core.doctype.user.user.get_roles', { uid: email }, { httpMethod: 'GET' }).catch(
+      () => []
+    ),
+    fetchDocTypePermissions().catch(() => ({})),
+  ])
+  return { roles, permissions }
+}
+
+const BLOCKED_COOKIE_ERROR = 'Your browser blocked the login session cookie. Please allow cookies for this site.'
+
+// Some responses return `/dashboard`, which 404s on this site; `/me` is used instead
+const toHomePage = (apiHomePage: string | undefined): string => {
+  return !apiHomePage || apiHomePage === '/dashboard' ? '/me' : apiHomePage
+}
+
+const requestErrorMessage = (error: unknown): string => {
+  if (error instanceof FrappeError) return error.message
+  return navigator.onLine
+    ? 'Could not reach the server. Please try again.'
+    : "You're offline. Connect to the internet to log in."
+}
+
+/**
+ * Picks up the session Frappe has just started in the `sid` cookie: confirms
+ * the browser kept it (third-party cookie blocking drops it silently), finds
+ * out who it belongs to and loads their access. Null when there is no session.
+ */
+const loadSession = async (homePage: string, fullName: string | undefined): Promise<SessionState | null> => {
+  const sessionUser = await callMethod<string>('frappe.auth.get_logged_user', undefined, {
+    httpMethod: 'GET',
+  })
+  if (!sessionUser || sessionUser === 'Guest') return null
+
+  const [csrfToken, access] = await Promise.all([fetchCsrfToken(homePage), fetchAccess(sessionUser)])
+  sessionConfirmedAt = Date.now()
+  return {
+    isAuthenticated: true,
+    user: {
+      email: sessionUser,
+      full_name: fullName || sessionUser.split('@')[0],
+    },
+    homePage,
+    csrfToken,
+    ...access,
+  }
+}
+
+// The page a social login started from, kept in sessionStorage across the provider's redirects
+const SOCIAL_LOGIN_RETURN_KEY = 'social-login-return'
+
+const takeSocialLoginReturnPath = (): string | null => {
+  const key = siteStorageKey(SOCIAL_LOGIN_RETURN_KEY)
+  const returnTo = sessionStorage.getItem(key)
+  sessionStorage.removeItem(key)
+  return returnTo
+}
+
+// Shared by concurrent callers so a burst of 401/403s triggers a single check. Kept per
+// `refreshAccess`, so a caller wanting fresh permissions never settles for a check without them
+const pendingValidations = new Map<boolean, Promise<boolean>>()
 
 export const useAuthStore = create<AuthState>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       isAuthenticated: false,
       user: null,
       homePage: null,
-      token: null,
+      csrfToken: null,
+      roles: [],
+      permissions: {},
       error: null,
       login: async (usr: string, pwd: string) => {
         try {
           set({ error: null })
           
-          const response = await fetch(`${API_BASE}/api/method/login`, {
+          const data = await frappeRequest<LoginResponse>('/api/method/login', {
             method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({ usr, pwd }),
-            credentials: 'include',
+            body: { usr, pwd },
           })
 
-          const data = await response.json()
-
           // Handle successful login - response can be "Logged In" or "No App"
-          if (response.ok && (data.message === 'Logged In' || data.message === 'No App')) {
-            // Normalise home page: some responses may return `/dashboard`, which 404s on this site.
-            // Always use `/me` instead of `/dashboard` to avoid 404 errors
-            const apiHomePage = data.home_page as string | undefined
-            const homePage =
-              !apiHomePage || apiHomePage === '/dashboard' ? '/me' : apiHomePage
-            // Use the provided token for API authentication
-            const token = 'b5a11fd3272c41d:ba2b8a2e5d77188'
-            set({
-              isAuthenticated: true,
-              user: {
-                email: usr,
-                full_name: data.full_name || usr.split('@')[0],
-              },
-              homePage,
-              token,
-              error: null,
-            })
+          if (data.message === 'Logged In' || data.message === 'No App') {
+            const homePage = toHomePage(data.home_page)
+            const session = await loadSession(homePage, data.full_name)
+            if (!session) {
+              set({ error: BLOCKED_COOKIE_ERROR })
+              return { success: false }
+            }
+            set({ ...session, error: null })
             return { success: true, homePage }
           } else {
             set({ error: data.message || 'Login failed' })
             return { success: false }
           }
-        } catch {
-          set({ error: 'Network error. Please try again.' })
+        } catch (error) {
+          set({ error: requestErrorMessage(error) })
+          return { success: false }
+        }
+      },
+      // For sessions Frappe starts outside the login form, e.g. after setting a password from an emailed link
+      resumeSession: async (apiHomePage?: string) => {
+        // Data cached for whoever was signed in before doesn't belong to the new session
+        if (get().isAuthenticated) {
+          clearCache()
+          useOutboxStore.getState().clear()
+        }
+        try {
+          set({ error: null })
+          const homePage = toHomePage(apiHomePage)
+          const session = await loadSession(homePage, undefined)
+          if (!session) {
+            set({ ...SIGNED_OUT_STATE, error: BLOCKED_COOKIE_ERROR })
+            return { success: false }
+          }
+          set({ ...session, error: null })
+          return { success: true, homePage }
+        } catch (error) {
+          set({ ...SIGNED_OUT_STATE, error: requestErrorMessage(error) })
           return { success: false }
         }
       },
+      // Returns the provider's sign-in URL for the caller to redirect to
+      startSocialLogin: async (provider: string, returnTo: string) => {
+        try {
+          set({ error: null })
+          const url = await fetchSocialLoginUrl(provider, socialLoginReturnPath(provider))
+          sessionStorage.setItem(siteStorageKey(SOCIAL_LOGIN_RETURN_KEY), returnTo)
+          return url
+        } catch (error) {
+          set({ error: requestErrorMessage(error) })
+          return null
+        }
+      },
+      // Called when Frappe's callback sends the user back to the login page
+      completeSocialLogin: async (provider: string) => {
+        const returnTo = takeSocialLoginReturnPath()
+        const result = await get().resumeSession()
+        // Without a session the provider sign-in was cancelled or refused, not blocked by the browser
+        if (!result.success && get().error === BLOCKED_COOKIE_ERROR) {
+          set({ error: `Signing in with ${socialLoginLabel(provider)} didn't complete. Please try again.` })
+        }
+        return { ...result, returnTo }
+      },
       logout: async () => {
+        // Cancels whatever is still loading and drops cached responses and queued changes, which belong to this user
+        clearCache()
+        useOutboxStore.getState().clear()
         try {
-          await fetch(`${API_BASE}/api/method/logout`, {
-            method: 'POST',
-            credentials: 'include',
-          })
+          await frappeRequest('/api/method/logout', { method: 'POST' })
         } catch {
           // Ignore logout errors
         }
-        set({
-          isAuthenticated: false,
-          user: null,
-          homePage: null,
-          token: null,
-          error: null,
-        })
+        set({ ...SIGNED_OUT_STATE, error: null })
+      },
+      validateSession: ({ refreshAccess = true } = {}) => {
+        if (!get().isAuthenticated) return Promise.resolve(false)
+        const pending = pendingValidations.get(refreshAccess)
+        if (pending) return pending
+
+        const validation = (async () => {
+          try {
+            const sessionUser = await callMethod<string>('frappe.auth.get_logged_user', undefined, {
+              httpMethod: 'GET',
+            })
+            if (sessionUser && sessionUser !== 'Guest' && sessionUser === get().user?.email) {
+              // Re-read the CSRF token, which may have rotated, and pick up role and
+              // permission changes made on the Frappe side since login
+              const [csrfToken, access] = await Promise.all([
+                fetchCsrfToken(get().homePage || '/me'),
+                refreshAccess ? fetchAccess(sessionUser) : null,
+              ])
+              sessionConfirmedAt = Date.now()
+              set({ csrfToken: csrfToken ?? get().csrfToken, ...access })
+              return true
+            }
+          } catch (error) {
+            // Only a rejected session ends the login; being offline or a 5xx does not
+            if (!(error instanceof FrappeError && error.isAuthError)) {
+              return get().isAuthenticated
+            }
+          } finally {
+            pendingValidations.delete(refreshAccess)
+          }
+          clearCache()
+          set({ ...SIGNED_OUT_STATE, error: 'Your session has expired. Please log in again.' })
+          return false
+        })()
+        pendingValidations.set(refreshAccess, validation)
+        return validation
       },
       clearError: () => set({ error: null }),
     }),
     {
-      name: 'auth-storage',
+      name: siteStorageKey('auth-storage'),
+      // v0 persisted a shared API token for every user; drop it and force a fresh login
+      version: 1,
+      migrate: (persistedState, version) => {
+        if (version < 1) {
+          return SIGNED_OUT_STATE as AuthState
+        }
+        return persistedState as AuthState
+      },
     }
   )
 )
+
+configureFrappeClient({
+  getCsrfToken: () => useAuthStore.getState().csrfToken,
+  // A 403 is usually a plain permission error, so it only leads to a check when the
+  // session hasn't been confirmed lately, and never reloads the user's access
+  onUnauthorized: (status) => {
+    if (status === 403 && Date.now() - sessionConfirmedAt < SESSION_RECHECK_MS) return
+    useAuthStore.getState().validateSession({ refreshAccess: false })
+  },
+  onCsrfTokenError: () => useAuthStore.getState().validateSession({ refreshAccess: false }),
+})
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { saveQuotation, type QuotationDraft } from '@/api/rfq'
+import { MOCK_COMPANY, MOCK_SUPPLIER } from '@/mocks/fixtures'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { useOutboxStore } from '@/stores/useOutboxStore'
+import { MOCK_EMAIL, MOCK_PASSWORD, setupMockBackend } from '@/test/mockBackend'
+
+const draft = (rate: number): QuotationDraft => ({
+  supplier: MOCK_SUPPLIER,
+  company: MOCK_COMPANY,
+  valid_till: null,
+  terms: null,
+  items: [
+    {
+      item_code: 'MED-GLOVE-M',
+      qty: 1000,
+      uom: 'Box',
+      rate,
+      lead_time_days: 5,
+      description: null,
+      request_for_quotation: 'PUR-RFQ-0002',
+      request_for_quotation_item: 'PUR-RFQ-0002-item-1',
+    },
+  ],
+})
+
+describe('useOutboxStore', () => {
+  const backend = setupMockBackend()
+
+  const quotationsForRfq = () =>
+    backend().fixtures.docs['Supplier Quotation'].filter((doc) =>
+      (doc.items as QuotationDraft['items']).some((item) => item.request_for_quotation === 'PUR-RFQ-0002')
+    )
+
+  it('updates the quotation a dropped save already created instead of inserting another', async () => {
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    // The first attempt reached the server, but the answer never came back
+    await saveQuotation(draft(6))
+    useOutboxStore.getState().enqueue(MOCK_EMAIL, 'Quotation for PUR-RFQ-0002', {
+      kind: 'save-quotation',
+      draft: draft(6.25),
+      submit: false,
+    })
+
+    await useOutboxStore.getState().replay(MOCK_EMAIL)
+
+    expect(useOutboxStore.getState().entries).toEqual([])
+    const quotations = quotationsForRfq()
+    expect(quotations).toHaveLength(1)
+    expect((quotations[0].items as QuotationDraft['items'])[0].rate).toBe(6.25)
+  })
+
+  it('drops a queued save once the quotation has been submitted', async () => {
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    await saveQuotation(draft(6), { submit: true })
+    useOutboxStore.getState().enqueue(MOCK_EMAIL, 'Quotation for PUR-RFQ-0002', {
+      kind: 'save-quotation',
+      draft: draft(6),
+      submit: true,
+    })
+
+    await useOutboxStore.getState().replay(MOCK_EMAIL)
+
+    expect(useOutboxStore.getState().entries).toEqual([])
+    expect(quotationsForRfq()).toHaveLength(1)
+  })
+})
@@ -0,0 +1,88 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { FrappeError, getErrorMessage } from '@/lib/frappe'
+import { invalidateCache } from '@/lib/cache'
+import { siteStorageKey } from '@/lib/sites'
+import { replayQuotation, type QuotationDraft } from '@/api/rfq'
+
+// Write actions made without a connection. They survive reloads and are
+// replayed in the order they were made once the browser is back online.
+
+export type OutboxAction = {
+  kind: 'save-quotation'
+  draft: QuotationDraft
+  name?: string
+  submit: boolean
+}
+
+export interface OutboxEntry {
+  id: string
+  // Email of the user who made the change; only their session replays it
+  owner: string
+  // Shown to the user, e.g. "Quotation for RFQ-0001"
+  label: string
+  action: OutboxAction
+  queuedAt: number
+  // Set when the server rejected the replay; the entry then waits for the user to dismiss it
+  error: string | null
+}
+
+interface OutboxState {
+  entries: OutboxEntry[]
+  isReplaying: boolean
+  enqueue: (owner: string, label: string, action: OutboxAction) => void
+  replay: (owner: string) => Promise<void>
+  dismiss: (id: string) => void
+  clear: () => void
+}
+
+const runAction = async (action: OutboxAction): Promise<void> => {
+  switch (action.kind) {
+    case 'save-quotation':
+      await replayQuotation(action.draft, { name: action.name, submit: action.submit })
+      // Both the RFQ list and its detail page show the quotation's state
+      invalidateCache({ prefix: 'rfq' })
+      return
+  }
+}
+
+export const useOutboxStore = create<OutboxState>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+      isReplaying: false,
+      enqueue: (owner, label, action) => {
+        const entry: OutboxEntry = { id: crypto.randomUUID(), owner, label, action, queuedAt: Date.now(), error: null }
+        set({ entries: [...get().entries, entry] })
+      },
+      replay: async (owner) => {
+        if (get().isReplaying) return
+        set({ isReplaying: true })
+        try {
+          for (const entry of get().entries.filter((queued) => queued.owner === owner && !queued.error)) {
+            try {
+              await runAction(entry.action)
+              set({ entries: get().entries.filter((queued) => queued.id !== entry.id) })
+            } catch (error) {
+              // Still offline, or the session is gone: keep everything for the next attempt
+              if (error instanceof TypeError || (error instanceof FrappeError && error.isAuthError)) return
+              set({
+                entries: get().entries.map((queued) =>
+                  queued.id === entry.id ? { ...queued, error: getErrorMessage(error) } : queued
+                ),
+              })
+            }
+          }
+        } finally {
+          set({ isReplaying: false })
+        }
+      },
+      dismiss: (id) => set({ entries: get().entries.filter((queued) => queued.id !== id) }),
+      clear: () => set({ entries: [] }),
+    }),
+    {
+      name: siteStorageKey('outbox'),
+      partialize: (state) => ({ entries: state.entries }),
+    }
+  )
+)
@@ -0,0 +1,22 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { siteStorageKey } from '@/lib/sites'
+import type { PrintOptions } from '@/api/printing'
+
+// The print format and letterhead last used per DocType, so a supplier who
+// prefers their own format picks it once.
+
+interface PrintSettingsState {
+  settings: Record<string, PrintOptions>
+  setSettings: (doctype: string, options: PrintOptions) => void
+}
+
+export const usePrintSettingsStore = create<PrintSettingsState>()(
+  persist(
+    (set, get) => ({
+      settings: {},
+      setSettings: (doctype, options) => set({ settings: { ...get().settings, [doctype]: options } }),
+    }),
+    { name: siteStorageKey('print-settings') }
+  )
+)
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { render, screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MemoryRouter } from 'react-router-dom'
+import App from '@/App'
+import { MOCK_INVITED_USER } from '@/mocks/fixtures'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { MOCK_EMAIL, MOCK_PASSWORD, setupMockBackend } from '@/test/mockBackend'
+
+const renderApp = (path: string) => {
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <App />
+    </MemoryRouter>
+  )
+  return userEvent.setup()
+}
+
+const logIn = async (user: ReturnType<typeof userEvent.setup>) => {
+  await user.type(await screen.findByLabelText('Email'), MOCK_EMAIL)
+  await user.type(screen.getByLabelText('Password'), MOCK_PASSWORD)
+  await user.click(screen.getByRole('button', { name: 'Login' }))
+}
+
+describe('App', () => {
+  const backend = setupMockBackend()
+
+  it('logs in, navigates through the sidebar and logs out', async () => {
+    const user = renderApp('/login')
+    await logIn(user)
+
+    // The sidebar reflects the supplier's roles and permissions
+    const sidebar = await screen.findByRole('navigation')
+    expect(within(sidebar).getByRole('link', { name: 'Home' })).toBeTruthy()
+    expect(within(sidebar).getByRole('link', { name: 'Purchase Orders' })).toBeTruthy()
+    expect(within(sidebar).getByRole('link', { name: 'Payments' })).toBeTruthy()
+    expect(screen.getByText(`Welcome, Sam Supplier`)).toBeTruthy()
+
+    // A native screen, filled from the API
+    await user.click(within(sidebar).getByRole('link', { name: 'Purchase Orders' }))
+    expect(await screen.findByText('PUR-ORD-0004')).toBeTruthy()
+    // Drafts stay internal
+    expect(screen.queryByText('PUR-ORD-0006')).toBeNull()
+
+    // A portal page, rendered into a shadow root
+    await user.click(within(sidebar).getByRole('link', { name: 'My Account' }))
+    await waitFor(() => {
+      const host = [...document.querySelectorAll('div')].find((element) => element.shadowRoot)
+      expect(host?.shadowRoot?.textContent).toContain('You are signed in to the GeriCare supplier portal')
+    })
+
+    await user.click(screen.getByRole('button', { name: 'Logout' }))
+
+    expect(await screen.findByText('Login to your account')).toBeTruthy()
+    expect(screen.queryByRole('navigation')).toBeNull()
+    expect(backend().sessionUser).toBeNull()
+    expect(useAuthStore.getState().isAuthenticated).toBe(false)
+  })
+
+  it('returns to the page that asked for a login', async () => {
+    const user = renderApp('/payments')
+
+    await logIn(user)
+
+    expect(await screen.findByText('ACME-1003')).toBeTruthy()
+  })
+
+  it('shows the error for wrong credentials and stays on the login page', async () => {
+    const user = renderApp('/login')
+
+    await user.type(await screen.findByLabelText('Email'), MOCK_EMAIL)
+    await user.type(screen.getByLabelText('Password'), 'wrong')
+    await user.click(screen.getByRole('button', { name: 'Login' }))
+
+    expect(await screen.findByText('Invalid login credentials')).toBeTruthy()
+    expect(screen.queryByRole('navigation')).toBeNull()
+  })
+
+  it('finishes a social login when Frappe sends the user back', async () => {
+    const url = await useAuthStore.getState().startSocialLogin('office_365', '/rfq')
+    await backend().fetch(url as string)
+
+    renderApp('/login?sso=office_365')
+
+    // The invited contact signs in with Microsoft 365 without ever setting a password
+    expect(await screen.findByRole('heading', { name: 'Requests for Quotation' })).toBeTruthy()
+    expect(useAuthStore.getState().user?.email).toBe(MOCK_INVITED_USER)
+  })
+})
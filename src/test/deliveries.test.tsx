@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { MemoryRouter } from 'react-router-dom'
+import App from '@/App'
+import { formatViewTitle } from '@/lib/calendar'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { MOCK_EMAIL, MOCK_PASSWORD, setupMockBackend } from '@/test/mockBackend'
+
+const renderApp = (path: string) => {
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <App />
+    </MemoryRouter>
+  )
+}
+
+// Date ranges are formatted with thin spaces, which the DOM matchers normalise away
+const findTitle = (title: string) => {
+  const normalised = title.replace(/\s+/g, ' ')
+  return screen.findByText((content) => content.replace(/\s+/g, ' ') === normalised)
+}
+
+describe('Delivery schedule', () => {
+  setupMockBackend()
+
+  it('opens on the linked date', async () => {
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    renderApp('/deliveries?view=month&date=2024-03-15')
+
+    expect(await findTitle(formatViewTitle('month', new Date(2024, 2, 15)))).toBeTruthy()
+  })
+
+  it('falls back to today for a malformed date', async () => {
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    renderApp('/deliveries?view=week&date=not-a-date')
+
+    expect(await findTitle(formatViewTitle('week', new Date()))).toBeTruthy()
+  })
+})
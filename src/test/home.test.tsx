@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MemoryRouter } from 'react-router-dom'
+import App from '@/App'
+import { formatCurrency } from '@/lib/format'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { MOCK_EMAIL, MOCK_PASSWORD, setupMockBackend } from '@/test/mockBackend'
+
+const renderApp = (path: string) => {
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <App />
+    </MemoryRouter>
+  )
+  return userEvent.setup()
+}
+
+const kpiCard = async (title: string) => {
+  return (await screen.findByText(title)).closest('[data-slot="card"]') as HTMLElement
+}
+
+describe('Home', () => {
+  const backend = setupMockBackend()
+
+  it('keeps amounts in different currencies apart', async () => {
+    const invoice = backend().fixtures.docs['Purchase Invoice'].find((doc) => doc.name === 'ACC-PINV-0004')
+    if (invoice) invoice.currency = 'USD'
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    renderApp('/')
+
+    const unpaid = await kpiCard('Unpaid Invoices')
+    expect(await within(unpaid).findByText('2')).toBeTruthy()
+    expect(
+      within(unpaid).getByText(`${formatCurrency(1116, 'USD')} + ${formatCurrency(172, 'GBP')} outstanding`)
+    ).toBeTruthy()
+  })
+
+  it('links the overdue count to the overdue orders', async () => {
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    const user = renderApp('/')
+
+    const overdue = await kpiCard('Overdue Deliveries')
+    expect(await within(overdue).findByText('1')).toBeTruthy()
+    await user.click(within(overdue).getByRole('link', { name: 'View' }))
+
+    // PUR-ORD-0003 has a line due five days ago; PUR-ORD-0004 isn't due yet
+    expect(await screen.findByText('PUR-ORD-0003')).toBeTruthy()
+    expect(screen.queryByText('PUR-ORD-0004')).toBeNull()
+    expect((screen.getByLabelText('Overdue only') as HTMLInputElement).checked).toBe(true)
+  })
+})
@@ -0,0 +1,38 @@
+import { afterEach, beforeEach } from 'vitest'
+import { configureFrappeClient } from '@/lib/frappe'
+import { clearCache } from '@/lib/cache'
+import { createMockBackend, type MockBackend } from '@/mocks/backend'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { useOutboxStore } from '@/stores/useOutboxStore'
+
+export const MOCK_EMAIL = 'supplier@example.com'
+export const MOCK_PASSWORD = 'supplier'
+
+/**
+ * Points the Frappe client at a fresh mock backend for every test and signs
+ * out afterwards. Returns a getter for the current test's backend.
+ */
+export const setupMockBackend = (): (() => MockBackend) => {
+  let backend: MockBackend
+
+  beforeEach(() => {
+    backend = createMockBackend()
+    configureFrappeClient({ fetch: backend.fetch })
+  })
+
+  afterEach(() => {
+    clearCache()
+    useOutboxStore.getState().clear()
+    useAuthStore.setState({
+      isAuthenticated: false,
+      user: null,
+      homePage: null,
+      csrfToken: null,
+      roles: [],
+      permissions: {},
+      error: null,
+    })
+  })
+
+  return () => backend
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MemoryRouter } from 'react-router-dom'
+import App from '@/App'
+import { requestPasswordReset } from '@/api/password'
+import { MOCK_INVITED_USER, MOCK_SUPPLIER, MOCK_WELCOME_KEY } from '@/mocks/fixtures'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { MOCK_EMAIL, setupMockBackend } from '@/test/mockBackend'
+
+const NEW_PASSWORD = 'Correct-Horse-42'
+
+const renderApp = (path: string) => {
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <App />
+    </MemoryRouter>
+  )
+  return userEvent.setup()
+}
+
+const choosePassword = async (user: ReturnType<typeof userEvent.setup>, password: string) => {
+  await user.type(await screen.findByLabelText('New password'), password)
+  await user.type(screen.getByLabelText('Confirm password'), password)
+}
+
+// Submitting waits for the server to rate the password
+const submit = async (user: ReturnType<typeof userEvent.setup>, name: string) => {
+  const button = screen.getByRole('button', { name })
+  await waitFor(() => expect(button.hasAttribute('disabled')).toBe(false))
+  await user.click(button)
+}
+
+describe('Password reset', () => {
+  const backend = setupMockBackend()
+
+  it('sends a reset link from the login page', async () => {
+    const user = renderApp('/login')
+
+    await user.click(await screen.findByRole('link', { name: 'Forgot password?' }))
+    await user.type(await screen.findByLabelText('Email'), MOCK_EMAIL)
+    await user.click(screen.getByRole('button', { name: 'Send reset link' }))
+
+    expect(await screen.findByText(/a password reset link is on its way/)).toBeTruthy()
+    expect(Object.values(backend().fixtures.resetKeys)).toContain(MOCK_EMAIL)
+  })
+
+  it('does not reveal whether an account exists', async () => {
+    const user = renderApp('/forgot-password')
+
+    await user.type(await screen.findByLabelText('Email'), 'nobody@example.com')
+    await user.click(screen.getByRole('button', { name: 'Send reset link' }))
+
+    expect(await screen.findByText(/a password reset link is on its way/)).toBeTruthy()
+  })
+
+  it('sets a new password from the emailed link and signs in', async () => {
+    await requestPasswordReset(MOCK_EMAIL)
+    const [key] = Object.keys(backend().fixtures.resetKeys).filter((candidate) => {
+      return backend().fixtures.resetKeys[candidate] === MOCK_EMAIL
+    })
+    const user = renderApp(`/update-password?key=${key}`)
+
+    // A weak password is rated by the site's policy and can't be submitted
+    await user.type(await screen.findByLabelText('New password'), 'password')
+    expect(await screen.findByText('This password is easy to guess')).toBeTruthy()
+    expect(screen.getByRole('button', { name: 'Update password' }).hasAttribute('disabled')).toBe(true)
+
+    await user.clear(screen.getByLabelText('New password'))
+    await choosePassword(user, NEW_PASSWORD)
+    expect(await screen.findByText('Strong')).toBeTruthy()
+    await submit(user, 'Update password')
+
+    expect(await screen.findByText('Welcome back, supplier')).toBeTruthy()
+    expect(backend().sessionUser).toBe(MOCK_EMAIL)
+    expect(backend().fixtures.users.find((candidate) => candidate.email === MOCK_EMAIL)?.password).toBe(NEW_PASSWORD)
+  })
+
+  it('reports a used or expired link', async () => {
+    const user = renderApp('/update-password?key=expired')
+
+    await choosePassword(user, NEW_PASSWORD)
+    await submit(user, 'Update password')
+
+    expect(await screen.findByText('The reset password link has been expired')).toBeTruthy()
+    expect(screen.getByRole('link', { name: 'Request a new link' })).toBeTruthy()
+    expect(useAuthStore.getState().isAuthenticated).toBe(false)
+  })
+
+  it('takes an invited contact through first login', async () => {
+    const user = renderApp(`/update-password?key=${MOCK_WELCOME_KEY}&welcome=1`)
+
+    expect(await screen.findByText('Set up your account')).toBeTruthy()
+    await choosePassword(user, NEW_PASSWORD)
+    await submit(user, 'Set password and continue')
+
+    expect(await screen.findByRole('heading', { name: 'Welcome, new.contact' })).toBeTruthy()
+    expect(await screen.findByText(MOCK_SUPPLIER)).toBeTruthy()
+    // Quick-start links follow the contact's access, alongside the sidebar's
+    expect(screen.getAllByRole('link', { name: 'Purchase Orders' })).toHaveLength(2)
+    expect(backend().sessionUser).toBe(MOCK_INVITED_USER)
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { MemoryRouter } from 'react-router-dom'
+import App from '@/App'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { MOCK_EMAIL, MOCK_PASSWORD, setupMockBackend } from '@/test/mockBackend'
+
+const renderApp = (path: string) => {
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <App />
+    </MemoryRouter>
+  )
+}
+
+describe('Payments', () => {
+  const backend = setupMockBackend()
+
+  it('lists invoices with their payments', async () => {
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    renderApp('/payments')
+
+    expect(await screen.findByText('ACME-1003')).toBeTruthy()
+    expect(screen.getByRole('columnheader', { name: 'Payments' })).toBeTruthy()
+  })
+
+  it('still lists invoices for users who cannot read Payment Entry', async () => {
+    const supplier = backend().fixtures.users.find((candidate) => candidate.email === MOCK_EMAIL)
+    if (supplier) supplier.permissions['Payment Entry'] = []
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    renderApp('/payments')
+
+    expect(await screen.findByText('ACME-1003')).toBeTruthy()
+    expect(screen.queryByRole('columnheader', { name: 'Payments' })).toBeNull()
+    expect(screen.queryByText('Not permitted')).toBeNull()
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import { MemoryRouter } from 'react-router-dom'
+import App from '@/App'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { MOCK_EMAIL, MOCK_PASSWORD, setupMockBackend } from '@/test/mockBackend'
+
+const renderApp = (path: string) => {
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <App />
+    </MemoryRouter>
+  )
+}
+
+// The labels of the totals card, top to bottom
+const summaryLabels = async () => {
+  const grandTotal = await screen.findByText('Grand Total', { selector: 'span' })
+  const summary = grandTotal.closest('[data-slot="card-content"]') as HTMLElement
+  return [...summary.children].map((row) => row.firstElementChild?.textContent)
+}
+
+describe('Purchase order', () => {
+  const backend = setupMockBackend()
+
+  const discount = (applyOn: 'Net Total' | 'Grand Total') => {
+    const order = backend().fixtures.docs['Purchase Order'].find((doc) => doc.name === 'PUR-ORD-0004')
+    if (order) Object.assign(order, { discount_amount: 50, apply_discount_on: applyOn })
+  }
+
+  it('lists a discount on the net total before the taxes', async () => {
+    discount('Net Total')
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    renderApp('/purchase-orders/PUR-ORD-0004')
+
+    expect(await summaryLabels()).toEqual(['Total', 'Discount', 'Net Total', 'Taxes and Charges', 'Grand Total'])
+  })
+
+  it('lists a discount on the grand total after the taxes', async () => {
+    discount('Grand Total')
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    renderApp('/purchase-orders/PUR-ORD-0004')
+
+    expect(await summaryLabels()).toEqual(['Total', 'Net Total', 'Taxes and Charges', 'Discount', 'Grand Total'])
+  })
+})
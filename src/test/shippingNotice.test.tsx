@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MemoryRouter } from 'react-router-dom'
+import App from '@/App'
+import { useAuthStore } from '@/stores/useAuthStore'
+import { MOCK_EMAIL, MOCK_PASSWORD, setupMockBackend } from '@/test/mockBackend'
+
+const renderApp = (path: string) => {
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <App />
+    </MemoryRouter>
+  )
+  return userEvent.setup()
+}
+
+const stillDue = async (itemCode: string) => {
+  const row = (await screen.findByText(itemCode)).closest('tr') as HTMLElement
+  return within(row).getAllByRole('cell')[1].textContent
+}
+
+describe('Shipping notice', () => {
+  const backend = setupMockBackend()
+
+  it('does not offer qty already announced on an open notice', async () => {
+    await useAuthStore.getState().login(MOCK_EMAIL, MOCK_PASSWORD)
+    const user = renderApp('/shipping-notices/new?po=PUR-ORD-0003')
+
+    // 400 ordered, 250 received and 100 on ASN-0001; the cancelled ASN-0002 doesn't count
+    expect(await stillDue('MED-GLOVE-M')).toBe('50 Box100 on open notices')
+    expect(await stillDue('MED-WIPES')).toBe('120 Pack')
+
+    await user.type(screen.getByLabelText('Carrier'), 'DPD')
+    await user.type(screen.getByLabelText('Expected Arrival'), '2099-01-01')
+    await user.click(screen.getByRole('button', { name: 'Send Shipping Notice' }))
+    expect(await screen.findByText(/Shipping notice ASN-0003 was sent/)).toBeTruthy()
+
+    // The new notice covers the rest of the order
+    await user.click(screen.getByRole('link', { name: 'Back to PUR-ORD-0003' }))
+    const links = await screen.findAllByRole('link', { name: /Notify Shipment/ })
+    await user.click(links.find((link) => link.getAttribute('href')?.includes('PUR-ORD-0003')) as HTMLElement)
+    expect(await screen.findByText(/already been received or announced/)).toBeTruthy()
+    expect(backend().fixtures.docs['Advance Shipping Notice']).toHaveLength(3)
+  })
+})
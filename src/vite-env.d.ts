@@ -0,0 +1,13 @@
+/// <reference types="vite/client" />
+
+// Build-time configuration, see .env.example
+interface ImportMetaEnv {
+  readonly VITE_FRAPPE_URL?: string
+  readonly VITE_FRAPPE_SITES?: string
+  readonly VITE_MOCK_BACKEND?: string
+  readonly VITE_SOCIAL_LOGINS?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
@@ -1,14 +1,106 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { readFileSync } from 'fs'
+import { defineConfig, loadEnv, type Plugin, type ProxyOptions } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
 import path from 'path'
 
-// https://vite.dev/config/
-export default defineConfig({
-  plugins: [react(), tailwindcss()],
-  resolve: {
-    alias: {
-      '@': path.resolve(__dirname, './src'),
+// Frappe site the dev and preview servers proxy to, unless FRAPPE_PROXY_TARGET says otherwise
+const DEFAULT_PROXY_TARGET = 'https://gcdev.m.frappe.cloud'
+
+// Serves the Frappe site from the app's own origin, so its session cookie is
+// first-party and no CORS is involved. middleware.ts does the same on Vercel.
+const frappeProxy = (target: string): Record<string, ProxyOptions> => {
+  const options: ProxyOptions = {
+    target,
+    changeOrigin: true,
+    // The browser has to keep Frappe's cookies for the dev origin, which is plain http
+    cookieDomainRewrite: '',
+    configure: (proxy) => {
+      proxy.on('proxyRes', (response) => {
+        const cookies = response.headers['set-cookie']
+        if (!cookies) return
+        response.headers['set-cookie'] = cookies.map((cookie) =>
+          cookie.replace(/;\s*secure/gi, '').replace(/;\s*samesite=none/gi, '; SameSite=Lax')
+        )
+      })
     },
+  }
+  return {
+    '/api': options,
+    '/files': options,
+    '/private/files': options,
+    // Frappe's assets sit in per-app folders; the app's own are never nested
+    '^/assets/[^/]+/': options,
+    // Portal pages share their paths with the app's routes, so they're fetched under /portal
+    '/portal': { ...options, rewrite: (url) => url.replace(/^\/portal/, '') || '/' },
+  }
+}
+
+// Site URLs from VITE_FRAPPE_URL / VITE_FRAPPE_SITES; an empty one is the proxied site
+const configuredSiteUrls = (env: Record<string, string>): string[] => {
+  if (!env.VITE_FRAPPE_SITES) return [env.VITE_FRAPPE_URL?.trim() ?? '']
+  return env.VITE_FRAPPE_SITES.split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => entry.slice(entry.indexOf('=') + 1).trim())
+}
+
+// Fails a Vercel build whose deployment can't reach the sites the app is built for
+const checkVercelDeployment = (env: Record<string, string>): Plugin => ({
+  name: 'check-vercel-deployment',
+  apply: 'build',
+  buildStart() {
+    if (!process.env.VERCEL || env.VITE_MOCK_BACKEND === 'true') return
+    const urls = configuredSiteUrls(env)
+    if (urls.some((url) => !url) && !env.FRAPPE_PROXY_TARGET) {
+      this.error('A proxied Frappe site is configured, but FRAPPE_PROXY_TARGET is not set for middleware.ts')
+    }
+    const vercel = JSON.parse(readFileSync(path.resolve(__dirname, 'vercel.json'), 'utf8')) as {
+      headers: Array<{ headers: Array<{ key: string; value: string }> }>
+    }
+    const csp = vercel.headers.flatMap((rule) => rule.headers).find((header) => header.key === 'Content-Security-Policy')
+    const connectSrc = csp?.value.match(/connect-src([^;]*)/)?.[1].trim().split(/\s+/) ?? []
+    const blocked = urls.filter(Boolean).map((url) => new URL(url).origin).filter((origin) => !connectSrc.includes(origin))
+    if (blocked.length > 0) {
+      this.error(`Add ${blocked.join(', ')} to the Content-Security-Policy in vercel.json to call these sites directly`)
+    }
   },
 })
+
+// https://vite.dev/config/
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), '')
+  const proxy = frappeProxy(env.FRAPPE_PROXY_TARGET || DEFAULT_PROXY_TARGET)
+
+  return {
+    plugins: [react(), tailwindcss(), checkVercelDeployment(env)],
+    resolve: {
+      alias: {
+        '@': path.resolve(__dirname, './src'),
+      },
+    },
+    define: {
+      // Names the service worker's cache, so each deploy replaces the previous shell
+      __APP_BUILD__: JSON.stringify(Date.now().toString(36)),
+    },
+    server: { proxy },
+    preview: { proxy },
+    test: {
+      environment: 'jsdom',
+      setupFiles: ['./src/test/setup.ts'],
+    },
+    build: {
+      rollupOptions: {
+        input: {
+          main: path.resolve(__dirname, 'index.html'),
+          sw: path.resolve(__dirname, 'src/service-worker/sw.ts'),
+        },
+        output: {
+          // The service worker needs a fixed URL at the site root to control every page
+          entryFileNames: (chunk) => (chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js'),
+        },
+      },
+    },
+  }
+})